@@ -66,7 +66,7 @@ async function runBaseScan() {
         symbol: stock.symbol,
         name: stock.name,
         close: stock.close,
-        volume: stock.volume.toLocaleString(),
+        volume: stock.volume?.toLocaleString(),
         change: stock.change?.toFixed(2) + '%',
         rel_volume: stock.relative_volume_10d_calc?.toFixed(2) + 'x',
       }))
@@ -127,7 +127,7 @@ async function runBaseScan() {
         name: stock.name,
         gap: stock.gap?.toFixed(2) + '%',
         close: stock.close,
-        volume: stock.volume.toLocaleString(),
+        volume: stock.volume?.toLocaleString(),
         change: stock.change?.toFixed(2) + '%',
       }))
     );
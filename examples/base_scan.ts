@@ -6,6 +6,54 @@
 import { Query, col } from '../src';
 import type { ScannerData, Cookies } from '../src/models';
 
+/**
+ * Columns returned by the base scan
+ */
+export const BASE_SCAN_COLUMNS = [
+  'time',
+  'update_time',
+  'logoid',
+  'name',
+  'description',
+  'last_bar_update_time',
+  'open',
+  'high',
+  'low',
+  'close',
+  'volume',
+  'premarket_time',
+  'premarket_open',
+  'premarket_high',
+  'premarket_low',
+  'premarket_close',
+  'premarket_volume',
+  'premarket_change_abs',
+  'premarket_change',
+  'premarket_change_from_open',
+  'premarket_gap',
+  'change',
+  'volume_change',
+  'average_volume_30d_calc',
+  'relative_volume',
+  'relative_volume_10d_calc',
+  'gap',
+  'gap_up',
+  'gap_up_abs',
+  'float_shares_outstanding',
+  'currency',
+  'sector',
+  'market',
+  'industry',
+  'update_mode',
+  'type',
+  'typespecs',
+] as const;
+
+/**
+ * Column names returned by the base scan
+ */
+export type BaseScanColumn = (typeof BASE_SCAN_COLUMNS)[number];
+
 /**
  * Execute the base scan for active stocks
  *
@@ -27,48 +75,10 @@ import type { ScannerData, Cookies } from '../src/models';
 export async function baseScan(
   market: string = 'america',
   cookies?: Cookies
-): Promise<ScannerData> {
+): Promise<ScannerData<BaseScanColumn>> {
   const query = new Query()
     .setMarkets(market)
-    .select(
-      'time',
-      'update_time',
-      'logoid',
-      'name',
-      'description',
-      'last_bar_update_time',
-      'open',
-      'high',
-      'low',
-      'close',
-      'volume',
-      'premarket_time',
-      'premarket_open',
-      'premarket_high',
-      'premarket_low',
-      'premarket_close',
-      'premarket_volume',
-      'premarket_change_abs',
-      'premarket_change',
-      'premarket_change_from_open',
-      'premarket_gap',
-      'change',
-      'volume_change',
-      'average_volume_30d_calc',
-      'relative_volume',
-      'relative_volume_10d_calc',
-      'gap',
-      'gap_up',
-      'gap_up_abs',
-      'float_shares_outstanding',
-      'currency',
-      'sector',
-      'market',
-      'industry',
-      'update_mode',
-      'type',
-      'typespecs'
-    )
+    .select(...BASE_SCAN_COLUMNS)
     .where(
       col('active_symbol').eq(true),
       col('type').eq('stock'),
@@ -96,48 +106,12 @@ export async function baseScan(
  *                 Note: This scan includes stock-specific fields. For crypto/forex, create a custom query.
  * @returns Query object configured with base scan parameters
  */
-export function getBaseScanQuery(market: string = 'america'): Query {
+export function getBaseScanQuery(
+  market: string = 'america'
+): Query<BaseScanColumn> {
   return new Query()
     .setMarkets(market)
-    .select(
-      'time',
-      'update_time',
-      'logoid',
-      'name',
-      'description',
-      'last_bar_update_time',
-      'open',
-      'high',
-      'low',
-      'close',
-      'volume',
-      'premarket_time',
-      'premarket_open',
-      'premarket_high',
-      'premarket_low',
-      'premarket_close',
-      'premarket_volume',
-      'premarket_change_abs',
-      'premarket_change',
-      'premarket_change_from_open',
-      'premarket_gap',
-      'change',
-      'volume_change',
-      'average_volume_30d_calc',
-      'relative_volume',
-      'relative_volume_10d_calc',
-      'gap',
-      'gap_up',
-      'gap_up_abs',
-      'float_shares_outstanding',
-      'currency',
-      'sector',
-      'market',
-      'industry',
-      'update_mode',
-      'type',
-      'typespecs'
-    )
+    .select(...BASE_SCAN_COLUMNS)
     .where(
       col('active_symbol').eq(true),
       col('type').eq('stock'),
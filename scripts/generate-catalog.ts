@@ -0,0 +1,214 @@
+/**
+ * Regenerate src/catalog.generated.ts from the scanner's metainfo
+ *
+ *   npm run catalog                              # fetch every market group
+ *   npm run catalog -- --snapshot metainfo.json  # use saved responses
+ *
+ * Options:
+ *   --snapshot <file>  Read metainfo responses from a file instead of the
+ *                      scanner: {"stock": {"fields": [...]}, "crypto": ...}
+ *   --save <file>      Write the fetched responses as a snapshot
+ *   --source <text>    Describe the input in the generated header
+ *   --version <label>  Version label (default: today, as YYYY.MM.DD)
+ *   --out <file>       Output file (default: src/catalog.generated.ts)
+ *
+ * One metainfo response describes each market group. Fields reported by
+ * every loaded group are valid in all of them; the others record the
+ * groups that reported them. Groups that fail to load are skipped and
+ * left out of CATALOG_GROUPS, so the catalog treats their markets as
+ * unknown.
+ * When groups disagree, the first group's type and percent flag win, except
+ * that a timestamp, boolean or array type replaces a plain number.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ScreenerClient } from '../src/client';
+import { MetainfoResponse } from '../src/models';
+import {
+  FieldInfo,
+  MARKET_GROUPS,
+  MarketGroup,
+  fieldsFromMetainfo,
+} from '../src/fields';
+
+const DEFAULT_OUT = path.join(__dirname, '..', 'src', 'catalog.generated.ts');
+
+interface GeneratorOptions {
+  snapshot?: string;
+  save?: string;
+  source?: string;
+  version?: string;
+  out: string;
+}
+
+function parseArgs(argv: string[]): GeneratorOptions {
+  const options: GeneratorOptions = { out: DEFAULT_OUT };
+  for (let i = 0; i < argv.length; i += 2) {
+    const flag = argv[i].replace(/^--/, '');
+    const value = argv[i + 1];
+    if (!['snapshot', 'save', 'source', 'version', 'out'].includes(flag)) {
+      throw new Error(`Unknown option "${argv[i]}"`);
+    }
+    if (value === undefined) {
+      throw new Error(`Option "${argv[i]}" requires a value`);
+    }
+    options[flag as keyof GeneratorOptions] = value;
+  }
+  return options;
+}
+
+/**
+ * Metainfo response of each market group, from a snapshot or the scanner
+ */
+async function loadMetainfo(
+  options: GeneratorOptions
+): Promise<Partial<Record<MarketGroup, MetainfoResponse>>> {
+  if (options.snapshot) {
+    return JSON.parse(await fs.readFile(options.snapshot, 'utf8'));
+  }
+
+  const client = new ScreenerClient();
+  const responses: Partial<Record<MarketGroup, MetainfoResponse>> = {};
+  for (const group of Object.keys(MARKET_GROUPS) as MarketGroup[]) {
+    const market = MARKET_GROUPS[group][0];
+    try {
+      responses[group] = await client.metainfo(market);
+    } catch (error) {
+      console.warn(
+        `Skipping ${group}: ${market} metainfo failed: ` +
+          `${(error as Error)?.message ?? error}`
+      );
+    }
+  }
+  if (options.save) {
+    await fs.writeFile(options.save, JSON.stringify(responses));
+  }
+  return responses;
+}
+
+/**
+ * Merge the fields of every group, recording which groups reported each
+ */
+function mergeGroups(
+  responses: Partial<Record<MarketGroup, MetainfoResponse>>
+): Array<{ field: FieldInfo; groups?: MarketGroup[] }> {
+  const loaded = Object.keys(responses) as MarketGroup[];
+  const merged = new Map<string, { field: FieldInfo; groups: MarketGroup[] }>();
+
+  for (const group of loaded) {
+    for (const field of fieldsFromMetainfo(responses[group]!)) {
+      const entry = merged.get(field.name);
+      if (!entry) {
+        merged.set(field.name, { field, groups: [group] });
+        continue;
+      }
+      entry.groups.push(group);
+      entry.field.timeframes = entry.field.timeframes || field.timeframes;
+      if (entry.field.type === 'number' && field.type !== 'string') {
+        entry.field.type = field.type;
+      }
+    }
+  }
+
+  return [...merged.values()]
+    .sort((a, b) => (a.field.name < b.field.name ? -1 : 1))
+    .map(({ field, groups }) => ({
+      field,
+      groups: groups.length === loaded.length ? undefined : groups,
+    }));
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function render(
+  entries: Array<{ field: FieldInfo; groups?: MarketGroup[] }>,
+  loaded: MarketGroup[],
+  version: string,
+  source: string
+): string {
+  const rows = entries.map(({ field, groups }) => {
+    const cells = [
+      quote(field.name),
+      quote(field.type),
+      String(field.timeframes),
+      ...(groups ? [`[${groups.map(quote).join(', ')}]`] : []),
+    ];
+    return `  [${cells.join(', ')}],`;
+  });
+  const percents = entries
+    .filter(({ field }) => field.percent)
+    .map(({ field }) => `  ${quote(field.name)},`);
+
+  return `/**
+ * Generated by scripts/generate-catalog.ts - do not edit by hand.
+ * Regenerate with \`npm run catalog\`.
+ */
+
+import type { FieldRow, MarketGroup } from './fields';
+
+/**
+ * Version label of this snapshot
+ */
+export const CATALOG_VERSION = ${quote(version)};
+
+/**
+ * Metainfo the snapshot was generated from
+ */
+export const CATALOG_SOURCE =
+  ${quote(source)};
+
+/**
+ * Market groups the snapshot describes
+ */
+export const CATALOG_GROUPS: readonly MarketGroup[] = [
+${loaded.map((group) => `  ${quote(group)},`).join('\n')}
+];
+
+/**
+ * [name, type, timeframes, market groups]; fields without groups are
+ * valid in every group of CATALOG_GROUPS
+ */
+export const CATALOG_FIELDS = [
+${rows.join('\n')}
+] as const satisfies readonly FieldRow[];
+
+/**
+ * Fields whose values are percentages
+ */
+export const CATALOG_PERCENT_FIELDS: readonly string[] = [
+${percents.join('\n')}
+];
+`;
+}
+
+async function main(argv: string[]): Promise<void> {
+  const options = parseArgs(argv);
+  const responses = await loadMetainfo(options);
+  const groups = Object.keys(responses) as MarketGroup[];
+  if (groups.length === 0) {
+    throw new Error('No metainfo was loaded');
+  }
+
+  const today = new Date().toISOString().slice(0, 10);
+  const version = options.version ?? today.replace(/-/g, '.');
+  const source =
+    options.source ??
+    (options.snapshot
+      ? `snapshot ${path.basename(options.snapshot)} (${groups.join(', ')})`
+      : `scanner metainfo fetched ${today} (${groups.join(', ')})`);
+
+  const entries = mergeGroups(responses);
+  await fs.writeFile(options.out, render(entries, groups, version, source));
+  console.log(
+    `Wrote ${entries.length} fields from ${groups.length} market groups ` +
+      `to ${path.relative(process.cwd(), options.out)}`
+  );
+}
+
+main(process.argv.slice(2)).catch((error) => {
+  console.error(`generate-catalog: ${(error as Error)?.message ?? error}`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,46 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryCacheStore, ResponseCache } from './cache';
+
+/**
+ * Store whose reads and writes fail
+ */
+class BrokenStore extends MemoryCacheStore {
+  async get(): Promise<string | undefined> {
+    throw new Error('EACCES: read');
+  }
+
+  async set(): Promise<void> {
+    throw new Error('ENOSPC: write');
+  }
+}
+
+describe('ResponseCache', () => {
+  it('answers repeated requests from the store', async () => {
+    const cache = new ResponseCache();
+    let loads = 0;
+    const load = async () => ({ totalCount: ++loads, data: [] });
+
+    await cache.fetch('key', load);
+    const second = await cache.fetch('key', load);
+
+    assert.equal(loads, 1);
+    assert.equal(second.totalCount, 1);
+  });
+
+  it('returns the response when the store fails and reports it', async () => {
+    const cache = new ResponseCache({ store: new BrokenStore() });
+    const failures: string[] = [];
+    cache.on('storeError', (error, operation, key) => {
+      failures.push(`${operation} ${key}: ${(error as Error).message}`);
+    });
+
+    const response = await cache.fetch('key', async () => ({ totalCount: 3 }));
+
+    assert.deepEqual(response, { totalCount: 3 });
+    assert.deepEqual(failures, [
+      'get key: EACCES: read',
+      'set key: ENOSPC: write',
+    ]);
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Response caching for scan requests
+ * Responses are keyed on the endpoint, a canonical hash of the QueryDict
+ * and the session, so key order in the payload does not matter and
+ * authenticated (real-time) and anonymous (delayed) responses are never
+ * shared.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Cookies, QueryDict } from './models';
+import { TypedEmitter } from './events';
+
+/**
+ * Storage backend for cached responses. Values are serialized JSON.
+ */
+export interface CacheStore {
+  get(key: string): Promise<string | undefined>;
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * In-memory store evicting the least recently used entry when full
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly maxEntries: number;
+  private readonly entries = new Map<
+    string,
+    { value: string; expiresAt: number }
+  >();
+
+  /**
+   * @param maxEntries - Maximum number of cached responses (default: 500)
+   */
+  constructor(maxEntries: number = 500) {
+    this.maxEntries = Math.max(1, maxEntries);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    // Re-insert so iteration order tracks recency
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Filesystem store writing one JSON file per response, so the cache is
+ * shared between processes on the same machine
+ */
+export class FileCacheStore implements CacheStore {
+  readonly directory: string;
+
+  /**
+   * @param directory - Directory for cache files, created on first write
+   */
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  private file(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    let entry: { value: string; expiresAt: number };
+    try {
+      entry = JSON.parse(await fs.readFile(this.file(key), 'utf8'));
+    } catch {
+      return undefined;
+    }
+    if (typeof entry?.value !== 'string' || !(entry.expiresAt > Date.now())) {
+      await this.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const file = this.file(key);
+    const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(
+      temp,
+      JSON.stringify({ value, expiresAt: Date.now() + ttlMs }),
+      'utf8'
+    );
+    // Rename so concurrent readers never see a partial file
+    await fs.rename(temp, file);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.file(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch {
+      return;
+    }
+    await Promise.all(
+      files
+        .filter((file) => file.endsWith('.json'))
+        .map((file) => fs.rm(path.join(this.directory, file), { force: true }))
+    );
+  }
+}
+
+/**
+ * Cache configuration
+ */
+export interface ResponseCacheOptions {
+  /** Time a response stays fresh in milliseconds (default: 30000) */
+  ttlMs?: number;
+  /** Storage backend (default: in-memory LRU with 500 entries) */
+  store?: CacheStore;
+}
+
+const DEFAULT_TTL_MS = 30_000;
+
+/**
+ * Serialize a value as JSON with object keys sorted at every level
+ */
+export function canonicalJSON(value: unknown): string {
+  return JSON.stringify(value, (_key, val) => {
+    if (val && typeof val === 'object' && !Array.isArray(val)) {
+      return Object.keys(val)
+        .sort()
+        .reduce<Record<string, unknown>>((sorted, key) => {
+          sorted[key] = val[key];
+          return sorted;
+        }, {});
+    }
+    return val;
+  });
+}
+
+function sha256(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Hash of a QueryDict that does not depend on key order
+ */
+export function hashQueryDict(queryDict: QueryDict): string {
+  return sha256(canonicalJSON(queryDict));
+}
+
+/**
+ * Events emitted by a ResponseCache and their arguments
+ */
+export interface ResponseCacheEvents {
+  /**
+   * The store failed to read or write an entry. The request still
+   * completes: a failed read is a miss, a failed write leaves the response
+   * uncached.
+   */
+  storeError: [error: unknown, operation: 'get' | 'set', key: string];
+}
+
+/**
+ * Cache of scan responses with in-flight request collapsing
+ */
+export class ResponseCache extends TypedEmitter<ResponseCacheEvents> {
+  readonly ttlMs: number;
+  readonly store: CacheStore;
+  private readonly inFlight = new Map<string, Promise<string>>();
+
+  constructor(options: ResponseCacheOptions = {}) {
+    super();
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+    this.store = options.store ?? new MemoryCacheStore();
+  }
+
+  /**
+   * Cache key for a request. Anonymous requests and each distinct session
+   * get separate key spaces.
+   * @param url - Endpoint the payload is sent to
+   * @param queryDict - Request payload
+   * @param cookies - Session cookies, if any
+   */
+  key(url: string, queryDict: QueryDict, cookies?: Cookies): string {
+    const scope =
+      cookies && Object.keys(cookies).length > 0
+        ? `auth-${sha256(canonicalJSON(cookies)).slice(0, 16)}`
+        : 'anon';
+    return `${scope}-${sha256(`${url}\n${canonicalJSON(queryDict)}`)}`;
+  }
+
+  /**
+   * Return the cached response for a key, or load and cache it.
+   * Concurrent calls for the same key share one load.
+   * Every caller receives its own copy of the response.
+   * Store failures are emitted as 'storeError' and never fail the request.
+   * @param key - Key from `key()`
+   * @param load - Sends the request on a cache miss
+   */
+  async fetch<T>(key: string, load: () => Promise<T>): Promise<T> {
+    let cached: string | undefined;
+    try {
+      cached = await this.store.get(key);
+    } catch (error) {
+      this.emit('storeError', error, 'get', key);
+    }
+    if (cached !== undefined) {
+      return JSON.parse(cached) as T;
+    }
+
+    let pending = this.inFlight.get(key);
+    if (!pending) {
+      pending = (async () => {
+        const serialized = JSON.stringify(await load());
+        try {
+          await this.store.set(key, serialized, this.ttlMs);
+        } catch (error) {
+          this.emit('storeError', error, 'set', key);
+        }
+        return serialized;
+      })().finally(() => {
+        this.inFlight.delete(key);
+      });
+      this.inFlight.set(key, pending);
+    }
+    return JSON.parse(await pending) as T;
+  }
+
+  /**
+   * Drop every cached response
+   */
+  clear(): Promise<void> {
+    return this.store.clear();
+  }
+}
@@ -0,0 +1,1365 @@
+/**
+ * Generated by scripts/generate-catalog.ts - do not edit by hand.
+ * Regenerate with `npm run catalog`.
+ */
+
+import type { FieldRow, MarketGroup } from './fields';
+
+/**
+ * Version label of this snapshot
+ */
+export const CATALOG_VERSION = '2026.10.19';
+
+/**
+ * Metainfo the snapshot was generated from
+ */
+export const CATALOG_SOURCE =
+  'tradingview-screener@2.3.2 field tables (MIT), converted to metainfo form: stock, crypto, coin, forex, futures';
+
+/**
+ * Market groups the snapshot describes
+ */
+export const CATALOG_GROUPS: readonly MarketGroup[] = [
+  'stock',
+  'crypto',
+  'coin',
+  'forex',
+  'futures',
+];
+
+/**
+ * [name, type, timeframes, market groups]; fields without groups are
+ * valid in every group of CATALOG_GROUPS
+ */
+export const CATALOG_FIELDS = [
+  ['24h_close_change_abs|5', 'number', false, ['crypto', 'coin']],
+  ['24h_close_change|5', 'number', false, ['crypto', 'coin']],
+  ['24h_close_prev|5', 'number', false, ['crypto', 'coin']],
+  ['24h_vol_change_abs|5', 'number', false, ['crypto', 'coin']],
+  ['24h_vol_change_cmc', 'number', false, ['crypto', 'coin']],
+  ['24h_vol_change|5', 'number', false, ['crypto', 'coin']],
+  ['24h_vol_cmc', 'number', false, ['crypto', 'coin']],
+  ['24h_vol_prev|5', 'number', false, ['crypto', 'coin']],
+  ['24h_vol_to_market_cap', 'number', false, ['crypto', 'coin']],
+  ['24h_vol|5', 'number', false, ['crypto', 'coin']],
+  ['ADR', 'number', true],
+  ['ADRP', 'number', true],
+  ['ADX', 'number', true],
+  ['ADX+DI', 'number', true],
+  ['ADX+DI[1]', 'number', true],
+  ['ADX+DI_100', 'number', true],
+  ['ADX+DI_100[1]', 'number', true],
+  ['ADX+DI_20', 'number', true],
+  ['ADX+DI_20[1]', 'number', true],
+  ['ADX+DI_50', 'number', true],
+  ['ADX+DI_50[1]', 'number', true],
+  ['ADX+DI_9', 'number', true],
+  ['ADX+DI_9[1]', 'number', true],
+  ['ADX-DI', 'number', true],
+  ['ADX-DI[1]', 'number', true],
+  ['ADX-DI_100', 'number', true],
+  ['ADX-DI_100[1]', 'number', true],
+  ['ADX-DI_20', 'number', true],
+  ['ADX-DI_20[1]', 'number', true],
+  ['ADX-DI_50', 'number', true],
+  ['ADX-DI_50[1]', 'number', true],
+  ['ADX-DI_9', 'number', true],
+  ['ADX-DI_9[1]', 'number', true],
+  ['ADX_100', 'number', true],
+  ['ADX_20', 'number', true],
+  ['ADX_50', 'number', true],
+  ['ADX_9', 'number', true],
+  ['AO', 'number', true],
+  ['AO[1]', 'number', true],
+  ['AO[2]', 'number', true],
+  ['ATR', 'number', true],
+  ['ATRP', 'number', true],
+  ['Aroon.Down', 'number', true],
+  ['Aroon.Up', 'number', true],
+  ['AvgValue.Traded_10d', 'number', false, ['stock', 'forex']],
+  ['AvgValue.Traded_30d', 'number', false, ['stock', 'forex']],
+  ['AvgValue.Traded_60d', 'number', false, ['stock', 'forex']],
+  ['AvgValue.Traded_90d', 'number', false, ['stock', 'forex']],
+  ['BB.basis', 'number', true],
+  ['BB.basis_50', 'number', true],
+  ['BB.lower', 'number', true],
+  ['BB.lower_50', 'number', true],
+  ['BB.upper', 'number', true],
+  ['BB.upper_50', 'number', true],
+  ['BBPower', 'number', true],
+  ['CCI20', 'number', true],
+  ['CCI20[1]', 'number', true],
+  ['Candle.3BlackCrows', 'boolean', true],
+  ['Candle.3WhiteSoldiers', 'boolean', true],
+  ['Candle.AbandonedBaby.Bearish', 'boolean', true],
+  ['Candle.AbandonedBaby.Bullish', 'boolean', true],
+  ['Candle.Doji', 'boolean', true],
+  ['Candle.Doji.Dragonfly', 'boolean', true],
+  ['Candle.Doji.Gravestone', 'boolean', true],
+  ['Candle.Engulfing.Bearish', 'boolean', true],
+  ['Candle.Engulfing.Bullish', 'boolean', true],
+  ['Candle.EveningStar', 'boolean', true],
+  ['Candle.Hammer', 'boolean', true],
+  ['Candle.HangingMan', 'boolean', true],
+  ['Candle.Harami.Bearish', 'boolean', true],
+  ['Candle.Harami.Bullish', 'boolean', true],
+  ['Candle.InvertedHammer', 'boolean', true],
+  ['Candle.Kicking.Bearish', 'boolean', true],
+  ['Candle.Kicking.Bullish', 'boolean', true],
+  ['Candle.LongShadow.Lower', 'boolean', true],
+  ['Candle.LongShadow.Upper', 'boolean', true],
+  ['Candle.Marubozu.Black', 'boolean', true],
+  ['Candle.Marubozu.White', 'boolean', true],
+  ['Candle.MorningStar', 'boolean', true],
+  ['Candle.ShootingStar', 'boolean', true],
+  ['Candle.SpinningTop.Black', 'boolean', true],
+  ['Candle.SpinningTop.White', 'boolean', true],
+  ['Candle.TriStar.Bearish', 'boolean', true],
+  ['Candle.TriStar.Bullish', 'boolean', true],
+  ['ChaikinMoneyFlow', 'number', true],
+  ['DonchCh20.Lower', 'number', true],
+  ['DonchCh20.Middle', 'number', true],
+  ['DonchCh20.Upper', 'number', true],
+  ['EMA10', 'number', true],
+  ['EMA100', 'number', true],
+  ['EMA12', 'number', true],
+  ['EMA120', 'number', true],
+  ['EMA13', 'number', true],
+  ['EMA14', 'number', true],
+  ['EMA144', 'number', true],
+  ['EMA15', 'number', true],
+  ['EMA150', 'number', true],
+  ['EMA2', 'number', true],
+  ['EMA20', 'number', true],
+  ['EMA200', 'number', true],
+  ['EMA21', 'number', true],
+  ['EMA25', 'number', true],
+  ['EMA250', 'number', true],
+  ['EMA26', 'number', true],
+  ['EMA3', 'number', true],
+  ['EMA30', 'number', true],
+  ['EMA300', 'number', true],
+  ['EMA34', 'number', true],
+  ['EMA40', 'number', true],
+  ['EMA5', 'number', true],
+  ['EMA50', 'number', true],
+  ['EMA55', 'number', true],
+  ['EMA6', 'number', true],
+  ['EMA60', 'number', true],
+  ['EMA7', 'number', true],
+  ['EMA75', 'number', true],
+  ['EMA8', 'number', true],
+  ['EMA89', 'number', true],
+  ['EMA9', 'number', true],
+  ['High.1M', 'number', false],
+  ['High.1M.Date', 'timestamp', false],
+  ['High.3M', 'number', false],
+  ['High.3M.Date', 'timestamp', false],
+  ['High.5D', 'number', false],
+  ['High.6M', 'number', false],
+  ['High.6M.Date', 'timestamp', false],
+  ['High.All', 'number', false],
+  ['High.All.Calc', 'number', false],
+  ['High.All.Calc.Date', 'timestamp', false],
+  ['High.All.Date', 'timestamp', false],
+  ['HullMA20', 'number', true],
+  ['HullMA200', 'number', true],
+  ['HullMA9', 'number', true],
+  ['Ichimoku.BLine', 'number', true],
+  ['Ichimoku.BLine_20_60_120_30', 'number', true],
+  ['Ichimoku.CLine', 'number', true],
+  ['Ichimoku.CLine_20_60_120_30', 'number', true],
+  ['Ichimoku.Lead1', 'number', true],
+  ['Ichimoku.Lead1_20_60_120_30', 'number', true],
+  ['Ichimoku.Lead2', 'number', true],
+  ['Ichimoku.Lead2_20_60_120_30', 'number', true],
+  ['KltChnl.basis', 'number', true],
+  ['KltChnl.lower', 'number', true],
+  ['KltChnl.upper', 'number', true],
+  ['Low.1M', 'number', false],
+  ['Low.1M.Date', 'timestamp', false],
+  ['Low.3M', 'number', false],
+  ['Low.3M.Date', 'timestamp', false],
+  ['Low.5D', 'number', false],
+  ['Low.6M', 'number', false],
+  ['Low.6M.Date', 'timestamp', false],
+  ['Low.After.High.All', 'number', false],
+  ['Low.All', 'number', false],
+  ['Low.All.Calc', 'number', false],
+  ['Low.All.Calc.Date', 'timestamp', false],
+  ['Low.All.Date', 'timestamp', false],
+  ['MACD.hist', 'number', true],
+  ['MACD.macd', 'number', true],
+  ['MACD.signal', 'number', true],
+  ['Mom', 'number', true],
+  ['Mom[1]', 'number', true],
+  ['Mom_14', 'number', true],
+  ['Mom_14[1]', 'number', true],
+  ['MoneyFlow', 'number', true],
+  ['Open.All.Calc', 'number', false],
+  ['P.SAR', 'number', true],
+  ['Perf.10Y', 'number', false],
+  ['Perf.1M', 'number', false],
+  ['Perf.1M.MarketCap', 'number', false, ['stock', 'forex']],
+  ['Perf.1W.MarketCap', 'number', false, ['stock', 'forex']],
+  ['Perf.1Y.MarketCap', 'number', false, ['stock', 'forex']],
+  ['Perf.3M', 'number', false],
+  ['Perf.3M.MarketCap', 'number', false, ['stock', 'forex']],
+  ['Perf.3Y', 'number', false],
+  ['Perf.5D', 'number', false],
+  ['Perf.5Y', 'number', false],
+  ['Perf.5Y.MarketCap', 'number', false, ['stock', 'forex']],
+  ['Perf.6M', 'number', false],
+  ['Perf.6M.MarketCap', 'number', false, ['stock', 'forex']],
+  ['Perf.All', 'number', false],
+  ['Perf.W', 'number', false],
+  ['Perf.Y', 'number', false],
+  ['Perf.Y.MarketCap', 'number', false, ['stock']],
+  ['Perf.YTD', 'number', false],
+  ['Perf.YTD.MarketCap', 'number', false, ['stock', 'forex']],
+  ['Pivot.M.Camarilla.Middle', 'number', true],
+  ['Pivot.M.Camarilla.R1', 'number', true],
+  ['Pivot.M.Camarilla.R2', 'number', true],
+  ['Pivot.M.Camarilla.R3', 'number', true],
+  ['Pivot.M.Camarilla.S1', 'number', true],
+  ['Pivot.M.Camarilla.S2', 'number', true],
+  ['Pivot.M.Camarilla.S3', 'number', true],
+  ['Pivot.M.Classic.Middle', 'number', true],
+  ['Pivot.M.Classic.R1', 'number', true],
+  ['Pivot.M.Classic.R2', 'number', true],
+  ['Pivot.M.Classic.R3', 'number', true],
+  ['Pivot.M.Classic.S1', 'number', true],
+  ['Pivot.M.Classic.S2', 'number', true],
+  ['Pivot.M.Classic.S3', 'number', true],
+  ['Pivot.M.Demark.Middle', 'number', true],
+  ['Pivot.M.Demark.R1', 'number', true],
+  ['Pivot.M.Demark.S1', 'number', true],
+  ['Pivot.M.Fibonacci.Middle', 'number', true],
+  ['Pivot.M.Fibonacci.R1', 'number', true],
+  ['Pivot.M.Fibonacci.R2', 'number', true],
+  ['Pivot.M.Fibonacci.R3', 'number', true],
+  ['Pivot.M.Fibonacci.S1', 'number', true],
+  ['Pivot.M.Fibonacci.S2', 'number', true],
+  ['Pivot.M.Fibonacci.S3', 'number', true],
+  ['Pivot.M.Woodie.Middle', 'number', true],
+  ['Pivot.M.Woodie.R1', 'number', true],
+  ['Pivot.M.Woodie.R2', 'number', true],
+  ['Pivot.M.Woodie.R3', 'number', true],
+  ['Pivot.M.Woodie.S1', 'number', true],
+  ['Pivot.M.Woodie.S2', 'number', true],
+  ['Pivot.M.Woodie.S3', 'number', true],
+  ['ROC', 'number', true],
+  ['RSI', 'number', true],
+  ['RSI10', 'number', true],
+  ['RSI10[1]', 'number', true],
+  ['RSI2', 'number', true],
+  ['RSI20', 'number', true],
+  ['RSI20[1]', 'number', true],
+  ['RSI21', 'number', true],
+  ['RSI21[1]', 'number', true],
+  ['RSI2[1]', 'number', true],
+  ['RSI3', 'number', true],
+  ['RSI30', 'number', true],
+  ['RSI30[1]', 'number', true],
+  ['RSI3[1]', 'number', true],
+  ['RSI4', 'number', true],
+  ['RSI4[1]', 'number', true],
+  ['RSI5', 'number', true],
+  ['RSI5[1]', 'number', true],
+  ['RSI7', 'number', true],
+  ['RSI7[1]', 'number', true],
+  ['RSI9', 'number', true],
+  ['RSI9[1]', 'number', true],
+  ['RSI[1]', 'number', true],
+  ['Rec.BBPower', 'number', true],
+  ['Rec.HullMA9', 'number', true],
+  ['Rec.Ichimoku', 'number', true],
+  ['Rec.Stoch.RSI', 'number', true],
+  ['Rec.UO', 'number', true],
+  ['Rec.VWMA', 'number', true],
+  ['Rec.WR', 'number', true],
+  ['Recommend.All', 'number', true],
+  ['Recommend.MA', 'number', true],
+  ['Recommend.Other', 'number', true],
+  ['SMA10', 'number', true],
+  ['SMA100', 'number', true],
+  ['SMA12', 'number', true],
+  ['SMA120', 'number', true],
+  ['SMA13', 'number', true],
+  ['SMA14', 'number', true],
+  ['SMA144', 'number', true],
+  ['SMA15', 'number', true],
+  ['SMA150', 'number', true],
+  ['SMA2', 'number', true],
+  ['SMA20', 'number', true],
+  ['SMA200', 'number', true],
+  ['SMA21', 'number', true],
+  ['SMA25', 'number', true],
+  ['SMA250', 'number', true],
+  ['SMA26', 'number', true],
+  ['SMA3', 'number', true],
+  ['SMA30', 'number', true],
+  ['SMA300', 'number', true],
+  ['SMA34', 'number', true],
+  ['SMA40', 'number', true],
+  ['SMA5', 'number', true],
+  ['SMA50', 'number', true],
+  ['SMA55', 'number', true],
+  ['SMA6', 'number', true],
+  ['SMA60', 'number', true],
+  ['SMA7', 'number', true],
+  ['SMA75', 'number', true],
+  ['SMA8', 'number', true],
+  ['SMA89', 'number', true],
+  ['SMA9', 'number', true],
+  ['Stoch.D', 'number', true],
+  ['Stoch.D[1]', 'number', true],
+  ['Stoch.D_14_1_3', 'number', true],
+  ['Stoch.D_14_1_3[1]', 'number', true],
+  ['Stoch.D_5_3_3', 'number', true],
+  ['Stoch.D_5_3_3[1]', 'number', true],
+  ['Stoch.D_6_3_3', 'number', true],
+  ['Stoch.D_6_3_3[1]', 'number', true],
+  ['Stoch.D_8_3_3', 'number', true],
+  ['Stoch.D_8_3_3[1]', 'number', true],
+  ['Stoch.K', 'number', true],
+  ['Stoch.K[1]', 'number', true],
+  ['Stoch.K_14_1_3', 'number', true],
+  ['Stoch.K_14_1_3[1]', 'number', true],
+  ['Stoch.K_5_3_3', 'number', true],
+  ['Stoch.K_5_3_3[1]', 'number', true],
+  ['Stoch.K_6_3_3', 'number', true],
+  ['Stoch.K_6_3_3[1]', 'number', true],
+  ['Stoch.K_8_3_3', 'number', true],
+  ['Stoch.K_8_3_3[1]', 'number', true],
+  ['Stoch.RSI.D', 'number', true],
+  ['Stoch.RSI.K', 'number', true],
+  ['UO', 'number', true],
+  ['VWAP', 'number', true],
+  ['VWMA', 'number', true],
+  ['Value.Traded', 'number', true],
+  ['Volatility.D', 'number', false],
+  ['Volatility.M', 'number', false],
+  ['Volatility.W', 'number', false],
+  ['W.R', 'number', true],
+  ['active_addresses_ratio', 'number', false, ['crypto', 'coin']],
+  ['active_symbol', 'boolean', false],
+  ['actively_managed', 'string', false, ['stock']],
+  ['addresses_active', 'number', false, ['crypto', 'coin']],
+  ['addresses_new', 'number', false, ['crypto', 'coin']],
+  ['addresses_total', 'number', false, ['crypto', 'coin']],
+  ['addresses_zero_balance', 'number', false, ['crypto', 'coin']],
+  ['after_tax_margin', 'number', false, ['stock']],
+  ['all_time_high', 'timestamp', false],
+  ['all_time_high_day', 'timestamp', false],
+  ['all_time_low', 'timestamp', false],
+  ['all_time_low_day', 'timestamp', false],
+  ['all_time_open', 'timestamp', false],
+  ['altman_z_score_fy', 'number', false, ['stock']],
+  ['altman_z_score_ttm', 'number', false, ['stock']],
+  ['altrank', 'number', false, ['crypto', 'coin']],
+  ['amount_recent', 'number', false, ['stock']],
+  ['amount_upcoming', 'number', false, ['stock']],
+  ['ask', 'number', false, ['crypto', 'coin', 'forex']],
+  ['asset_class', 'string', false, ['stock']],
+  ['asset_turnover_current', 'number', false, ['stock']],
+  ['asset_turnover_fy', 'number', false, ['stock']],
+  ['at_the_money_addresses_percentage', 'number', false, ['crypto', 'coin']],
+  ['aum', 'number', false, ['stock']],
+  ['aum_perf.1M', 'number', false, ['stock', 'forex']],
+  ['aum_perf.1Y', 'number', false, ['stock', 'forex']],
+  ['aum_perf.3M', 'number', false, ['stock', 'forex']],
+  ['aum_perf.3Y', 'number', false, ['stock', 'forex']],
+  ['aum_perf.5Y', 'number', false, ['stock', 'forex']],
+  ['aum_perf.YTD', 'number', false, ['stock', 'forex']],
+  ['average_transaction_usd', 'number', false, ['crypto', 'coin']],
+  ['average_volume', 'number', false, ['stock']],
+  ['average_volume_10d_calc', 'number', false],
+  ['average_volume_10d_calc_usd', 'number', true, ['crypto']],
+  ['average_volume_30d_calc', 'number', false],
+  ['average_volume_30d_calc_usd', 'number', true, ['crypto']],
+  ['average_volume_60d_calc', 'number', false],
+  ['average_volume_60d_calc_usd', 'number', true, ['crypto']],
+  ['average_volume_90d_calc', 'number', false],
+  ['average_volume_90d_calc_usd', 'number', true, ['crypto']],
+  ['avg_balance', 'number', false, ['crypto', 'coin']],
+  ['bars_count', 'number', true],
+  ['base_currency_kind', 'string', false],
+  ['basic_eps_net_income', 'number', false, ['stock']],
+  ['beta_1_year', 'number', false, ['stock']],
+  ['beta_3_year', 'number', false, ['stock']],
+  ['beta_5_year', 'number', false, ['stock']],
+  ['bid', 'number', false, ['crypto', 'coin', 'forex']],
+  ['bid_ask_spread_pct', 'number', false, ['crypto', 'coin', 'forex']],
+  ['blockchain-id', 'number', false, ['crypto', 'coin']],
+  ['book_tangible_per_share_current', 'number', false, ['stock']],
+  ['book_tangible_per_share_fh', 'number', false, ['stock']],
+  ['book_tangible_per_share_fq', 'number', false, ['stock']],
+  ['book_tangible_per_share_fy', 'number', false, ['stock']],
+  ['book_value_per_share_current', 'number', false, ['stock']],
+  ['book_value_per_share_fh', 'number', false, ['stock']],
+  ['book_value_per_share_fq', 'number', false, ['stock']],
+  ['book_value_per_share_fy', 'number', false, ['stock']],
+  ['brand', 'string', false, ['stock']],
+  ['break_even_addresses_percentage', 'number', false, ['crypto', 'coin']],
+  ['buyback_yield', 'number', false, ['stock']],
+  ['candlestick', 'number', false, ['stock', 'crypto', 'forex']],
+  ['capex_per_share_current', 'number', false, ['stock']],
+  ['capex_per_share_fh', 'number', false, ['stock']],
+  ['capex_per_share_fq', 'number', false, ['stock']],
+  ['capex_per_share_fy', 'number', false, ['stock']],
+  ['capex_per_share_ttm', 'number', false, ['stock']],
+  ['capital_expenditures_fh', 'number', false, ['stock']],
+  ['capital_expenditures_fq', 'number', false, ['stock']],
+  ['capital_expenditures_fy', 'number', false, ['stock']],
+  ['capital_expenditures_qoq_growth_fq', 'number', false, ['stock']],
+  ['capital_expenditures_ttm', 'number', false, ['stock']],
+  ['capital_expenditures_unchanged_fq_h', 'number', false, ['stock']],
+  ['capital_expenditures_unchanged_fy_h', 'number', false, ['stock']],
+  ['capital_expenditures_unchanged_ttm_h', 'number', false, ['stock']],
+  ['capital_expenditures_yoy_growth_fq', 'number', false, ['stock']],
+  ['capital_expenditures_yoy_growth_fy', 'number', false, ['stock']],
+  ['capital_expenditures_yoy_growth_ttm', 'number', false, ['stock']],
+  ['cash_dividend_coverage_ratio_fy', 'number', false, ['stock']],
+  ['cash_dividend_coverage_ratio_ttm', 'number', false, ['stock']],
+  ['cash_f_financing_activities_fh', 'number', false, ['stock']],
+  ['cash_f_financing_activities_fq', 'number', false, ['stock']],
+  ['cash_f_financing_activities_fy', 'number', false, ['stock']],
+  ['cash_f_financing_activities_ttm', 'number', false, ['stock']],
+  ['cash_f_investing_activities_fh', 'number', false, ['stock']],
+  ['cash_f_investing_activities_fq', 'number', false, ['stock']],
+  ['cash_f_investing_activities_fy', 'number', false, ['stock']],
+  ['cash_f_investing_activities_ttm', 'number', false, ['stock']],
+  ['cash_f_operating_activities_fh', 'number', false, ['stock']],
+  ['cash_f_operating_activities_fq', 'number', false, ['stock']],
+  ['cash_f_operating_activities_fy', 'number', false, ['stock']],
+  ['cash_f_operating_activities_ttm', 'number', false, ['stock']],
+  ['cash_n_equivalents_fq', 'number', false, ['stock']],
+  ['cash_n_equivalents_fy', 'number', false, ['stock']],
+  ['cash_n_short_term_invest_fq', 'number', false, ['stock']],
+  ['cash_n_short_term_invest_fy', 'number', false, ['stock']],
+  ['cash_n_short_term_invest_to_total_current_liabilities_fq', 'number', false, ['stock']],
+  ['cash_n_short_term_invest_to_total_current_liabilities_fy', 'number', false, ['stock']],
+  ['cash_n_short_term_invest_to_total_debt_fq', 'number', false, ['stock']],
+  ['cash_n_short_term_invest_to_total_debt_fy', 'number', false, ['stock']],
+  ['cash_per_share_current', 'number', false, ['stock']],
+  ['cash_per_share_fh', 'number', false, ['stock']],
+  ['cash_per_share_fq', 'number', false, ['stock']],
+  ['cash_per_share_fy', 'number', false, ['stock']],
+  ['cash_ratio', 'number', false, ['stock']],
+  ['category', 'string', false, ['stock']],
+  ['centralization', 'number', false, ['crypto', 'coin']],
+  ['change', 'number', true],
+  ['change.1', 'number', false, ['stock', 'crypto', 'forex']],
+  ['change.15', 'number', false, ['stock', 'crypto', 'forex']],
+  ['change.1M', 'number', false, ['stock', 'crypto', 'forex']],
+  ['change.1W', 'number', false, ['stock', 'crypto', 'forex']],
+  ['change.240', 'number', false, ['stock', 'crypto', 'forex']],
+  ['change.5', 'number', false, ['stock', 'crypto', 'forex']],
+  ['change.60', 'number', false, ['stock', 'crypto', 'forex']],
+  ['change_abs', 'number', true],
+  ['change_abs.1', 'number', false, ['stock', 'crypto', 'forex']],
+  ['change_abs.15', 'number', false, ['stock', 'crypto', 'forex']],
+  ['change_abs.1M', 'number', false, ['stock', 'crypto', 'forex']],
+  ['change_abs.1W', 'number', false, ['stock', 'crypto', 'forex']],
+  ['change_abs.240', 'number', false, ['stock', 'crypto', 'forex']],
+  ['change_abs.5', 'number', false, ['stock', 'crypto', 'forex']],
+  ['change_abs.60', 'number', false, ['stock', 'crypto', 'forex']],
+  ['change_from_open', 'number', true],
+  ['change_from_open_abs', 'number', true],
+  ['circulating_supply', 'number', false, ['crypto', 'coin']],
+  ['circulating_to_max_supply_ratio', 'number', false, ['crypto', 'coin']],
+  ['close', 'number', true],
+  ['close_usd|5', 'number', false, ['crypto', 'coin']],
+  ['continuous_dividend_growth', 'number', false, ['stock']],
+  ['continuous_dividend_payout', 'number', false, ['stock']],
+  ['contributorsactive', 'number', false, ['crypto', 'coin']],
+  ['contributorscreated', 'number', false, ['crypto', 'coin']],
+  ['country', 'string', false, ['stock', 'crypto', 'coin', 'forex']],
+  ['country2', 'string', false, ['forex']],
+  ['country_code', 'string', false, ['forex', 'futures']],
+  ['country_code_fund', 'string', false, ['stock']],
+  ['coupon', 'number', false],
+  ['crypto_blockchain_ecosystems', 'number', false, ['crypto', 'coin']],
+  ['crypto_categories', 'number', false, ['crypto', 'coin']],
+  ['crypto_code', 'number', false, ['crypto', 'coin']],
+  ['crypto_common_categories', 'number', false, ['crypto', 'coin']],
+  ['crypto_consensus_algorithms', 'number', false, ['crypto', 'coin']],
+  ['crypto_total_rank', 'number', false, ['crypto', 'coin']],
+  ['cryptoasset-info.description', 'string', false],
+  ['cryptoasset-info.id', 'string', false],
+  ['currency', 'string', false],
+  ['currency_hedged_flag', 'string', false, ['stock']],
+  ['currency_id', 'string', false],
+  ['currency_kind', 'string', false],
+  ['current_ratio', 'number', false, ['stock']],
+  ['current_ratio_current', 'number', false, ['stock']],
+  ['current_ratio_fq', 'number', false, ['stock']],
+  ['current_ratio_fy', 'number', false, ['stock']],
+  ['current_session', 'string', false],
+  ['cusip', 'string', false, ['stock']],
+  ['days_to_maturity', 'number', false],
+  ['debt_to_asset_fq', 'number', false, ['stock']],
+  ['debt_to_asset_fy', 'number', false, ['stock']],
+  ['debt_to_assets', 'number', false, ['stock']],
+  ['debt_to_equity', 'number', false, ['stock']],
+  ['debt_to_equity_fq', 'number', false, ['stock']],
+  ['debt_to_equity_fy', 'number', false, ['stock']],
+  ['debt_to_revenue_fy', 'number', false, ['stock']],
+  ['debt_to_revenue_ttm', 'number', false, ['stock']],
+  ['description', 'string', false],
+  ['dex_buy_volume_12h', 'number', false, ['crypto', 'coin']],
+  ['dex_buy_volume_15m', 'number', false, ['crypto', 'coin']],
+  ['dex_buy_volume_1h', 'number', false, ['crypto', 'coin']],
+  ['dex_buy_volume_24h', 'number', false, ['crypto', 'coin']],
+  ['dex_buy_volume_4h', 'number', false, ['crypto', 'coin']],
+  ['dex_buyers_12h', 'number', false, ['crypto', 'coin']],
+  ['dex_buyers_15m', 'number', false, ['crypto', 'coin']],
+  ['dex_buyers_1h', 'number', false, ['crypto', 'coin']],
+  ['dex_buyers_24h', 'number', false, ['crypto', 'coin']],
+  ['dex_buyers_4h', 'number', false, ['crypto', 'coin']],
+  ['dex_buys_12h', 'number', false, ['crypto', 'coin']],
+  ['dex_buys_15m', 'number', false, ['crypto', 'coin']],
+  ['dex_buys_1h', 'number', false, ['crypto', 'coin']],
+  ['dex_buys_24h', 'number', false, ['crypto', 'coin']],
+  ['dex_buys_4h', 'number', false, ['crypto', 'coin']],
+  ['dex_created_time', 'timestamp', false, ['crypto', 'coin']],
+  ['dex_sell_volume_12h', 'number', false, ['crypto', 'coin']],
+  ['dex_sell_volume_15m', 'number', false, ['crypto', 'coin']],
+  ['dex_sell_volume_1h', 'number', false, ['crypto', 'coin']],
+  ['dex_sell_volume_24h', 'number', false, ['crypto', 'coin']],
+  ['dex_sell_volume_4h', 'number', false, ['crypto', 'coin']],
+  ['dex_sellers_12h', 'number', false, ['crypto', 'coin']],
+  ['dex_sellers_15m', 'number', false, ['crypto', 'coin']],
+  ['dex_sellers_1h', 'number', false, ['crypto', 'coin']],
+  ['dex_sellers_24h', 'number', false, ['crypto', 'coin']],
+  ['dex_sellers_4h', 'number', false, ['crypto', 'coin']],
+  ['dex_sells_12h', 'number', false, ['crypto', 'coin']],
+  ['dex_sells_15m', 'number', false, ['crypto', 'coin']],
+  ['dex_sells_1h', 'number', false, ['crypto', 'coin']],
+  ['dex_sells_24h', 'number', false, ['crypto', 'coin']],
+  ['dex_sells_4h', 'number', false, ['crypto', 'coin']],
+  ['dex_total_liquidity', 'number', false, ['crypto', 'coin']],
+  ['dex_total_supply', 'number', false, ['crypto', 'coin']],
+  ['dex_trading_volume_12h', 'number', false, ['crypto', 'coin']],
+  ['dex_trading_volume_15m', 'number', false, ['crypto', 'coin']],
+  ['dex_trading_volume_1h', 'number', false, ['crypto', 'coin']],
+  ['dex_trading_volume_24h', 'number', false, ['crypto', 'coin']],
+  ['dex_trading_volume_4h', 'number', false, ['crypto', 'coin']],
+  ['dex_txs_count_12h', 'number', false, ['crypto', 'coin']],
+  ['dex_txs_count_15m', 'number', false, ['crypto', 'coin']],
+  ['dex_txs_count_1h', 'number', false, ['crypto', 'coin']],
+  ['dex_txs_count_24h', 'number', false, ['crypto', 'coin']],
+  ['dex_txs_count_4h', 'number', false, ['crypto', 'coin']],
+  ['dex_txs_count_uniq_12h', 'number', false, ['crypto', 'coin']],
+  ['dex_txs_count_uniq_15m', 'number', false, ['crypto', 'coin']],
+  ['dex_txs_count_uniq_1h', 'number', false, ['crypto', 'coin']],
+  ['dex_txs_count_uniq_24h', 'number', false, ['crypto', 'coin']],
+  ['dex_txs_count_uniq_4h', 'number', false, ['crypto', 'coin']],
+  ['diluted_shares_outstanding_fq', 'number', false, ['stock']],
+  ['dividend_amount_recent', 'number', false, ['stock']],
+  ['dividend_amount_upcoming', 'number', false, ['stock']],
+  ['dividend_ex_date_recent', 'timestamp', false, ['stock']],
+  ['dividend_ex_date_upcoming', 'timestamp', false, ['stock']],
+  ['dividend_frequency_recent', 'string', false, ['stock']],
+  ['dividend_frequency_upcoming', 'string', false, ['stock']],
+  ['dividend_payment_date_recent', 'timestamp', false, ['stock']],
+  ['dividend_payment_date_upcoming', 'timestamp', false, ['stock']],
+  ['dividend_payout_ratio_fy', 'number', false, ['stock']],
+  ['dividend_payout_ratio_percent_fq', 'number', false, ['stock']],
+  ['dividend_payout_ratio_percent_fy', 'number', false, ['stock']],
+  ['dividend_payout_ratio_ttm', 'number', false, ['stock']],
+  ['dividend_treatment', 'string', false, ['stock']],
+  ['dividend_yield_recent', 'number', false, ['stock']],
+  ['dividend_yield_upcoming', 'number', false, ['stock']],
+  ['dividends_frequency', 'string', false, ['stock']],
+  ['dividends_paid', 'number', false, ['stock']],
+  ['dividends_per_share_fq', 'number', false, ['stock']],
+  ['dividends_yield', 'number', false, ['stock']],
+  ['dividends_yield_current', 'number', false, ['stock']],
+  ['dividends_yield_fq', 'number', false, ['stock']],
+  ['dividends_yield_fy', 'number', false, ['stock']],
+  ['dps_common_stock_prim_issue_fh', 'number', false, ['stock']],
+  ['dps_common_stock_prim_issue_fq', 'number', false, ['stock']],
+  ['dps_common_stock_prim_issue_fy', 'number', false, ['stock']],
+  ['dps_common_stock_prim_issue_fy_h', 'number', false, ['stock']],
+  ['dps_common_stock_prim_issue_ttm', 'number', false, ['stock']],
+  ['dps_common_stock_prim_issue_yoy_growth_fy', 'number', false, ['stock']],
+  ['earnings_per_share_basic_cagr_5y', 'number', false, ['stock']],
+  ['earnings_per_share_basic_fh', 'number', false, ['stock']],
+  ['earnings_per_share_basic_fq', 'number', false, ['stock']],
+  ['earnings_per_share_basic_fy', 'number', false, ['stock']],
+  ['earnings_per_share_basic_fy_h', 'number', false, ['stock']],
+  ['earnings_per_share_basic_ttm', 'number', false, ['stock']],
+  ['earnings_per_share_diluted_5y_growth_fy', 'number', false, ['stock']],
+  ['earnings_per_share_diluted_fh', 'number', false, ['stock']],
+  ['earnings_per_share_diluted_fq', 'number', false, ['stock']],
+  ['earnings_per_share_diluted_fq_h', 'number', false, ['stock']],
+  ['earnings_per_share_diluted_fy', 'number', false, ['stock']],
+  ['earnings_per_share_diluted_fy_h', 'number', false, ['stock']],
+  ['earnings_per_share_diluted_qoq_growth_fq', 'number', false, ['stock']],
+  ['earnings_per_share_diluted_ttm', 'number', false, ['stock']],
+  ['earnings_per_share_diluted_ttm_h', 'number', false, ['stock']],
+  ['earnings_per_share_diluted_yoy_growth_fq', 'number', false, ['stock']],
+  ['earnings_per_share_diluted_yoy_growth_fy', 'number', false, ['stock']],
+  ['earnings_per_share_diluted_yoy_growth_ttm', 'number', false, ['stock']],
+  ['earnings_per_share_fh', 'number', false, ['stock']],
+  ['earnings_per_share_forecast_fq', 'number', false, ['stock']],
+  ['earnings_per_share_forecast_next_fh', 'number', false, ['stock']],
+  ['earnings_per_share_forecast_next_fq', 'number', false, ['stock']],
+  ['earnings_per_share_forecast_next_fy', 'number', false, ['stock']],
+  ['earnings_per_share_fq', 'number', false, ['stock']],
+  ['earnings_per_share_fy', 'number', false, ['stock']],
+  ['earnings_publication_type_fq', 'number', false, ['stock']],
+  ['earnings_publication_type_next_fq', 'number', false, ['stock']],
+  ['earnings_release_calendar_date', 'timestamp', false, ['stock']],
+  ['earnings_release_date', 'timestamp', false, ['stock']],
+  ['earnings_release_next_calendar_date', 'timestamp', false, ['stock']],
+  ['earnings_release_next_date', 'timestamp', false, ['stock']],
+  ['earnings_release_next_time', 'number', false, ['stock']],
+  ['earnings_release_next_trading_date_fq', 'timestamp', false, ['stock']],
+  ['earnings_release_next_trading_date_fy', 'timestamp', false, ['stock']],
+  ['earnings_release_time', 'number', false, ['stock']],
+  ['earnings_release_trading_date_fq', 'timestamp', false, ['stock']],
+  ['earnings_release_trading_date_fy', 'timestamp', false, ['stock']],
+  ['earnings_yield', 'number', false, ['stock']],
+  ['ebit_per_share_current', 'number', false, ['stock']],
+  ['ebit_per_share_fh', 'number', false, ['stock']],
+  ['ebit_per_share_fq', 'number', false, ['stock']],
+  ['ebit_per_share_fy', 'number', false, ['stock']],
+  ['ebit_per_share_ttm', 'number', false, ['stock']],
+  ['ebit_ttm', 'number', false, ['stock']],
+  ['ebitda', 'number', false, ['stock']],
+  ['ebitda_fh', 'number', false, ['stock']],
+  ['ebitda_fq', 'number', false, ['stock']],
+  ['ebitda_fq_h', 'number', false, ['stock']],
+  ['ebitda_fy', 'number', false, ['stock']],
+  ['ebitda_fy_h', 'number', false, ['stock']],
+  ['ebitda_interst_cover_fy', 'number', false, ['stock']],
+  ['ebitda_interst_cover_ttm', 'number', false, ['stock']],
+  ['ebitda_less_capex_interst_cover_fy', 'number', false, ['stock']],
+  ['ebitda_less_capex_interst_cover_ttm', 'number', false, ['stock']],
+  ['ebitda_margin_fy', 'number', false, ['stock']],
+  ['ebitda_margin_ttm', 'number', false, ['stock']],
+  ['ebitda_per_employee_fy', 'number', false, ['stock']],
+  ['ebitda_per_share_current', 'number', false, ['stock']],
+  ['ebitda_per_share_fh', 'number', false, ['stock']],
+  ['ebitda_per_share_fq', 'number', false, ['stock']],
+  ['ebitda_per_share_fy', 'number', false, ['stock']],
+  ['ebitda_per_share_ttm', 'number', false, ['stock']],
+  ['ebitda_qoq_growth_fq', 'number', false, ['stock']],
+  ['ebitda_ttm', 'number', false, ['stock']],
+  ['ebitda_ttm_h', 'number', false, ['stock']],
+  ['ebitda_yoy_growth_fq', 'number', false, ['stock']],
+  ['ebitda_yoy_growth_fy', 'number', false, ['stock']],
+  ['ebitda_yoy_growth_ttm', 'number', false, ['stock']],
+  ['effective_interest_rate_on_debt_fy', 'number', false, ['stock']],
+  ['effective_interest_rate_on_debt_ttm', 'number', false, ['stock']],
+  ['enterprise_value_current', 'number', false, ['stock']],
+  ['enterprise_value_ebitda_current', 'number', false, ['stock']],
+  ['enterprise_value_ebitda_ttm', 'number', false, ['stock']],
+  ['enterprise_value_fq', 'number', false, ['stock']],
+  ['enterprise_value_to_ebit_ttm', 'number', false, ['stock']],
+  ['enterprise_value_to_free_cash_flow_ttm', 'number', false, ['stock']],
+  ['enterprise_value_to_gross_profit_ttm', 'number', false, ['stock']],
+  ['enterprise_value_to_revenue_ttm', 'number', false, ['stock']],
+  ['eps_diluted_growth_percent_fq', 'number', false, ['stock']],
+  ['eps_diluted_growth_percent_fy', 'number', false, ['stock']],
+  ['eps_surprise_fq', 'number', false, ['stock']],
+  ['eps_surprise_percent_fq', 'number', false, ['stock']],
+  ['etf_fund_currency', 'string', false, ['stock']],
+  ['etf_holdings_count', 'number', false, ['stock']],
+  ['ex_dividend_date_recent', 'timestamp', false, ['stock']],
+  ['ex_dividend_date_upcoming', 'timestamp', false, ['stock']],
+  ['exchange', 'string', false],
+  ['expected_annual_dividends', 'number', false, ['stock']],
+  ['expense_ratio', 'number', false, ['stock']],
+  ['expiration', 'timestamp', false],
+  ['first_bar_time', 'timestamp', false],
+  ['fiscal_period_current', 'string', false, ['stock']],
+  ['fiscal_period_end_current', 'timestamp', false, ['stock']],
+  ['fiscal_period_end_fh', 'timestamp', false, ['stock']],
+  ['fiscal_period_end_fh_h', 'number', false, ['stock']],
+  ['fiscal_period_end_fq', 'timestamp', false, ['stock']],
+  ['fiscal_period_end_fy', 'timestamp', false, ['stock']],
+  ['fiscal_period_fy', 'string', false, ['stock']],
+  ['fiscal_period_fy_h', 'number', false, ['stock']],
+  ['fixed_assets_turnover_fq', 'number', false, ['stock']],
+  ['fixed_assets_turnover_fy', 'number', false, ['stock']],
+  ['float_shares_outstanding', 'number', false, ['stock']],
+  ['float_shares_outstanding_current', 'number', false, ['stock']],
+  ['float_shares_percent_current', 'number', false, ['stock']],
+  ['focus', 'string', false, ['stock']],
+  ['forex_exotic_priority', 'number', false, ['forex']],
+  ['forex_minor_priority', 'number', false, ['forex']],
+  ['forex_priority', 'number', false, ['forex']],
+  ['fractional', 'string', false],
+  ['free_cash_flow', 'number', false, ['stock']],
+  ['free_cash_flow_cagr_5y', 'number', false, ['stock']],
+  ['free_cash_flow_fh', 'number', false, ['stock']],
+  ['free_cash_flow_fq', 'number', false, ['stock']],
+  ['free_cash_flow_fq_h', 'number', false, ['stock']],
+  ['free_cash_flow_fy', 'number', false, ['stock']],
+  ['free_cash_flow_fy_h', 'number', false, ['stock']],
+  ['free_cash_flow_margin_fy', 'number', false, ['stock']],
+  ['free_cash_flow_margin_ttm', 'number', false, ['stock']],
+  ['free_cash_flow_per_employee_fy', 'number', false, ['stock']],
+  ['free_cash_flow_per_share_current', 'number', false, ['stock']],
+  ['free_cash_flow_per_share_fh', 'number', false, ['stock']],
+  ['free_cash_flow_per_share_fq', 'number', false, ['stock']],
+  ['free_cash_flow_per_share_fy', 'number', false, ['stock']],
+  ['free_cash_flow_per_share_ttm', 'number', false, ['stock']],
+  ['free_cash_flow_qoq_growth_fq', 'number', false, ['stock']],
+  ['free_cash_flow_ttm', 'number', false, ['stock']],
+  ['free_cash_flow_ttm_h', 'number', false, ['stock']],
+  ['free_cash_flow_yoy_growth_fq', 'number', false, ['stock']],
+  ['free_cash_flow_yoy_growth_fy', 'number', false, ['stock']],
+  ['free_cash_flow_yoy_growth_ttm', 'number', false, ['stock']],
+  ['frequency_recent', 'string', false, ['stock']],
+  ['frequency_upcoming', 'string', false, ['stock']],
+  ['fully_diluted_value', 'number', false, ['crypto', 'coin']],
+  ['fund_flows.1M', 'number', false, ['stock', 'forex']],
+  ['fund_flows.1Y', 'number', false, ['stock', 'forex']],
+  ['fund_flows.3M', 'number', false, ['stock', 'forex']],
+  ['fund_flows.3Y', 'number', false, ['stock', 'forex']],
+  ['fund_flows.5Y', 'number', false, ['stock', 'forex']],
+  ['fund_flows.YTD', 'number', false, ['stock', 'forex']],
+  ['fundamental_currency_code', 'string', false, ['stock', 'crypto', 'forex', 'futures']],
+  ['galaxyscore', 'number', false, ['crypto', 'coin']],
+  ['gap', 'number', true],
+  ['gap_down', 'number', true],
+  ['gap_down_abs', 'number', true],
+  ['gap_up', 'number', true],
+  ['gap_up_abs', 'number', true],
+  ['github_commits', 'number', false, ['crypto', 'coin']],
+  ['goodwill', 'number', false, ['stock']],
+  ['goodwill_fq', 'number', false, ['stock']],
+  ['goodwill_fy', 'number', false, ['stock']],
+  ['gross_margin', 'number', false, ['stock']],
+  ['gross_margin_fy', 'number', false, ['stock']],
+  ['gross_margin_percent_ttm', 'number', false, ['stock']],
+  ['gross_margin_ttm', 'number', false, ['stock']],
+  ['gross_profit', 'number', false, ['stock']],
+  ['gross_profit_fh', 'number', false, ['stock']],
+  ['gross_profit_fq', 'number', false, ['stock']],
+  ['gross_profit_fq_h', 'number', false, ['stock']],
+  ['gross_profit_fy', 'number', false, ['stock']],
+  ['gross_profit_fy_h', 'number', false, ['stock']],
+  ['gross_profit_margin_fy', 'number', false, ['stock']],
+  ['gross_profit_qoq_growth_fq', 'number', false, ['stock']],
+  ['gross_profit_ttm', 'number', false, ['stock']],
+  ['gross_profit_ttm_h', 'number', false, ['stock']],
+  ['gross_profit_yoy_growth_fq', 'number', false, ['stock']],
+  ['gross_profit_yoy_growth_fy', 'number', false, ['stock']],
+  ['gross_profit_yoy_growth_ttm', 'number', false, ['stock']],
+  ['has_ipo_data', 'boolean', false, ['stock']],
+  ['has_ipo_details_visible', 'boolean', false, ['stock']],
+  ['high', 'number', true],
+  ['holdings_region', 'string', false, ['stock']],
+  ['holds_derivatives_flag', 'string', false, ['stock']],
+  ['in_the_money_addresses_percentage', 'number', false, ['crypto', 'coin']],
+  ['index_priority', 'number', false, ['stock', 'forex']],
+  ['index_provider', 'string', false, ['stock']],
+  ['indexes', 'string', false],
+  ['indicated_annual_dividend', 'number', false, ['stock']],
+  ['indicators_bars_count', 'number', true],
+  ['industry', 'string', false, ['stock']],
+  ['interactions', 'number', false, ['crypto', 'coin']],
+  ['interst_cover_fy', 'number', false, ['stock']],
+  ['interst_cover_ttm', 'number', false, ['stock']],
+  ['invent_turnover_current', 'number', false, ['stock']],
+  ['invent_turnover_fy', 'number', false, ['stock']],
+  ['inverse_flag', 'number', false, ['stock']],
+  ['ipo_announcement_date', 'timestamp', false, ['stock']],
+  ['ipo_blank_check_flag', 'boolean', false, ['stock']],
+  ['ipo_deal_amount_usd', 'number', false, ['stock']],
+  ['ipo_market_cap_usd', 'number', false, ['stock']],
+  ['ipo_offer_date', 'timestamp', false, ['stock']],
+  ['ipo_offer_price_usd', 'number', false, ['stock']],
+  ['ipo_offer_time', 'timestamp', false, ['stock']],
+  ['ipo_offered_shares', 'number', false, ['stock']],
+  ['ipo_offered_shares_primary', 'number', false, ['stock']],
+  ['ipo_offered_shares_secondary', 'number', false, ['stock']],
+  ['ipo_price_range_usd_max', 'number', false, ['stock']],
+  ['ipo_price_range_usd_min', 'number', false, ['stock']],
+  ['ipo_shares_outstanding', 'number', false, ['stock']],
+  ['is_blacklisted', 'boolean', false],
+  ['is_primary', 'boolean', false],
+  ['is_shariah_compliant', 'boolean', false],
+  ['is_symbol_primary_listing', 'boolean', false],
+  ['isin', 'string', false, ['stock']],
+  ['issuance_of_stock_net_ttm', 'number', false, ['stock']],
+  ['issuer', 'string', false, ['stock']],
+  ['k1_form', 'string', false, ['stock']],
+  ['kind', 'string', false],
+  ['kind-delay', 'number', false],
+  ['large_tx_count', 'number', false, ['crypto', 'coin']],
+  ['large_tx_volume_usd', 'number', false, ['crypto', 'coin']],
+  ['last_annual_eps', 'number', false, ['stock']],
+  ['last_annual_revenue', 'number', false, ['stock']],
+  ['last_bar_update_time', 'timestamp', false],
+  ['last_report_frequency', 'number', false, ['stock']],
+  ['launch_date', 'timestamp', false, ['stock']],
+  ['leverage', 'string', false, ['stock']],
+  ['leverage_ratio', 'string', false, ['stock']],
+  ['leveraged_flag', 'string', false, ['stock']],
+  ['logoid', 'string', false],
+  ['long_term_capital', 'number', false, ['stock']],
+  ['long_term_debt_fq', 'number', false, ['stock']],
+  ['long_term_debt_fy', 'number', false, ['stock']],
+  ['long_term_debt_to_assets_fq', 'number', false, ['stock']],
+  ['long_term_debt_to_assets_fy', 'number', false, ['stock']],
+  ['long_term_debt_to_equity_fq', 'number', false, ['stock']],
+  ['losses_addresses_percentage', 'number', false, ['crypto', 'coin']],
+  ['low', 'number', true],
+  ['low_after_high_all_change', 'number', false],
+  ['low_after_high_all_change_abs', 'number', false],
+  ['market', 'string', false],
+  ['market_cap', 'number', false, ['crypto', 'coin']],
+  ['market_cap_basic', 'number', false, ['stock']],
+  ['market_cap_calc', 'number', false, ['stock', 'crypto', 'coin']],
+  ['market_cap_diluted_calc', 'number', false, ['crypto', 'coin']],
+  ['market_cap_to_tvl', 'number', false, ['crypto', 'coin']],
+  ['maturity_date', 'timestamp', false],
+  ['max_supply', 'number', false, ['crypto', 'coin']],
+  ['minmov', 'number', false],
+  ['minmove2', 'number', false],
+  ['most_recent_quarter_date', 'timestamp', false, ['stock']],
+  ['name', 'string', false],
+  ['nav', 'number', false, ['stock']],
+  ['nav_discount_premium', 'number', false, ['stock', 'forex']],
+  ['nav_perf.1M', 'number', false, ['stock', 'forex']],
+  ['nav_perf.1Y', 'number', false, ['stock', 'forex']],
+  ['nav_perf.3M', 'number', false, ['stock', 'forex']],
+  ['nav_perf.3Y', 'number', false, ['stock', 'forex']],
+  ['nav_perf.5Y', 'number', false, ['stock', 'forex']],
+  ['nav_perf.YTD', 'number', false, ['stock', 'forex']],
+  ['nav_total_return.1M', 'number', false, ['stock', 'forex']],
+  ['nav_total_return.1Y', 'number', false, ['stock', 'forex']],
+  ['nav_total_return.3M', 'number', false, ['stock', 'forex']],
+  ['nav_total_return.3Y', 'number', false, ['stock', 'forex']],
+  ['nav_total_return.5Y', 'number', false, ['stock', 'forex']],
+  ['nav_total_return.6M', 'number', false, ['stock', 'forex']],
+  ['nav_total_return.YTD', 'number', false, ['stock', 'forex']],
+  ['ncavps_ratio_current', 'number', false, ['stock']],
+  ['ncavps_ratio_fh', 'number', false, ['stock']],
+  ['ncavps_ratio_fq', 'number', false, ['stock']],
+  ['ncavps_ratio_fy', 'number', false, ['stock']],
+  ['neg_capital_expenditures_fh', 'number', false, ['stock']],
+  ['neg_capital_expenditures_fq', 'number', false, ['stock']],
+  ['neg_capital_expenditures_fy', 'number', false, ['stock']],
+  ['neg_capital_expenditures_ttm', 'number', false, ['stock']],
+  ['neg_research_and_dev_fh', 'number', false, ['stock']],
+  ['neg_research_and_dev_fq', 'number', false, ['stock']],
+  ['neg_research_and_dev_fy', 'number', false, ['stock']],
+  ['neg_research_and_dev_ttm', 'number', false, ['stock']],
+  ['neg_total_cash_dividends_paid_fh', 'number', false, ['stock']],
+  ['neg_total_cash_dividends_paid_fq', 'number', false, ['stock']],
+  ['neg_total_cash_dividends_paid_fy', 'number', false, ['stock']],
+  ['neg_total_cash_dividends_paid_ttm', 'number', false, ['stock']],
+  ['net_debt', 'number', false, ['stock']],
+  ['net_debt_fq', 'number', false, ['stock']],
+  ['net_debt_fy', 'number', false, ['stock']],
+  ['net_debt_to_ebitda_fq', 'number', false, ['stock']],
+  ['net_debt_to_ebitda_fy', 'number', false, ['stock']],
+  ['net_income', 'number', false, ['stock']],
+  ['net_income_bef_disc_oper_fy', 'number', false, ['stock']],
+  ['net_income_bef_disc_oper_margin_fy', 'number', false, ['stock']],
+  ['net_income_cagr_5y', 'number', false, ['stock']],
+  ['net_income_fh', 'number', false, ['stock']],
+  ['net_income_fq', 'number', false, ['stock']],
+  ['net_income_fq_h', 'number', false, ['stock']],
+  ['net_income_fy', 'number', false, ['stock']],
+  ['net_income_fy_h', 'number', false, ['stock']],
+  ['net_income_per_employee_fy', 'number', false, ['stock']],
+  ['net_income_qoq_growth_fq', 'number', false, ['stock']],
+  ['net_income_ttm', 'number', false, ['stock']],
+  ['net_income_ttm_h', 'number', false, ['stock']],
+  ['net_income_yoy_growth_fq', 'number', false, ['stock']],
+  ['net_income_yoy_growth_fy', 'number', false, ['stock']],
+  ['net_income_yoy_growth_ttm', 'number', false, ['stock']],
+  ['net_margin', 'number', false, ['stock']],
+  ['net_margin_fy', 'number', false, ['stock']],
+  ['net_margin_ttm', 'number', false, ['stock']],
+  ['next_dividend_date', 'timestamp', false, ['stock']],
+  ['niche', 'string', false, ['stock']],
+  ['non_gaap_price_to_earnings_per_share_forecast_next_fy', 'number', false, ['stock']],
+  ['number_of_employees', 'number', false, ['stock']],
+  ['number_of_employees_fy', 'number', false, ['stock']],
+  ['number_of_shareholders', 'number', false, ['stock']],
+  ['number_of_shareholders_fy', 'number', false, ['stock']],
+  ['nvt', 'number', false, ['crypto', 'coin']],
+  ['open', 'number', true],
+  ['open_interest', 'number', false, ['futures']],
+  ['oper_income_fh', 'number', false, ['stock']],
+  ['oper_income_fq', 'number', false, ['stock']],
+  ['oper_income_fy', 'number', false, ['stock']],
+  ['oper_income_margin_fy', 'number', false, ['stock']],
+  ['oper_income_per_employee_fy', 'number', false, ['stock']],
+  ['oper_income_ttm', 'number', false, ['stock']],
+  ['operating_cash_flow_per_share_current', 'number', false, ['stock']],
+  ['operating_cash_flow_per_share_fh', 'number', false, ['stock']],
+  ['operating_cash_flow_per_share_fq', 'number', false, ['stock']],
+  ['operating_cash_flow_per_share_fy', 'number', false, ['stock']],
+  ['operating_cash_flow_per_share_ttm', 'number', false, ['stock']],
+  ['operating_margin', 'number', false, ['stock']],
+  ['operating_margin_fy', 'number', false, ['stock']],
+  ['operating_margin_ttm', 'number', false, ['stock']],
+  ['out_the_money_addresses_percentage', 'number', false, ['crypto', 'coin']],
+  ['payment_date_recent', 'timestamp', false, ['stock']],
+  ['payment_date_upcoming', 'timestamp', false, ['stock']],
+  ['piotroski_f_score_fy', 'number', false, ['stock']],
+  ['piotroski_f_score_ttm', 'number', false, ['stock']],
+  ['popularity_rank', 'number', false, ['forex', 'futures']],
+  ['post_change', 'number', true],
+  ['postmarket_change', 'number', false],
+  ['postmarket_change_abs', 'number', false],
+  ['postmarket_close', 'number', false, ['stock']],
+  ['postmarket_high', 'number', false, ['stock']],
+  ['postmarket_low', 'number', false, ['stock']],
+  ['postmarket_open', 'number', false, ['stock']],
+  ['postmarket_time', 'timestamp', false, ['stock']],
+  ['postmarket_volume', 'number', false, ['stock']],
+  ['postsactive', 'number', false, ['crypto', 'coin']],
+  ['postscreated', 'number', false, ['crypto', 'coin']],
+  ['pre_change', 'number', true],
+  ['pre_change_abs', 'number', true],
+  ['pre_tax_margin', 'number', false, ['stock']],
+  ['pre_tax_margin_ttm', 'number', false, ['stock']],
+  ['preferred_dividends', 'number', false, ['stock']],
+  ['premarket_change', 'number', false],
+  ['premarket_change_abs', 'number', false],
+  ['premarket_change_from_open', 'number', false],
+  ['premarket_change_from_open_abs', 'number', false],
+  ['premarket_close', 'number', false, ['stock']],
+  ['premarket_gap', 'number', false],
+  ['premarket_high', 'number', false, ['stock']],
+  ['premarket_low', 'number', false, ['stock']],
+  ['premarket_open', 'number', false, ['stock']],
+  ['premarket_time', 'timestamp', false, ['stock']],
+  ['premarket_volume', 'number', false, ['stock']],
+  ['price_52_week_high', 'number', false],
+  ['price_52_week_high_date', 'timestamp', false],
+  ['price_52_week_low', 'number', false],
+  ['price_52_week_low_date', 'timestamp', false],
+  ['price_annual_book', 'number', false, ['stock']],
+  ['price_annual_sales', 'number', false, ['stock']],
+  ['price_book_current', 'number', false, ['stock']],
+  ['price_book_fq', 'number', false, ['stock']],
+  ['price_book_ratio', 'number', false, ['stock']],
+  ['price_cash_flow_current', 'number', false, ['stock']],
+  ['price_earnings_current', 'number', false, ['stock']],
+  ['price_earnings_forward_fy', 'number', false, ['stock']],
+  ['price_earnings_growth_ttm', 'number', false, ['stock']],
+  ['price_earnings_ttm', 'number', false, ['stock']],
+  ['price_free_cash_flow_current', 'number', false, ['stock']],
+  ['price_free_cash_flow_ttm', 'number', false, ['stock']],
+  ['price_revenue_ttm', 'number', false, ['stock']],
+  ['price_sales', 'number', false, ['stock']],
+  ['price_sales_current', 'number', false, ['stock']],
+  ['price_sales_ratio', 'number', false, ['stock']],
+  ['price_target_1y', 'number', false, ['stock']],
+  ['price_target_1y_delta', 'number', false, ['stock']],
+  ['price_target_average', 'number', false, ['stock']],
+  ['price_target_high', 'number', false, ['stock']],
+  ['price_target_low', 'number', false, ['stock']],
+  ['price_target_median', 'number', false, ['stock']],
+  ['price_to_cash_f_operating_activities_ttm', 'number', false, ['stock']],
+  ['price_to_cash_ratio', 'number', false, ['stock']],
+  ['price_to_working_capital_fq', 'number', false, ['stock']],
+  ['pricescale', 'number', false],
+  ['product', 'number', false, ['futures']],
+  ['profit_addresses_percentage', 'number', false, ['crypto', 'coin']],
+  ['provider-id', 'string', false],
+  ['quick_ratio', 'number', false, ['stock']],
+  ['quick_ratio_current', 'number', false, ['stock']],
+  ['quick_ratio_fq', 'number', false, ['stock']],
+  ['quick_ratio_fy', 'number', false, ['stock']],
+  ['rates_cf', 'string', false],
+  ['rates_current', 'string', false],
+  ['rates_dividend_recent', 'string', false],
+  ['rates_dividend_upcoming', 'string', false],
+  ['rates_earnings_fq', 'string', false],
+  ['rates_earnings_next_fq', 'string', false],
+  ['rates_fh', 'string', false],
+  ['rates_fq', 'string', false],
+  ['rates_fy', 'string', false],
+  ['rates_mc', 'string', false],
+  ['rates_pt', 'string', false],
+  ['rates_time_series', 'string', false],
+  ['rates_ttm', 'string', false],
+  ['receivables_turnover_fq', 'number', false, ['stock']],
+  ['receivables_turnover_fy', 'number', false, ['stock']],
+  ['recommendation_buy', 'number', false, ['stock']],
+  ['recommendation_hold', 'number', false, ['stock']],
+  ['recommendation_mark', 'number', false, ['stock']],
+  ['recommendation_over', 'number', false, ['stock']],
+  ['recommendation_sell', 'number', false, ['stock']],
+  ['recommendation_total', 'number', false, ['stock']],
+  ['recommendation_under', 'number', false, ['stock']],
+  ['relative_volume', 'number', false, ['stock']],
+  ['relative_volume_10d_calc', 'number', false],
+  ['relative_volume_10d_calc_usd', 'number', true, ['crypto']],
+  ['relative_volume_intraday.5', 'number', false, ['stock', 'crypto']],
+  ['relative_volume_intraday_usd|5', 'number', false, ['crypto']],
+  ['relative_volume_intraday|5', 'number', false, ['stock', 'crypto', 'forex']],
+  ['research_and_dev_fh', 'number', false, ['stock']],
+  ['research_and_dev_fq', 'number', false, ['stock']],
+  ['research_and_dev_fy', 'number', false, ['stock']],
+  ['research_and_dev_per_employee_fy', 'number', false, ['stock']],
+  ['research_and_dev_ratio_fy', 'number', false, ['stock']],
+  ['research_and_dev_ratio_ttm', 'number', false, ['stock']],
+  ['research_and_dev_ttm', 'number', false, ['stock']],
+  ['return_of_invested_capital_percent_ttm', 'number', false, ['stock']],
+  ['return_on_assets', 'number', false, ['stock']],
+  ['return_on_assets_fq', 'number', false, ['stock']],
+  ['return_on_assets_fy', 'number', false, ['stock']],
+  ['return_on_capital_employed_fq', 'number', false, ['stock']],
+  ['return_on_capital_employed_fy', 'number', false, ['stock']],
+  ['return_on_common_equity_fy', 'number', false, ['stock']],
+  ['return_on_common_equity_ttm', 'number', false, ['stock']],
+  ['return_on_equity', 'number', false, ['stock']],
+  ['return_on_equity_adjust_to_book_fy', 'number', false, ['stock']],
+  ['return_on_equity_adjust_to_book_ttm', 'number', false, ['stock']],
+  ['return_on_equity_fq', 'number', false, ['stock']],
+  ['return_on_equity_fy', 'number', false, ['stock']],
+  ['return_on_invested_capital', 'number', false, ['stock']],
+  ['return_on_invested_capital_fq', 'number', false, ['stock']],
+  ['return_on_invested_capital_fy', 'number', false, ['stock']],
+  ['return_on_tang_assets_fq', 'number', false, ['stock']],
+  ['return_on_tang_assets_fy', 'number', false, ['stock']],
+  ['return_on_tang_equity_fq', 'number', false, ['stock']],
+  ['return_on_tang_equity_fy', 'number', false, ['stock']],
+  ['return_on_total_capital_fq', 'number', false, ['stock']],
+  ['return_on_total_capital_fy', 'number', false, ['stock']],
+  ['revenue_forecast_fq', 'number', false, ['stock']],
+  ['revenue_forecast_next_fh', 'number', false, ['stock']],
+  ['revenue_forecast_next_fq', 'number', false, ['stock']],
+  ['revenue_forecast_next_fy', 'number', false, ['stock']],
+  ['revenue_fq', 'number', false, ['stock']],
+  ['revenue_per_employee', 'number', false, ['stock']],
+  ['revenue_per_employee_fy', 'number', false, ['stock']],
+  ['revenue_per_share_current', 'number', false, ['stock']],
+  ['revenue_per_share_fh', 'number', false, ['stock']],
+  ['revenue_per_share_fq', 'number', false, ['stock']],
+  ['revenue_per_share_fy', 'number', false, ['stock']],
+  ['revenue_per_share_ttm', 'number', false, ['stock']],
+  ['revenue_surprise_fq', 'number', false, ['stock']],
+  ['revenue_surprise_percent_fq', 'number', false, ['stock']],
+  ['rtc', 'number', false, ['stock', 'crypto', 'coin', 'forex']],
+  ['sector', 'string', false],
+  ['selection_criteria', 'string', false, ['stock']],
+  ['sell_gen_admin_exp_other_fy', 'number', false, ['stock']],
+  ['sell_gen_admin_exp_other_ratio_fy', 'number', false, ['stock']],
+  ['sell_gen_admin_exp_other_ratio_ttm', 'number', false, ['stock']],
+  ['sell_gen_admin_exp_other_ttm', 'number', false, ['stock']],
+  ['sentiment', 'timestamp', false, ['crypto', 'coin']],
+  ['share_buyback_ratio_fq', 'number', false, ['stock']],
+  ['share_buyback_ratio_fy', 'number', false, ['stock']],
+  ['shares_outstanding', 'number', false, ['stock']],
+  ['short_term_debt_fq', 'number', false, ['stock']],
+  ['short_term_debt_fy', 'number', false, ['stock']],
+  ['shrhldrs_equity_fq', 'number', false, ['stock']],
+  ['shrhldrs_equity_fy', 'number', false, ['stock']],
+  ['shrhldrs_equity_to_total_assets_fq', 'number', false, ['stock']],
+  ['shrhldrs_equity_to_total_assets_fy', 'number', false, ['stock']],
+  ['sloan_ratio_fy', 'number', false, ['stock']],
+  ['sloan_ratio_ttm', 'number', false, ['stock']],
+  ['social_volume_24h', 'number', false, ['crypto', 'coin']],
+  ['socialdominance', 'number', false, ['crypto', 'coin']],
+  ['source-logoid', 'string', false],
+  ['strategy', 'string', false, ['stock']],
+  ['submarket', 'number', false],
+  ['subtype', 'string', false],
+  ['sum_for_enterprise_value', 'number', false, ['stock']],
+  ['sustainable_growth_rate_fy', 'number', false, ['stock']],
+  ['sustainable_growth_rate_ttm', 'number', false, ['stock']],
+  ['symbol', 'number', false, ['crypto', 'coin', 'forex', 'futures']],
+  ['telegram_members', 'number', false, ['crypto', 'coin']],
+  ['telegram_negative', 'number', false, ['crypto', 'coin']],
+  ['telegram_positive', 'number', false, ['crypto', 'coin']],
+  ['time', 'timestamp', false],
+  ['time_business_day', 'timestamp', false],
+  ['top_revenue_country_code', 'string', false, ['stock']],
+  ['total_addresses_with_balance', 'number', false, ['crypto', 'coin']],
+  ['total_assets', 'number', false, ['stock']],
+  ['total_assets_fq', 'number', false, ['stock']],
+  ['total_assets_fq_h', 'number', false, ['stock']],
+  ['total_assets_fy', 'number', false, ['stock']],
+  ['total_assets_fy_h', 'number', false, ['stock']],
+  ['total_assets_per_employee_fy', 'number', false, ['stock']],
+  ['total_assets_qoq_growth_fq', 'number', false, ['stock']],
+  ['total_assets_to_equity_fq', 'number', false, ['stock']],
+  ['total_assets_to_equity_fy', 'number', false, ['stock']],
+  ['total_assets_yoy_growth_fq', 'number', false, ['stock']],
+  ['total_assets_yoy_growth_fy', 'number', false, ['stock']],
+  ['total_capital', 'number', false, ['stock']],
+  ['total_cash_dividends_paid_fh', 'number', false, ['stock']],
+  ['total_cash_dividends_paid_fq', 'number', false, ['stock']],
+  ['total_cash_dividends_paid_fy', 'number', false, ['stock']],
+  ['total_cash_dividends_paid_ttm', 'number', false, ['stock']],
+  ['total_current_assets', 'number', false, ['stock']],
+  ['total_current_assets_fq', 'number', false, ['stock']],
+  ['total_current_assets_fy', 'number', false, ['stock']],
+  ['total_current_liabilities_fq', 'number', false, ['stock']],
+  ['total_current_liabilities_fy', 'number', false, ['stock']],
+  ['total_debt', 'number', false, ['stock']],
+  ['total_debt_fq', 'number', false, ['stock']],
+  ['total_debt_fq_h', 'number', false, ['stock']],
+  ['total_debt_fy', 'number', false, ['stock']],
+  ['total_debt_fy_h', 'number', false, ['stock']],
+  ['total_debt_per_employee_fy', 'number', false, ['stock']],
+  ['total_debt_per_share_current', 'number', false, ['stock']],
+  ['total_debt_per_share_fh', 'number', false, ['stock']],
+  ['total_debt_per_share_fq', 'number', false, ['stock']],
+  ['total_debt_per_share_fy', 'number', false, ['stock']],
+  ['total_debt_qoq_growth_fq', 'number', false, ['stock']],
+  ['total_debt_to_capital_fq', 'number', false, ['stock']],
+  ['total_debt_to_capital_fy', 'number', false, ['stock']],
+  ['total_debt_to_ebitda_fq', 'number', false, ['stock']],
+  ['total_debt_to_ebitda_fy', 'number', false, ['stock']],
+  ['total_debt_yoy_growth_fq', 'number', false, ['stock']],
+  ['total_debt_yoy_growth_fy', 'number', false, ['stock']],
+  ['total_equity_fq', 'number', false, ['stock']],
+  ['total_equity_fy', 'number', false, ['stock']],
+  ['total_liabilities_fq', 'number', false, ['stock']],
+  ['total_liabilities_fy', 'number', false, ['stock']],
+  ['total_revenue', 'number', false, ['stock']],
+  ['total_revenue_5y_growth_fy', 'number', false, ['stock']],
+  ['total_revenue_cagr_5y', 'number', false, ['stock']],
+  ['total_revenue_fh', 'number', false, ['stock']],
+  ['total_revenue_fq', 'number', false, ['stock']],
+  ['total_revenue_fq_h', 'number', false, ['stock']],
+  ['total_revenue_fy', 'number', false, ['stock']],
+  ['total_revenue_fy_h', 'number', false, ['stock']],
+  ['total_revenue_qoq_growth_fq', 'number', false, ['stock']],
+  ['total_revenue_ttm', 'number', false, ['stock']],
+  ['total_revenue_ttm_h', 'number', false, ['stock']],
+  ['total_revenue_yoy_growth_fq', 'number', false, ['stock']],
+  ['total_revenue_yoy_growth_fy', 'number', false, ['stock']],
+  ['total_revenue_yoy_growth_ttm', 'number', false, ['stock']],
+  ['total_shares_diluted', 'number', false, ['crypto', 'coin']],
+  ['total_shares_outstanding', 'number', false, ['stock', 'crypto', 'coin']],
+  ['total_shares_outstanding_calculated', 'number', false, ['stock']],
+  ['total_shares_outstanding_current', 'number', false, ['stock']],
+  ['total_shares_outstanding_fundamental', 'number', false, ['stock']],
+  ['total_supply', 'number', false, ['crypto', 'coin']],
+  ['total_to_max_supply_ratio', 'number', false, ['crypto', 'coin']],
+  ['total_value_traded', 'number', false, ['crypto', 'coin']],
+  ['transparent_holding_flag', 'string', false, ['stock']],
+  ['tvl', 'number', false, ['crypto', 'coin']],
+  ['tweets', 'number', false, ['crypto', 'coin']],
+  ['twitter_negative', 'number', false, ['crypto', 'coin']],
+  ['twitter_positive', 'number', false, ['crypto', 'coin']],
+  ['txs_count', 'number', false, ['crypto', 'coin']],
+  ['txs_volume', 'number', false, ['crypto', 'coin']],
+  ['txs_volume_usd', 'number', false, ['crypto', 'coin']],
+  ['type', 'string', false],
+  ['typespecs', 'array', false],
+  ['ucits_compliant_flag', 'string', false, ['stock']],
+  ['update-time', 'timestamp', false],
+  ['update_mode', 'string', false],
+  ['update_time', 'timestamp', false],
+  ['velocity', 'number', false, ['crypto', 'coin']],
+  ['volume', 'number', true],
+  ['volume-type', 'number', false, ['crypto', 'coin']],
+  ['volume_base', 'number', true, ['crypto']],
+  ['volume_base|5', 'number', false, ['coin']],
+  ['volume_change', 'number', true],
+  ['volume_change_abs', 'number', true],
+  ['volume_quote', 'number', true, ['crypto']],
+  ['volume_quote|5', 'number', false, ['coin']],
+  ['weight_top_10', 'number', false, ['stock']],
+  ['weight_top_25', 'number', false, ['stock']],
+  ['weight_top_50', 'number', false, ['stock']],
+  ['weighting_scheme', 'string', false, ['stock']],
+  ['working_capital_fq', 'number', false, ['stock']],
+  ['working_capital_per_share_current', 'number', false, ['stock']],
+  ['working_capital_per_share_fh', 'number', false, ['stock']],
+  ['working_capital_per_share_fq', 'number', false, ['stock']],
+  ['working_capital_per_share_fy', 'number', false, ['stock']],
+  ['yield_recent', 'number', false, ['stock']],
+  ['yield_upcoming', 'number', false, ['stock']],
+  ['zmijewski_score_fy', 'number', false, ['stock']],
+  ['zmijewski_score_ttm', 'number', false, ['stock']],
+] as const satisfies readonly FieldRow[];
+
+/**
+ * Fields whose values are percentages
+ */
+export const CATALOG_PERCENT_FIELDS: readonly string[] = [
+  '24h_close_change_abs|5',
+  '24h_close_change|5',
+  '24h_vol_change_abs|5',
+  '24h_vol_change_cmc',
+  '24h_vol_change|5',
+  'ATRP',
+  'Perf.1M',
+  'Perf.1M.MarketCap',
+  'Perf.1W.MarketCap',
+  'Perf.3M',
+  'Perf.3M.MarketCap',
+  'Perf.5Y',
+  'Perf.6M',
+  'Perf.6M.MarketCap',
+  'Perf.All',
+  'Perf.W',
+  'Perf.Y',
+  'Perf.Y.MarketCap',
+  'Perf.YTD',
+  'Perf.YTD.MarketCap',
+  'Volatility.D',
+  'Volatility.M',
+  'Volatility.W',
+  'active_addresses_ratio',
+  'after_tax_margin',
+  'at_the_money_addresses_percentage',
+  'bid_ask_spread_pct',
+  'break_even_addresses_percentage',
+  'buyback_yield',
+  'capital_expenditures_qoq_growth_fq',
+  'capital_expenditures_yoy_growth_fq',
+  'capital_expenditures_yoy_growth_fy',
+  'capital_expenditures_yoy_growth_ttm',
+  'change',
+  'change.1',
+  'change.15',
+  'change.1M',
+  'change.1W',
+  'change.240',
+  'change.5',
+  'change.60',
+  'change_from_open',
+  'circulating_to_max_supply_ratio',
+  'debt_to_asset_fq',
+  'debt_to_asset_fy',
+  'dividend_payout_ratio_fy',
+  'dividend_payout_ratio_percent_fq',
+  'dividend_payout_ratio_percent_fy',
+  'dividend_payout_ratio_ttm',
+  'dividend_yield_recent',
+  'dividends_yield',
+  'dividends_yield_current',
+  'dividends_yield_fq',
+  'dividends_yield_fy',
+  'dps_common_stock_prim_issue_yoy_growth_fy',
+  'earnings_per_share_basic_cagr_5y',
+  'earnings_per_share_diluted_5y_growth_fy',
+  'earnings_per_share_diluted_qoq_growth_fq',
+  'earnings_per_share_diluted_yoy_growth_fq',
+  'earnings_per_share_diluted_yoy_growth_fy',
+  'earnings_per_share_diluted_yoy_growth_ttm',
+  'earnings_yield',
+  'ebitda_margin_fy',
+  'ebitda_margin_ttm',
+  'ebitda_qoq_growth_fq',
+  'ebitda_yoy_growth_fq',
+  'ebitda_yoy_growth_fy',
+  'ebitda_yoy_growth_ttm',
+  'effective_interest_rate_on_debt_fy',
+  'effective_interest_rate_on_debt_ttm',
+  'eps_diluted_growth_percent_fq',
+  'eps_diluted_growth_percent_fy',
+  'eps_surprise_percent_fq',
+  'float_shares_percent_current',
+  'free_cash_flow_cagr_5y',
+  'free_cash_flow_margin_fy',
+  'free_cash_flow_margin_ttm',
+  'free_cash_flow_qoq_growth_fq',
+  'free_cash_flow_yoy_growth_fq',
+  'free_cash_flow_yoy_growth_fy',
+  'free_cash_flow_yoy_growth_ttm',
+  'gap',
+  'gap_down',
+  'gap_up',
+  'gross_margin',
+  'gross_margin_fy',
+  'gross_margin_percent_ttm',
+  'gross_margin_ttm',
+  'gross_profit_margin_fy',
+  'gross_profit_qoq_growth_fq',
+  'gross_profit_yoy_growth_fq',
+  'gross_profit_yoy_growth_fy',
+  'gross_profit_yoy_growth_ttm',
+  'in_the_money_addresses_percentage',
+  'losses_addresses_percentage',
+  'low_after_high_all_change',
+  'net_income_bef_disc_oper_margin_fy',
+  'net_income_cagr_5y',
+  'net_income_qoq_growth_fq',
+  'net_income_yoy_growth_fq',
+  'net_income_yoy_growth_fy',
+  'net_income_yoy_growth_ttm',
+  'net_margin',
+  'net_margin_fy',
+  'net_margin_ttm',
+  'oper_income_margin_fy',
+  'operating_margin',
+  'operating_margin_fy',
+  'operating_margin_ttm',
+  'out_the_money_addresses_percentage',
+  'post_change',
+  'postmarket_change',
+  'pre_change',
+  'pre_tax_margin',
+  'pre_tax_margin_ttm',
+  'premarket_change',
+  'premarket_change_from_open',
+  'premarket_gap',
+  'price_target_1y_delta',
+  'profit_addresses_percentage',
+  'research_and_dev_ratio_fy',
+  'research_and_dev_ratio_ttm',
+  'return_of_invested_capital_percent_ttm',
+  'return_on_assets',
+  'return_on_assets_fq',
+  'return_on_assets_fy',
+  'return_on_capital_employed_fq',
+  'return_on_capital_employed_fy',
+  'return_on_common_equity_fy',
+  'return_on_common_equity_ttm',
+  'return_on_equity',
+  'return_on_equity_adjust_to_book_fy',
+  'return_on_equity_adjust_to_book_ttm',
+  'return_on_equity_fq',
+  'return_on_equity_fy',
+  'return_on_invested_capital',
+  'return_on_invested_capital_fq',
+  'return_on_invested_capital_fy',
+  'return_on_tang_assets_fq',
+  'return_on_tang_assets_fy',
+  'return_on_tang_equity_fq',
+  'return_on_tang_equity_fy',
+  'return_on_total_capital_fq',
+  'return_on_total_capital_fy',
+  'revenue_surprise_percent_fq',
+  'sell_gen_admin_exp_other_ratio_fy',
+  'sell_gen_admin_exp_other_ratio_ttm',
+  'share_buyback_ratio_fq',
+  'share_buyback_ratio_fy',
+  'shrhldrs_equity_to_total_assets_fq',
+  'shrhldrs_equity_to_total_assets_fy',
+  'sloan_ratio_fy',
+  'sloan_ratio_ttm',
+  'sustainable_growth_rate_fy',
+  'sustainable_growth_rate_ttm',
+  'total_assets_qoq_growth_fq',
+  'total_assets_yoy_growth_fq',
+  'total_assets_yoy_growth_fy',
+  'total_debt_qoq_growth_fq',
+  'total_debt_to_capital_fq',
+  'total_debt_to_capital_fy',
+  'total_debt_yoy_growth_fq',
+  'total_debt_yoy_growth_fy',
+  'total_revenue_5y_growth_fy',
+  'total_revenue_cagr_5y',
+  'total_revenue_qoq_growth_fq',
+  'total_revenue_yoy_growth_fq',
+  'total_revenue_yoy_growth_fy',
+  'total_revenue_yoy_growth_ttm',
+  'total_to_max_supply_ratio',
+  'volume_change',
+  'weight_top_10',
+  'weight_top_25',
+  'weight_top_50',
+];
@@ -0,0 +1,133 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { CliUsageError, main, parseArgs } from './cli';
+
+/**
+ * Run the CLI with captured output and an empty environment
+ */
+async function run(...argv: string[]) {
+  let stdout = '';
+  let stderr = '';
+  const code = await main(argv, {
+    stdout: { write: (chunk: string) => (stdout += chunk) },
+    stderr: { write: (chunk: string) => (stderr += chunk) },
+    env: {},
+  });
+  return { code, stdout, stderr };
+}
+
+/**
+ * Answer every scanner request with the given status and body
+ */
+function mockFetch(status: number, body: unknown) {
+  return mock.method(
+    globalThis,
+    'fetch',
+    async () => new Response(JSON.stringify(body), { status })
+  );
+}
+
+describe('parseArgs', () => {
+  it('parses flags, aliases and inline values', () => {
+    const options = parseArgs([
+      'scan.yaml',
+      '-m',
+      'america,uk',
+      '--market=crypto',
+      '-c',
+      'name, close',
+      '-w',
+      'close > 5',
+      '--limit=10',
+      '-p',
+      'min_volume=1e6',
+      '-p',
+      'sector=Finance',
+      '-f',
+      'csv',
+      '--dry-run',
+    ]);
+
+    assert.equal(options.scanFile, 'scan.yaml');
+    assert.deepEqual(options.markets, ['america', 'uk', 'crypto']);
+    assert.deepEqual(options.columns, ['name', 'close']);
+    assert.deepEqual(options.where, ['close > 5']);
+    assert.equal(options.limit, 10);
+    assert.deepEqual(options.params, { min_volume: 1e6, sector: 'Finance' });
+    assert.equal(options.format, 'csv');
+    assert.equal(options.dryRun, true);
+  });
+
+  it('rejects invalid usage', () => {
+    for (const argv of [
+      ['--verbose'],
+      ['-x'],
+      ['--limit'],
+      ['--limit', '-1'],
+      ['--format', 'xml'],
+      ['--param', 'value'],
+      ['a.yaml', 'b.yaml'],
+    ]) {
+      assert.throws(() => parseArgs(argv), CliUsageError, argv.join(' '));
+    }
+  });
+});
+
+describe('main', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('prints the payload without sending it on --dry-run', async () => {
+    const fetch = mockFetch(200, { totalCount: 0, data: [] });
+
+    const { code, stdout } = await run(
+      '-c',
+      'name,close',
+      '-w',
+      'close > 5',
+      '--dry-run'
+    );
+
+    assert.equal(code, 0);
+    assert.equal(fetch.mock.callCount(), 0);
+    const payload = JSON.parse(stdout);
+    assert.deepEqual(payload.columns, ['name', 'close']);
+    assert.deepEqual(payload.filter, [
+      { left: 'close', operation: 'greater', right: 5 },
+    ]);
+  });
+
+  it('writes results and exits with 0', async () => {
+    mockFetch(200, { totalCount: 1, data: [{ s: 'NASDAQ:AAPL', d: [190] }] });
+
+    const { code, stdout } = await run('-c', 'close', '-f', 'csv');
+
+    assert.equal(code, 0);
+    assert.equal(stdout, 'symbol,close\r\nNASDAQ:AAPL,190\r\n');
+  });
+
+  it('exits with 2 on usage and filter errors', async () => {
+    const usage = await run('--format', 'xml');
+    const filter = await run('-w', 'close >', '--dry-run');
+
+    assert.equal(usage.code, 2);
+    assert.match(usage.stderr, /Unknown format "xml"/);
+    assert.match(usage.stderr, /--help/);
+    assert.equal(filter.code, 2);
+  });
+
+  it('exits with 1 on API errors', async () => {
+    mockFetch(400, { error: 'Unknown field "clos"' });
+
+    const { code, stderr } = await run('-c', 'clos');
+
+    assert.equal(code, 1);
+    assert.match(stderr, /^tv-screener: /);
+  });
+
+  it('prints usage on --help', async () => {
+    const { code, stdout } = await run('--help');
+
+    assert.equal(code, 0);
+    assert.match(stdout, /^Usage: tv-screener/);
+  });
+});
@@ -0,0 +1,411 @@
+#!/usr/bin/env node
+/**
+ * Command-line interface for running and exporting scans
+ *
+ *   tv-screener [scan-file] [options]
+ *
+ * Runs a scan file, or an ad-hoc query built from flags, and prints the
+ * results as a table or writes them as CSV, JSON or NDJSON.
+ */
+
+import { promises as fs } from 'fs';
+import * as dotenv from 'dotenv';
+import { Query } from './query';
+import { loadScanFile, ScanDefinitionError } from './scanfile';
+import { TradingViewApiError } from './errors';
+import { QueryParseError } from './parse';
+import { FilterSyntaxError } from './expression';
+import { ScannerData } from './models';
+import { ScreenerClient } from './client';
+import { SessionManager } from './session';
+import { isInterval } from './interval';
+import {
+  ColumnFormat,
+  formatValue,
+  toCsv,
+  toNdjson,
+  toTable,
+} from './export';
+
+const USAGE = `Usage: tv-screener [scan-file] [options]
+
+Run a scan file (YAML/JSON) or an ad-hoc query and print or export the results.
+
+Options:
+  -m, --market <name>       Market to scan (repeatable or comma-separated)
+  -c, --columns <list>      Comma-separated columns to select
+  -w, --where <filter>      Filter expression such as "volume > 1e6 and
+                            close between 5 and 50" (repeatable)
+  -s, --sort <field[:dir]>  Sort field, optionally ":asc" or ":desc"
+  -l, --limit <n>           Maximum number of rows
+      --offset <n>          Number of rows to skip
+  -i, --interval <tf>       Timeframe for all fields (1m, 5m, 15m, 1h, 1d, ...)
+  -p, --param <key=value>   Scan file parameter (repeatable)
+  -f, --format <format>     table, csv, json or ndjson (default: table)
+  -o, --output <file>       Write results to a file instead of stdout
+      --session <id>        TradingView session id (default: $TVSESSIONID)
+      --cookies <file>      Cookie file: JSON, Netscape cookie jar or header
+      --dry-run             Print the query payload without sending it
+  -h, --help                Show this help
+`;
+
+/**
+ * Output formats supported by the CLI
+ */
+export type CliFormat = 'table' | 'csv' | 'json' | 'ndjson';
+
+/**
+ * Parsed command-line options
+ */
+export interface CliOptions {
+  scanFile?: string;
+  markets: string[];
+  columns: string[];
+  where: string[];
+  sort?: string;
+  limit?: number;
+  offset?: number;
+  interval?: string;
+  params: Record<string, unknown>;
+  format: CliFormat;
+  output?: string;
+  session?: string;
+  cookies?: string;
+  dryRun: boolean;
+  help: boolean;
+}
+
+/**
+ * Streams the CLI writes to; replaceable for embedding and tests
+ */
+export interface CliIO {
+  stdout: { write(chunk: string): unknown };
+  stderr: { write(chunk: string): unknown };
+  env: Record<string, string | undefined>;
+}
+
+/**
+ * Thrown for invalid command-line usage
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+const FLAG_ALIASES: Record<string, string> = {
+  m: 'market',
+  c: 'columns',
+  w: 'where',
+  s: 'sort',
+  l: 'limit',
+  i: 'interval',
+  p: 'param',
+  f: 'format',
+  o: 'output',
+  h: 'help',
+};
+
+const BOOLEAN_FLAGS = new Set(['dry-run', 'help']);
+const VALUE_FLAGS = new Set([
+  ...Object.values(FLAG_ALIASES).filter((flag) => !BOOLEAN_FLAGS.has(flag)),
+  'offset',
+  'session',
+  'cookies',
+]);
+
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item !== '');
+}
+
+function parseInteger(flag: string, value: string): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) {
+    throw new CliUsageError(`--${flag} expects a non-negative integer`);
+  }
+  return n;
+}
+
+/**
+ * Parse a parameter value: JSON literals (numbers, booleans, arrays)
+ * where possible, otherwise the raw string
+ */
+function parseParamValue(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Parse command-line arguments
+ * @param argv - Arguments without the node executable and script path
+ */
+export function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    markets: [],
+    columns: [],
+    where: [],
+    params: {},
+    format: 'table',
+    dryRun: false,
+    help: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (!arg.startsWith('-') || arg === '-') {
+      if (options.scanFile) {
+        throw new CliUsageError(`Unexpected argument "${arg}"`);
+      }
+      options.scanFile = arg;
+      continue;
+    }
+
+    let flag: string;
+    let inline: string | undefined;
+    if (arg.startsWith('--')) {
+      const eq = arg.indexOf('=');
+      flag = eq === -1 ? arg.slice(2) : arg.slice(2, eq);
+      inline = eq === -1 ? undefined : arg.slice(eq + 1);
+    } else {
+      flag = FLAG_ALIASES[arg.slice(1)];
+      if (!flag) {
+        throw new CliUsageError(`Unknown option "${arg}"`);
+      }
+    }
+
+    if (!BOOLEAN_FLAGS.has(flag) && !VALUE_FLAGS.has(flag)) {
+      throw new CliUsageError(`Unknown option "--${flag}"`);
+    }
+    if (BOOLEAN_FLAGS.has(flag)) {
+      if (flag === 'help') options.help = true;
+      if (flag === 'dry-run') options.dryRun = true;
+      continue;
+    }
+
+    const value = inline ?? argv[++i];
+    if (value === undefined) {
+      throw new CliUsageError(`Option "--${flag}" requires a value`);
+    }
+
+    switch (flag) {
+      case 'market':
+        options.markets.push(...splitList(value));
+        break;
+      case 'columns':
+        options.columns.push(...splitList(value));
+        break;
+      case 'where':
+        options.where.push(value);
+        break;
+      case 'sort':
+        options.sort = value;
+        break;
+      case 'limit':
+        options.limit = parseInteger(flag, value);
+        break;
+      case 'offset':
+        options.offset = parseInteger(flag, value);
+        break;
+      case 'interval':
+        options.interval = value;
+        break;
+      case 'param': {
+        const eq = value.indexOf('=');
+        if (eq <= 0) {
+          throw new CliUsageError('--param expects key=value');
+        }
+        options.params[value.slice(0, eq)] = parseParamValue(
+          value.slice(eq + 1)
+        );
+        break;
+      }
+      case 'format':
+        if (!['table', 'csv', 'json', 'ndjson'].includes(value)) {
+          throw new CliUsageError(
+            `Unknown format "${value}", expected table, csv, json or ndjson`
+          );
+        }
+        options.format = value as CliFormat;
+        break;
+      case 'output':
+        options.output = value;
+        break;
+      case 'session':
+        options.session = value;
+        break;
+      case 'cookies':
+        options.cookies = value;
+        break;
+      default:
+        throw new CliUsageError(`Unknown option "--${flag}"`);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Build the query described by the options
+ */
+async function buildQuery(options: CliOptions): Promise<Query> {
+  const query = options.scanFile
+    ? (await loadScanFile(options.scanFile, { params: options.params })).query
+    : new Query();
+
+  if (options.markets.length > 0) query.setMarkets(...options.markets);
+  if (options.columns.length > 0) query.select(...options.columns);
+  for (const expression of options.where) {
+    query.whereExpr(expression);
+  }
+  if (options.sort) {
+    const [field, direction = 'asc'] = options.sort.split(':');
+    if (direction !== 'asc' && direction !== 'desc') {
+      throw new CliUsageError('--sort direction must be "asc" or "desc"');
+    }
+    query.orderBy(field, direction === 'asc');
+  }
+  if (options.offset !== undefined) query.offset(options.offset);
+  if (options.limit !== undefined) query.limit(options.limit);
+  if (options.interval) {
+    if (!isInterval(options.interval)) {
+      throw new CliUsageError(`Invalid interval "${options.interval}"`);
+    }
+    query.setInterval(options.interval);
+  }
+  return query;
+}
+
+/**
+ * Table cells show non-integer numbers with two decimals
+ */
+function roundedFormats(columns: string[]): Record<string, ColumnFormat> {
+  const formats: Record<string, ColumnFormat> = {};
+  for (const column of columns) {
+    formats[column] = (value, row) =>
+      typeof value === 'number' && !Number.isInteger(value)
+        ? value.toFixed(2)
+        : formatValue(value, column, row);
+  }
+  return formats;
+}
+
+/**
+ * Render scanner data in the requested format
+ */
+export async function renderResults(
+  data: ScannerData,
+  columns: string[],
+  format: CliFormat
+): Promise<string> {
+  const keys = ['symbol', ...columns];
+
+  switch (format) {
+    case 'json':
+      return JSON.stringify(data, null, 2) + '\n';
+    case 'ndjson':
+      return toNdjson(data);
+    case 'csv':
+      return toCsv(data, { columns: keys });
+    case 'table':
+      return (
+        (await toTable(data, {
+          columns: keys,
+          formats: roundedFormats(columns),
+        })) + `\n${data.data.length} of ${data.totalCount} rows\n`
+      );
+  }
+}
+
+/**
+ * Run the CLI
+ * @param argv - Arguments without the node executable and script path
+ * @param io - Output streams and environment
+ * @returns Process exit code: 0 on success, 1 on API errors, 2 on usage errors
+ */
+export async function main(
+  argv: string[],
+  io: CliIO = {
+    stdout: process.stdout,
+    stderr: process.stderr,
+    env: process.env,
+  }
+): Promise<number> {
+  try {
+    const options = parseArgs(argv);
+    if (options.help) {
+      io.stdout.write(USAGE);
+      return 0;
+    }
+
+    const query = await buildQuery(options);
+    if (options.dryRun) {
+      io.stdout.write(query.toJSON() + '\n');
+      return 0;
+    }
+
+    const session = options.cookies
+      ? await SessionManager.fromFile(options.cookies)
+      : options.session
+        ? new SessionManager({ sessionid: options.session })
+        : SessionManager.fromEnv(io.env);
+    if (session.isAuthenticated) {
+      session.on('degraded', () => {
+        io.stderr.write(
+          'tv-screener: warning: the session returned delayed data; ' +
+            'it may have expired\n'
+        );
+      });
+      query.setClient(new ScreenerClient({ session }));
+    }
+    // Keep the suffixed names so the columns below match the row keys
+    const data = await query.getScannerData(undefined, {
+      intervalNaming: 'suffixed',
+    });
+    const output = await renderResults(
+      data,
+      query.getQueryDict().columns || [],
+      options.format
+    );
+
+    if (options.output) {
+      await fs.writeFile(options.output, output, 'utf8');
+    } else {
+      io.stdout.write(output);
+    }
+    return 0;
+  } catch (error) {
+    if (
+      error instanceof CliUsageError ||
+      error instanceof ScanDefinitionError ||
+      error instanceof QueryParseError ||
+      error instanceof FilterSyntaxError
+    ) {
+      io.stderr.write(`tv-screener: ${error.message}\n`);
+      if (error instanceof CliUsageError) {
+        io.stderr.write(`Run "tv-screener --help" for usage.\n`);
+      }
+      return 2;
+    }
+    if (error instanceof TradingViewApiError) {
+      io.stderr.write(`tv-screener: ${error.message}\n`);
+      return 1;
+    }
+    io.stderr.write(`tv-screener: ${(error as Error)?.message ?? error}\n`);
+    return 1;
+  }
+}
+
+if (require.main === module) {
+  dotenv.config({ quiet: true });
+  main(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,206 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ScreenerClient,
+  FetchLike,
+  FetchRequestInit,
+  FetchResponseLike,
+} from './client';
+import {
+  AuthError,
+  BadRequestError,
+  InvalidResponseError,
+  NetworkError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+} from './errors';
+import { Query } from './query';
+
+function jsonResponse(
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): FetchResponseLike {
+  const text = typeof body === 'string' ? body : JSON.stringify(body);
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: `Status ${status}`,
+    headers: { get: (name) => headers[name.toLowerCase()] ?? null },
+    text: async () => text,
+  };
+}
+
+/**
+ * Fetch that answers from a list of responses, recording every request
+ */
+function scriptedFetch(
+  responses: Array<FetchResponseLike | Error>
+): FetchLike & { calls: FetchRequestInit[]; urls: string[] } {
+  const calls: FetchRequestInit[] = [];
+  const urls: string[] = [];
+  const fetch = async (url: string, init: FetchRequestInit) => {
+    calls.push(init);
+    urls.push(url);
+    const next = responses[Math.min(calls.length, responses.length) - 1];
+    if (next instanceof Error) throw next;
+    return next;
+  };
+  return Object.assign(fetch, { calls, urls });
+}
+
+const EMPTY = { totalCount: 0, data: [] };
+const FAST_RETRY = { retries: 2, minDelayMs: 1, maxDelayMs: 5 };
+
+describe('ScreenerClient', () => {
+  it('posts the query with headers and cookies', async () => {
+    const fetch = scriptedFetch([jsonResponse(200, EMPTY)]);
+    const client = new ScreenerClient({ fetch, headers: { 'X-Test': '1' } });
+
+    await client.scan('america', { columns: ['close'] }, { sessionid: 'abc' });
+
+    const [init] = fetch.calls;
+    assert.equal(init.method, 'POST');
+    assert.deepEqual(JSON.parse(init.body!), { columns: ['close'] });
+    assert.equal(init.headers['X-Test'], '1');
+    assert.equal(init.headers['Cookie'], 'sessionid=abc');
+  });
+
+  it('sends requests to the configured endpoint', async () => {
+    const fetch = scriptedFetch([jsonResponse(200, EMPTY)]);
+    const client = new ScreenerClient({
+      fetch,
+      baseUrl: 'http://localhost:8080/scanner/',
+    });
+
+    await new Query(client).setMarkets('crypto').getScannerData();
+    await client.metainfo('crypto');
+
+    assert.deepEqual(fetch.urls, [
+      'http://localhost:8080/scanner/crypto/scan',
+      'http://localhost:8080/scanner/crypto/metainfo',
+    ]);
+  });
+
+  it('retries server errors and returns the eventual response', async () => {
+    const fetch = scriptedFetch([
+      jsonResponse(502, 'Bad gateway'),
+      new Error('socket hang up'),
+      jsonResponse(200, { totalCount: 1, data: [{ s: 'A:B', d: [] }] }),
+    ]);
+    const client = new ScreenerClient({ fetch, retry: FAST_RETRY });
+
+    const response = await client.scan('america', {});
+
+    assert.equal(fetch.calls.length, 3);
+    assert.equal(response.totalCount, 1);
+  });
+
+  it('gives up after the configured retries', async () => {
+    const fetch = scriptedFetch([jsonResponse(503, 'Unavailable')]);
+    const client = new ScreenerClient({ fetch, retry: FAST_RETRY });
+
+    await assert.rejects(client.scan('america', {}), ServerError);
+    assert.equal(fetch.calls.length, 3);
+  });
+
+  it('does not retry client errors', async () => {
+    const fetch = scriptedFetch([
+      jsonResponse(400, { error: 'Unknown field "foo"' }),
+    ]);
+    const client = new ScreenerClient({ fetch, retry: FAST_RETRY });
+
+    await assert.rejects(client.scan('america', {}), (error: unknown) => {
+      assert.ok(error instanceof BadRequestError);
+      assert.equal(error.status, 400);
+      assert.match(error.message, /Unknown field "foo"/);
+      return true;
+    });
+    assert.equal(fetch.calls.length, 1);
+  });
+
+  it('maps status codes to error classes', async () => {
+    const cases: Array<[number, new (...args: any[]) => Error]> = [
+      [401, AuthError],
+      [403, AuthError],
+      [404, BadRequestError],
+      [429, RateLimitError],
+      [500, ServerError],
+    ];
+    for (const [status, type] of cases) {
+      const client = new ScreenerClient({
+        fetch: scriptedFetch([jsonResponse(status, '')]),
+        retry: false,
+      });
+      await assert.rejects(client.scan('america', {}), type);
+    }
+  });
+
+  it('reads Retry-After on rate-limited responses', async () => {
+    const client = new ScreenerClient({
+      fetch: scriptedFetch([jsonResponse(429, '', { 'retry-after': '2' })]),
+      retry: false,
+    });
+
+    await assert.rejects(client.scan('america', {}), (error: unknown) => {
+      assert.ok(error instanceof RateLimitError);
+      assert.equal(error.retryAfterMs, 2000);
+      return true;
+    });
+  });
+
+  it('wraps connection failures in NetworkError', async () => {
+    const client = new ScreenerClient({
+      fetch: scriptedFetch([new Error('ECONNREFUSED')]),
+      retry: false,
+    });
+
+    await assert.rejects(client.scan('america', {}), (error: unknown) => {
+      assert.ok(error instanceof NetworkError);
+      assert.ok(!(error instanceof TimeoutError));
+      assert.match(error.message, /ECONNREFUSED/);
+      return true;
+    });
+  });
+
+  it('aborts requests that exceed the timeout', async () => {
+    const fetch: FetchLike = (_url, init) =>
+      new Promise((_resolve, reject) => {
+        init.signal!.addEventListener('abort', () =>
+          reject(new Error('aborted'))
+        );
+      });
+    const client = new ScreenerClient({ fetch, retry: false, timeoutMs: 10 });
+
+    await assert.rejects(client.scan('america', {}), TimeoutError);
+  });
+
+  it('keeps the timeout running while the body is read', async () => {
+    const stalled: FetchResponseLike = {
+      ...jsonResponse(200, EMPTY),
+      text: () => new Promise<string>(() => {}),
+    };
+    const client = new ScreenerClient({
+      fetch: scriptedFetch([stalled]),
+      retry: false,
+      timeoutMs: 10,
+    });
+
+    await assert.rejects(client.scan('america', {}), TimeoutError);
+  });
+
+  it('reports a 2xx body that is not JSON', async () => {
+    const client = new ScreenerClient({
+      fetch: scriptedFetch([jsonResponse(200, '<html>Maintenance</html>')]),
+      retry: FAST_RETRY,
+    });
+
+    await assert.rejects(client.scan('america', {}), (error: unknown) => {
+      assert.ok(error instanceof InvalidResponseError);
+      assert.equal(error.status, 200);
+      assert.equal(error.body, '<html>Maintenance</html>');
+      return true;
+    });
+  });
+});
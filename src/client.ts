@@ -0,0 +1,458 @@
+/**
+ * HTTP client for the TradingView screener API
+ * Holds the endpoint, default headers and the fetch implementation
+ * that Query executes through.
+ */
+
+import {
+  QueryDict,
+  ScreenerDict,
+  Cookies,
+  MetainfoResponse,
+} from './models';
+import {
+  TradingViewApiError,
+  RateLimitError,
+  NetworkError,
+  TimeoutError,
+  InvalidResponseError,
+  createApiError,
+} from './errors';
+import { RateLimiter, RateLimiterOptions, sleep } from './ratelimit';
+import { ResponseCache, ResponseCacheOptions } from './cache';
+import { SessionManager, UPDATE_MODE_FIELD, realtimeStatus } from './session';
+
+export const DEFAULT_BASE_URL = 'https://scanner.tradingview.com';
+export const DEFAULT_USER_AGENT =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36';
+
+/**
+ * Minimal request options passed to the fetch implementation
+ */
+export interface FetchRequestInit {
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * Minimal response shape the client relies on.
+ * Satisfied by node-fetch, undici and the native Node/browser fetch.
+ */
+export interface FetchResponseLike {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  headers?: { get(name: string): string | null };
+  text(): Promise<string>;
+}
+
+/**
+ * Fetch implementation used to send requests
+ */
+export type FetchLike = (
+  url: string,
+  init: FetchRequestInit
+) => Promise<FetchResponseLike>;
+
+/**
+ * Retry policy for failed requests.
+ * Rate-limited (429), server (5xx) and network errors are retried with
+ * exponential backoff; other errors are thrown immediately.
+ */
+export interface RetryOptions {
+  /** Number of retries after the first attempt (default: 3) */
+  retries?: number;
+  /** Delay before the first retry in milliseconds (default: 500) */
+  minDelayMs?: number;
+  /** Upper bound on any single delay in milliseconds (default: 10000) */
+  maxDelayMs?: number;
+  /** Backoff multiplier between attempts (default: 2) */
+  factor?: number;
+}
+
+/**
+ * Client configuration
+ */
+export interface ScreenerClientOptions {
+  /** Scanner endpoint (default: https://scanner.tradingview.com) */
+  baseUrl?: string;
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
+  /** User-Agent header value */
+  userAgent?: string;
+  /** Fetch implementation (default: global fetch, falling back to node-fetch) */
+  fetch?: FetchLike;
+  /** Retry policy, or false to disable retries */
+  retry?: RetryOptions | false;
+  /** Per-request timeout in milliseconds (default: 30000, 0 disables) */
+  timeoutMs?: number;
+  /** Rate limit shared by every request sent through this client */
+  rateLimit?: RateLimiter | RateLimiterOptions;
+  /** Cache scan responses; off unless given */
+  cache?: ResponseCache | ResponseCacheOptions;
+  /**
+   * Session whose cookies are sent when a scan passes none. Its real-time
+   * status is updated from every response.
+   */
+  session?: SessionManager;
+  /**
+   * Tickers per request; larger ticker sets are split into several
+   * requests whose results are merged (default: 500)
+   */
+  maxTickersPerRequest?: number;
+  /** Requests a single query may have in flight at once (default: 4) */
+  concurrency?: number;
+}
+
+/**
+ * Retry policy used when none is configured
+ */
+export const DEFAULT_RETRY: Readonly<Required<RetryOptions>> = {
+  retries: 3,
+  minDelayMs: 500,
+  maxDelayMs: 10_000,
+  factor: 2,
+};
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_MAX_TICKERS_PER_REQUEST = 500;
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Exponential backoff before a retry
+ * @param attempt - 0-based number of the attempt that failed
+ * @param retry - Retry policy (default: DEFAULT_RETRY)
+ * @returns Delay in milliseconds, capped at `maxDelayMs`
+ */
+export function backoffDelay(
+  attempt: number,
+  retry: Required<RetryOptions> = DEFAULT_RETRY
+): number {
+  const { minDelayMs, maxDelayMs, factor } = retry;
+  return Math.min(maxDelayMs, minDelayMs * factor ** attempt);
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Reject when the signal aborts, for fetch implementations (or response
+ * bodies) that don't observe the signal themselves
+ */
+export function abortable<T>(
+  promise: Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new Error('The operation was aborted'));
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Timer aborting a request after a timeout
+ */
+export interface RequestTimeout {
+  /** Aborts once the timeout elapses; undefined when disabled */
+  signal?: AbortSignal;
+  /** Stop the timer after the request settled */
+  clear(): void;
+}
+
+/**
+ * Start a request timeout. Disabled for 0 or when the runtime has no
+ * AbortController.
+ * @param timeoutMs - Timeout in milliseconds
+ */
+export function requestTimeout(timeoutMs: number): RequestTimeout {
+  if (!(timeoutMs > 0) || typeof AbortController === 'undefined') {
+    return { clear: () => undefined };
+  }
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  return { signal: controller.signal, clear: () => clearTimeout(timer) };
+}
+
+/**
+ * Resolve the fetch implementation when none is configured.
+ * node-fetch is only loaded if the runtime has no native fetch.
+ */
+export function defaultFetch(): FetchLike {
+  const globalFetch = globalThis.fetch as FetchLike | undefined;
+  if (typeof globalFetch === 'function') {
+    return globalFetch.bind(globalThis);
+  }
+  const nodeFetch = require('node-fetch');
+  return (nodeFetch.default || nodeFetch) as FetchLike;
+}
+
+export class ScreenerClient {
+  readonly baseUrl: string;
+  readonly headers: Record<string, string>;
+  readonly userAgent: string;
+  readonly retry: Required<RetryOptions> | null;
+  readonly timeoutMs: number;
+  readonly rateLimiter?: RateLimiter;
+  readonly cache?: ResponseCache;
+  readonly session?: SessionManager;
+  readonly maxTickersPerRequest: number;
+  readonly concurrency: number;
+  private readonly fetchImpl?: FetchLike;
+
+  constructor(options: ScreenerClientOptions = {}) {
+    this.baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.headers = { ...options.headers };
+    this.userAgent = options.userAgent || DEFAULT_USER_AGENT;
+    this.fetchImpl = options.fetch;
+    this.retry =
+      options.retry === false ? null : { ...DEFAULT_RETRY, ...options.retry };
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    if (options.rateLimit) {
+      this.rateLimiter =
+        options.rateLimit instanceof RateLimiter
+          ? options.rateLimit
+          : new RateLimiter(options.rateLimit);
+    }
+    if (options.cache) {
+      this.cache =
+        options.cache instanceof ResponseCache
+          ? options.cache
+          : new ResponseCache(options.cache);
+    }
+    this.session = options.session;
+    this.maxTickersPerRequest = Math.max(
+      1,
+      options.maxTickersPerRequest ?? DEFAULT_MAX_TICKERS_PER_REQUEST
+    );
+    this.concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+  }
+
+  /**
+   * Build the scan URL for a market
+   * @param market - Market identifier (e.g., 'america')
+   */
+  scanUrl(market: string): string {
+    return `${this.baseUrl}/${market}/scan`;
+  }
+
+  /**
+   * Build request headers, including cookies when given
+   * @param cookies - Optional cookies for authentication
+   */
+  buildHeaders(cookies?: Cookies): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': this.userAgent,
+      ...this.headers,
+    };
+
+    if (cookies) {
+      const cookieString = Object.entries(cookies)
+        .map(([key, value]) => `${key}=${value}`)
+        .join('; ');
+      headers['Cookie'] = cookieString;
+    }
+    return headers;
+  }
+
+  /**
+   * Fetch the field metadata the scanner publishes for a market
+   * @param market - Market identifier (e.g., 'america')
+   * @returns Metainfo response listing every field of the market
+   */
+  async metainfo(market: string): Promise<MetainfoResponse> {
+    const url = `${this.baseUrl}/${market}/metainfo`;
+    return this.withRetry(() => this.send<MetainfoResponse>(url, {}));
+  }
+
+  /**
+   * Send a scan request for a single market, retrying transient failures.
+   * With a cache configured, fresh cached responses are returned without
+   * a request and identical concurrent scans share one request.
+   * With a session attached, its cookies are used when none are given and
+   * update_mode is requested behind the scenes to track real-time status.
+   * @param market - Market identifier used in the URL
+   * @param queryDict - Query payload
+   * @param cookies - Optional cookies for authentication
+   * @returns Raw screener response, with `isRealtime` set when known
+   * @throws TradingViewApiError (or a subclass) when the request fails
+   */
+  async scan(
+    market: string,
+    queryDict: QueryDict,
+    cookies?: Cookies
+  ): Promise<ScreenerDict> {
+    const url = this.scanUrl(market);
+    const sessionCookies = cookies ?? this.session?.cookies;
+    const columns = queryDict.columns ?? [];
+    const probe =
+      !!this.session &&
+      queryDict.columns !== undefined &&
+      !columns.includes(UPDATE_MODE_FIELD);
+    const payload: QueryDict = probe
+      ? { ...queryDict, columns: [...columns, UPDATE_MODE_FIELD] }
+      : queryDict;
+    const request = () =>
+      this.withRetry(() =>
+        this.send<ScreenerDict>(url, payload, sessionCookies)
+      );
+
+    const response = this.cache
+      ? await this.cache.fetch(
+          this.cache.key(url, payload, sessionCookies),
+          request
+        )
+      : await request();
+
+    const isRealtime = realtimeStatus(response, payload.columns);
+    if (probe) {
+      // Hide the column the caller did not ask for
+      response.data = response.data.map((row) => ({
+        ...row,
+        d: row.d.slice(0, columns.length),
+      }));
+    }
+    if (isRealtime !== undefined) {
+      response.isRealtime = isRealtime;
+    }
+    this.session?.observe(isRealtime, market);
+    return response;
+  }
+
+  /**
+   * Run a request, retrying transient failures with exponential backoff
+   */
+  private async withRetry<T>(request: () => Promise<T>): Promise<T> {
+    const retries = this.retry ? this.retry.retries : 0;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await request();
+      } catch (error) {
+        if (
+          !(error instanceof TradingViewApiError) ||
+          !error.retryable ||
+          attempt >= retries
+        ) {
+          throw error;
+        }
+        await sleep(this.retryDelay(attempt, error));
+      }
+    }
+  }
+
+  /**
+   * Delay before the next retry, honoring Retry-After on 429 responses
+   */
+  private retryDelay(attempt: number, error: TradingViewApiError): number {
+    const retry = this.retry || DEFAULT_RETRY;
+    const backoff = backoffDelay(attempt, retry);
+    if (error instanceof RateLimitError && error.retryAfterMs !== undefined) {
+      return Math.min(retry.maxDelayMs, Math.max(backoff, error.retryAfterMs));
+    }
+    return backoff;
+  }
+
+  /**
+   * Send a single POST request and parse the JSON response.
+   * The timeout covers the whole exchange, including the body read.
+   */
+  private async send<T>(
+    url: string,
+    queryDict: QueryDict,
+    cookies?: Cookies
+  ): Promise<T> {
+    if (this.rateLimiter) {
+      await this.rateLimiter.acquire();
+    }
+
+    const fetchImpl = this.fetchImpl || defaultFetch();
+    const timeout = requestTimeout(this.timeoutMs);
+    const transportError = (error: unknown): TradingViewApiError =>
+      timeout.signal?.aborted
+        ? new TimeoutError(
+            `TradingView API request timed out after ${this.timeoutMs}ms`,
+            { url, queryDict, cause: error }
+          )
+        : new NetworkError(
+            `TradingView API request failed: ${(error as Error)?.message ?? error}`,
+            { url, queryDict, cause: error }
+          );
+
+    try {
+      let response: FetchResponseLike;
+      try {
+        response = await abortable(
+          fetchImpl(url, {
+            method: 'POST',
+            headers: this.buildHeaders(cookies),
+            body: JSON.stringify(queryDict),
+            signal: timeout.signal,
+          }),
+          timeout.signal
+        );
+      } catch (error) {
+        throw transportError(error);
+      }
+
+      if (!response.ok) {
+        const errorBody = await abortable(
+          response.text(),
+          timeout.signal
+        ).catch(() => undefined);
+        throw createApiError(
+          response.status,
+          response.statusText,
+          { url, queryDict, body: errorBody },
+          parseRetryAfter(response.headers?.get('retry-after'))
+        );
+      }
+
+      let body: string;
+      try {
+        body = await abortable(response.text(), timeout.signal);
+      } catch (error) {
+        throw transportError(error);
+      }
+      try {
+        return JSON.parse(body) as T;
+      } catch (error) {
+        throw new InvalidResponseError(
+          `TradingView API returned invalid JSON (${response.status} ` +
+            `${response.statusText}): ${(error as Error).message}`,
+          { url, queryDict, status: response.status, body, cause: error }
+        );
+      }
+    } finally {
+      timeout.clear();
+    }
+  }
+}
+
+/**
+ * Client used by queries that were not given one explicitly
+ */
+export const defaultClient = new ScreenerClient();
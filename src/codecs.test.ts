@@ -0,0 +1,82 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  FieldCodec,
+  codecFor,
+  decodeRow,
+  decodeScannerData,
+  encodeFilterValue,
+  fractionCodec,
+  timestampCodec,
+} from './codecs';
+import { ScannerData, ScannerRow } from './models';
+
+describe('codecs', () => {
+  it('round-trips timestamps and fractions', () => {
+    const date = timestampCodec.decode(1_700_000_000);
+
+    assert.equal(date.toISOString(), '2023-11-14T22:13:20.000Z');
+    assert.equal(timestampCodec.encode(date), 1_700_000_000);
+    assert.equal(fractionCodec.decode(2.5), 0.025);
+    assert.equal(fractionCodec.encode(fractionCodec.decode(2.5)), 2.5);
+  });
+
+  it('picks codecs from the catalog types', () => {
+    assert.equal(codecFor('earnings_release_date'), timestampCodec);
+    assert.equal(codecFor('change'), undefined);
+    assert.equal(
+      codecFor('change|15', { percents: 'fraction' }),
+      fractionCodec
+    );
+    assert.equal(codecFor('close', { percents: 'fraction' }), undefined);
+  });
+});
+
+describe('decodeScannerData', () => {
+  it('decodes rows and keeps the raw ones', () => {
+    const data: ScannerData<'earnings_release_date' | 'change' | 'close'> = {
+      totalCount: 1,
+      data: [
+        {
+          symbol: 'NASDAQ:AAPL',
+          earnings_release_date: 1_700_000_000,
+          change: 2.5,
+          close: null,
+        },
+      ],
+    };
+
+    const decoded = decodeScannerData(data, { percents: 'fraction' });
+
+    assert.deepEqual(decoded.data[0], {
+      symbol: 'NASDAQ:AAPL',
+      earnings_release_date: new Date(1_700_000_000_000),
+      change: 0.025,
+      close: null,
+    });
+    assert.equal(decoded.raw, data.data);
+  });
+
+  it('applies custom codecs to suffixed variants', () => {
+    const doubled: FieldCodec<number> = {
+      decode: (raw) => (raw as number) * 2,
+      encode: (value) => value / 2,
+    };
+    const raw: ScannerRow<'RSI|15'> = { symbol: 'NASDAQ:AAPL', 'RSI|15': 30 };
+
+    const row = decodeRow(raw, { codecs: { RSI: doubled } });
+
+    assert.equal(row['RSI|15'], 60);
+  });
+});
+
+describe('encodeFilterValue', () => {
+  it('encodes dates as epoch seconds and keeps percent units', () => {
+    const date = new Date(1_700_000_000_000);
+
+    assert.equal(encodeFilterValue('earnings_release_date', date), 1.7e9);
+    assert.equal(encodeFilterValue('close', date), 1.7e9);
+    assert.equal(encodeFilterValue('change', 2.5), 2.5);
+    assert.equal(encodeFilterValue('sector', 'Finance'), 'Finance');
+  });
+});
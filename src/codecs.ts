@@ -0,0 +1,145 @@
+/**
+ * Per-field value codecs
+ * Decode raw scanner values into JavaScript types (timestamps to Date,
+ * percentages optionally to fractions) and encode filter values the other
+ * way. Codecs are picked from the field catalog's type metadata.
+ */
+
+import { FilterScalar, ScannerData, ScannerRow } from './models';
+import { FieldCatalog, defaultCatalog } from './fields';
+
+/**
+ * Converts one field's values between the scanner's wire form and a
+ * JavaScript value. Null values are never passed to a codec.
+ */
+export interface FieldCodec<T = unknown> {
+  /** Raw response value to JavaScript value */
+  decode(raw: unknown): T;
+  /** JavaScript value to the form filters send */
+  encode(value: T): FilterScalar;
+}
+
+/**
+ * Epoch seconds as Date. Non-numeric values pass through unchanged.
+ */
+export const timestampCodec: FieldCodec<Date> = {
+  decode: (raw) =>
+    typeof raw === 'number' ? new Date(raw * 1000) : (raw as Date),
+  encode: (value) =>
+    value instanceof Date
+      ? Math.floor(value.getTime() / 1000)
+      : (value as FilterScalar),
+};
+
+/**
+ * Percentages as fractions: 2.5 (%) decodes to 0.025. Non-numeric values
+ * pass through unchanged.
+ */
+export const fractionCodec: FieldCodec<number> = {
+  decode: (raw) => (typeof raw === 'number' ? raw / 100 : (raw as number)),
+  encode: (value) => value * 100,
+};
+
+/**
+ * Decoding options
+ */
+export interface CodecOptions {
+  /** Catalog providing field types (default: bundled catalog) */
+  catalog?: FieldCatalog;
+  /** Decode timestamp fields to Date (default: true) */
+  timestamps?: boolean;
+  /**
+   * "percent" keeps percentage fields as returned (2.5 for 2.5%),
+   * "fraction" rescales them to 0.025 (default: "percent")
+   */
+  percents?: 'percent' | 'fraction';
+  /**
+   * Codecs by field name, taking precedence over the catalog. A name
+   * without a timeframe suffix also applies to its suffixed variants.
+   */
+  codecs?: Record<string, FieldCodec<any>>;
+}
+
+/**
+ * Find the codec for a field
+ * @param field - Column name, optionally with a timeframe suffix
+ * @param options - Catalog and decoding options
+ * @returns The codec, or undefined when values are used as returned
+ */
+export function codecFor(
+  field: string,
+  options: CodecOptions = {}
+): FieldCodec<any> | undefined {
+  const catalog = options.catalog ?? defaultCatalog;
+  const info = catalog.get(field);
+  const custom =
+    options.codecs?.[field] ??
+    (info ? options.codecs?.[info.name] : undefined);
+  if (custom) return custom;
+
+  if (info?.type === 'timestamp' && options.timestamps !== false) {
+    return timestampCodec;
+  }
+  if (info?.percent && options.percents === 'fraction') {
+    return fractionCodec;
+  }
+  return undefined;
+}
+
+/**
+ * Decode the values of a result row
+ * @param row - Row as returned by getScannerData
+ * @param options - Catalog and decoding options
+ * @returns A new row; the input row is not modified
+ */
+export function decodeRow<C extends string>(
+  row: ScannerRow<C>,
+  options: CodecOptions = {}
+): ScannerRow<C> {
+  const decoded: Record<string, unknown> = { ...row };
+  for (const [field, value] of Object.entries(row)) {
+    if (field === 'symbol' || value === null || value === undefined) continue;
+    const codec = codecFor(field, options);
+    if (codec) {
+      decoded[field] = codec.decode(value);
+    }
+  }
+  return decoded as ScannerRow<C>;
+}
+
+/**
+ * Decode every row of a result. The undecoded rows stay available as
+ * `raw`.
+ * @param data - Result of getScannerData
+ * @param options - Catalog and decoding options
+ */
+export function decodeScannerData<C extends string>(
+  data: ScannerData<C>,
+  options: CodecOptions = {}
+): ScannerData<C> {
+  return {
+    ...data,
+    data: data.data.map((row) => decodeRow(row, options)),
+    raw: data.raw ?? data.data,
+  };
+}
+
+/**
+ * Encode a filter value for a field: Dates become epoch seconds, and
+ * custom codecs apply. Percentages are not rescaled, filters always use
+ * the scanner's units.
+ * @param field - Field the filter applies to
+ * @param value - Value given to the filter
+ * @param options - Catalog and custom codecs
+ */
+export function encodeFilterValue(
+  field: string,
+  value: FilterScalar | Date,
+  options: Pick<CodecOptions, 'catalog' | 'codecs'> = {}
+): FilterScalar {
+  const codec = codecFor(field, { ...options, percents: 'percent' });
+  if (codec) {
+    return codec.encode(value);
+  }
+  return value instanceof Date ? timestampCodec.encode(value) : value;
+}
@@ -3,96 +3,196 @@
  * Represents a field in the TradingView screener
  */
 
-import { FilterOperationDict } from './models';
+import { FilterOperationDict, FilterScalar, Interval } from './models';
+import { stripInterval, withInterval } from './interval';
+import { FieldCatalog, FieldInfo, defaultCatalog } from './fields';
+import { encodeFilterValue } from './codecs';
+
+/**
+ * Right-hand operand of a comparison: a literal value, a Date (sent as
+ * epoch seconds) or another column
+ */
+export type ColumnOperand = Column | FilterScalar | Date;
+
+/**
+ * Convert an operand to the form the scanner expects.
+ * Columns are referenced by their field name; literals are encoded with
+ * the field's codec.
+ */
+function extractValue(value: ColumnOperand, field: string): FilterScalar {
+  return value instanceof Column
+    ? value.name
+    : encodeFilterValue(field, value);
+}
+
+/**
+ * Normalize range bounds given either as two arguments or as a single tuple
+ */
+function extractRange(
+  field: string,
+  min: ColumnOperand | [ColumnOperand, ColumnOperand],
+  max?: ColumnOperand
+): [FilterScalar, FilterScalar] {
+  if (Array.isArray(min)) {
+    return [extractValue(min[0], field), extractValue(min[1], field)];
+  }
+  if (max === undefined) {
+    throw new Error('Range requires both a minimum and a maximum bound');
+  }
+  return [extractValue(min, field), extractValue(max, field)];
+}
+
+/**
+ * Operands of in_range_pct/not_in_range_pct: [min, max], or
+ * [column, minPct, maxPct] when a reference column is given
+ */
+function extractPctRange(
+  min: number | Column,
+  max: number,
+  maxPct?: number
+): FilterScalar[] {
+  if (!(min instanceof Column)) {
+    return [min, max];
+  }
+  if (maxPct === undefined) {
+    throw new Error('Percentage range requires both a minimum and a maximum');
+  }
+  return [min.name, max, maxPct];
+}
 
 export class Column {
-  constructor(public readonly name: string) {}
+  public readonly name: string;
+
+  /**
+   * @param name - Field name, optionally already suffixed (e.g. "RSI|15")
+   * @param interval - Timeframe to apply to the field
+   */
+  constructor(name: string, interval?: Interval) {
+    this.name = interval ? withInterval(name, interval) : name;
+  }
+
+  /**
+   * Field name without any timeframe suffix
+   */
+  get baseName(): string {
+    return stripInterval(this.name);
+  }
+
+  /**
+   * Look this column up in a field catalog
+   * @param catalog - Catalog to search (default: bundled catalog)
+   * @returns Field metadata, or undefined if the field is unknown
+   */
+  info(catalog: FieldCatalog = defaultCatalog): FieldInfo | undefined {
+    return catalog.get(this.name);
+  }
+
+  /**
+   * Create a copy of this column on a different timeframe
+   * @param interval - Timeframe, e.g. '15m', '1h', '1w'
+   * @returns New Column instance
+   */
+  tf(interval: Interval): Column {
+    return new Column(this.name, interval);
+  }
 
   /**
    * Greater than operator (>)
    */
-  gt(value: any): FilterOperationDict {
+  gt(value: ColumnOperand): FilterOperationDict {
     return {
       left: this.name,
       operation: 'greater',
-      right: value,
+      right: extractValue(value, this.name),
     };
   }
 
   /**
    * Greater than or equal operator (>=)
    */
-  gte(value: any): FilterOperationDict {
+  gte(value: ColumnOperand): FilterOperationDict {
     return {
       left: this.name,
       operation: 'egreater',
-      right: value,
+      right: extractValue(value, this.name),
     };
   }
 
   /**
    * Less than operator (<)
    */
-  lt(value: any): FilterOperationDict {
+  lt(value: ColumnOperand): FilterOperationDict {
     return {
       left: this.name,
       operation: 'less',
-      right: value,
+      right: extractValue(value, this.name),
     };
   }
 
   /**
    * Less than or equal operator (<=)
    */
-  lte(value: any): FilterOperationDict {
+  lte(value: ColumnOperand): FilterOperationDict {
     return {
       left: this.name,
       operation: 'eless',
-      right: value,
+      right: extractValue(value, this.name),
     };
   }
 
   /**
    * Equal operator (==)
    */
-  eq(value: any): FilterOperationDict {
+  eq(value: ColumnOperand): FilterOperationDict {
     return {
       left: this.name,
       operation: 'equal',
-      right: value,
+      right: extractValue(value, this.name),
     };
   }
 
   /**
    * Not equal operator (!=)
    */
-  neq(value: any): FilterOperationDict {
+  neq(value: ColumnOperand): FilterOperationDict {
     return {
       left: this.name,
       operation: 'nequal',
-      right: value,
+      right: extractValue(value, this.name),
     };
   }
 
   /**
    * Between range (inclusive)
+   * Bounds may be literals or columns, e.g. `col('close').between(col('SMA20'), col('SMA50'))`
    */
-  between(min: number, max: number): FilterOperationDict {
+  between(range: [ColumnOperand, ColumnOperand]): FilterOperationDict;
+  between(min: ColumnOperand, max: ColumnOperand): FilterOperationDict;
+  between(
+    min: ColumnOperand | [ColumnOperand, ColumnOperand],
+    max?: ColumnOperand
+  ): FilterOperationDict {
     return {
       left: this.name,
       operation: 'in_range',
-      right: [min, max],
+      right: extractRange(this.name, min, max),
     };
   }
 
   /**
    * Not between range
+   * Bounds may be literals or columns, e.g. `col('close').notBetween(col('SMA20'), col('SMA50'))`
    */
-  notBetween(min: number, max: number): FilterOperationDict {
+  notBetween(range: [ColumnOperand, ColumnOperand]): FilterOperationDict;
+  notBetween(min: ColumnOperand, max: ColumnOperand): FilterOperationDict;
+  notBetween(
+    min: ColumnOperand | [ColumnOperand, ColumnOperand],
+    max?: ColumnOperand
+  ): FilterOperationDict {
     return {
       left: this.name,
       operation: 'not_in_range',
-      right: [min, max],
+      right: extractRange(this.name, min, max),
     };
   }
 
@@ -131,78 +231,112 @@ export class Column {
 
   /**
    * Above percentage
+   * When `pct` is given, compares against another column scaled by `pct`,
+   * e.g. `col('close').abovePct(col('VWAP'), 1.03)`
    */
-  abovePct(value: number): FilterOperationDict {
+  abovePct(value: ColumnOperand, pct?: number): FilterOperationDict {
     return {
       left: this.name,
       operation: 'above_pct',
-      right: value,
+      right:
+        pct === undefined
+          ? extractValue(value, this.name)
+          : [extractValue(value, this.name), pct],
     };
   }
 
   /**
    * Below percentage
+   * When `pct` is given, compares against another column scaled by `pct`,
+   * e.g. `col('close').belowPct(col('VWAP'), 1.03)`
    */
-  belowPct(value: number): FilterOperationDict {
+  belowPct(value: ColumnOperand, pct?: number): FilterOperationDict {
     return {
       left: this.name,
       operation: 'below_pct',
-      right: value,
+      right:
+        pct === undefined
+          ? extractValue(value, this.name)
+          : [extractValue(value, this.name), pct],
     };
   }
 
   /**
    * Between percentage range
+   * Given a column, compares against that column scaled by each bound,
+   * e.g. `col('close').betweenPct(col('SMA50'), 0.95, 1.05)`
    */
-  betweenPct(min: number, max: number): FilterOperationDict {
+  betweenPct(min: number, max: number): FilterOperationDict;
+  betweenPct(
+    column: Column,
+    minPct: number,
+    maxPct: number
+  ): FilterOperationDict;
+  betweenPct(
+    min: number | Column,
+    max: number,
+    maxPct?: number
+  ): FilterOperationDict {
     return {
       left: this.name,
       operation: 'in_range_pct',
-      right: [min, max],
+      right: extractPctRange(min, max, maxPct),
     };
   }
 
   /**
    * Not between percentage range
+   * Given a column, compares against that column scaled by each bound,
+   * e.g. `col('close').notBetweenPct(col('SMA50'), 0.95, 1.05)`
    */
-  notBetweenPct(min: number, max: number): FilterOperationDict {
+  notBetweenPct(min: number, max: number): FilterOperationDict;
+  notBetweenPct(
+    column: Column,
+    minPct: number,
+    maxPct: number
+  ): FilterOperationDict;
+  notBetweenPct(
+    min: number | Column,
+    max: number,
+    maxPct?: number
+  ): FilterOperationDict {
     return {
       left: this.name,
       operation: 'not_in_range_pct',
-      right: [min, max],
+      right: extractPctRange(min, max, maxPct),
     };
   }
 
   /**
    * Crosses another value
    */
-  crosses(value: any): FilterOperationDict {
+  crosses(value: ColumnOperand): FilterOperationDict {
     return {
       left: this.name,
       operation: 'crosses',
-      right: value,
+      right: extractValue(value, this.name),
     };
   }
 
   /**
    * Crosses above another value
    */
-  crossesAbove(value: any): FilterOperationDict {
+  crossesAbove(value: ColumnOperand): FilterOperationDict {
     return {
       left: this.name,
       operation: 'crosses_above',
-      right: value,
+      right: extractValue(value, this.name),
     };
   }
 
   /**
    * Crosses below another value
    */
-  crossesBelow(value: any): FilterOperationDict {
+  crossesBelow(value: ColumnOperand): FilterOperationDict {
     return {
       left: this.name,
       operation: 'crosses_below',
-      right: value,
+      right: extractValue(value, this.name),
     };
   }
 
@@ -231,7 +365,7 @@ export class Column {
   /**
    * Has value in list
    */
-  has(values: any[]): FilterOperationDict {
+  has(values: FilterScalar[]): FilterOperationDict {
     return {
       left: this.name,
       operation: 'has',
@@ -242,7 +376,7 @@ export class Column {
   /**
    * Has none of values in list
    */
-  hasNoneOf(values: any[]): FilterOperationDict {
+  hasNoneOf(values: FilterScalar[]): FilterOperationDict {
     return {
       left: this.name,
       operation: 'has_none_of',
@@ -253,7 +387,7 @@ export class Column {
   /**
    * Is in list
    */
-  isin(values: any[]): FilterOperationDict {
+  isin(values: FilterScalar[]): FilterOperationDict {
     return {
       left: this.name,
       operation: 'has',
@@ -264,7 +398,7 @@ export class Column {
   /**
    * Is not in list
    */
-  notIn(values: any[]): FilterOperationDict {
+  notIn(values: FilterScalar[]): FilterOperationDict {
     return {
       left: this.name,
       operation: 'has_none_of',
@@ -295,7 +429,9 @@ export class Column {
 
 /**
  * Convenience function to create a Column instance
+ * @param name - Field name
+ * @param interval - Optional timeframe, e.g. col('RSI', '1h')
  */
-export function col(name: string): Column {
-  return new Column(name);
+export function col(name: string, interval?: Interval): Column {
+  return new Column(name, interval);
 }
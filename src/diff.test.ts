@@ -0,0 +1,108 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffScannerData, diffToRows } from './diff';
+import { ScannerData } from './models';
+
+const before: ScannerData<'close' | 'volume'> = {
+  totalCount: 3,
+  data: [
+    { symbol: 'NASDAQ:AAPL', close: 190, volume: 100 },
+    { symbol: 'NYSE:KO', close: 60, volume: 50 },
+    { symbol: 'NYSE:T', close: 17, volume: 10 },
+  ],
+};
+
+const after: ScannerData<'close' | 'volume'> = {
+  totalCount: 4,
+  data: [
+    { symbol: 'NYSE:KO', close: 66, volume: 50 },
+    { symbol: 'NASDAQ:AAPL', close: 190, volume: 100 },
+    { symbol: 'NASDAQ:MSFT', close: 410, volume: 80 },
+  ],
+};
+
+describe('diffScannerData', () => {
+  it('reports added, removed and changed rows', () => {
+    const diff = diffScannerData(before, after);
+
+    assert.deepEqual(
+      diff.added.map((e) => [e.key, e.rank]),
+      [['NASDAQ:MSFT', 3]]
+    );
+    assert.deepEqual(
+      diff.removed.map((e) => [e.key, e.rank]),
+      [['NYSE:T', 3]]
+    );
+    assert.deepEqual(diff.totalCount, { before: 3, after: 4 });
+    assert.equal(diff.unchanged, 0);
+
+    const [ko, aapl] = diff.changed;
+    assert.equal(ko.key, 'NYSE:KO');
+    assert.equal(ko.rankChange, 1);
+    assert.deepEqual(ko.fields, [
+      { field: 'close', before: 60, after: 66, delta: 6, pctChange: 10 },
+    ]);
+    assert.equal(aapl.rankChange, -1);
+    assert.deepEqual(aapl.fields, []);
+  });
+
+  it('counts rows with the same rank and values as unchanged', () => {
+    const diff = diffScannerData(before, before);
+
+    assert.equal(diff.unchanged, 3);
+    assert.deepEqual(diff.changed, []);
+  });
+
+  it('matches rows by market and symbol, or by a custom key', () => {
+    const a: ScannerData<'close'> = {
+      totalCount: 1,
+      data: [{ symbol: 'BTCUSD', market: 'crypto', close: 1 }],
+    };
+    const b: ScannerData<'close'> = {
+      totalCount: 1,
+      data: [{ symbol: 'BTCUSD', market: 'coin', close: 1 }],
+    };
+
+    const byMarket = diffScannerData(a, b);
+    const bySymbol = diffScannerData(a, b, { key: 'symbol' });
+
+    assert.deepEqual(
+      byMarket.added.map((e) => e.key),
+      ['coin:BTCUSD']
+    );
+    assert.deepEqual(
+      byMarket.removed.map((e) => e.key),
+      ['crypto:BTCUSD']
+    );
+    assert.equal(bySymbol.unchanged, 1);
+  });
+
+  it('compares only the given fields', () => {
+    const diff = diffScannerData(before, after, { fields: ['volume'] });
+
+    assert.deepEqual(
+      diff.changed.map((c) => [c.key, c.fields.length]),
+      [
+        ['NYSE:KO', 0],
+        ['NASDAQ:AAPL', 0],
+      ]
+    );
+  });
+});
+
+describe('diffToRows', () => {
+  it('flattens changes with delta and percent columns', () => {
+    const rows = diffToRows(diffScannerData(before, after));
+
+    assert.deepEqual(
+      rows.map((r) => [r.change, r.symbol, r.close, r.close_delta]),
+      [
+        ['added', 'NASDAQ:MSFT', 410, null],
+        ['removed', 'NYSE:T', 17, null],
+        ['changed', 'NYSE:KO', 66, 6],
+        ['changed', 'NASDAQ:AAPL', 190, null],
+      ]
+    );
+    assert.equal(rows[2].close_pct, 10);
+  });
+});
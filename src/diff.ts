@@ -0,0 +1,237 @@
+/**
+ * Snapshot diffing between two scanner results
+ */
+
+import { ScannerData, ScannerRow } from './models';
+
+/**
+ * Diff options
+ */
+export interface DiffOptions {
+  /**
+   * How rows are matched between snapshots: a row property such as
+   * 'symbol', or a function (default: "market:symbol" when rows carry a
+   * market, otherwise the symbol)
+   */
+  key?: string | ((row: ScannerRow<string>) => string);
+  /** Fields to compare (default: every column except symbol and market) */
+  fields?: string[];
+}
+
+/**
+ * A row present in only one snapshot
+ */
+export interface DiffEntry<C extends string = string> {
+  key: string;
+  /** 1-based position in its snapshot, i.e. its rank under the sort */
+  rank: number;
+  row: ScannerRow<C>;
+}
+
+/**
+ * Change of a single field between snapshots
+ */
+export interface FieldDiff {
+  field: string;
+  before: unknown;
+  after: unknown;
+  /** after - before, when both are numbers */
+  delta?: number;
+  /** Relative change in percent, when both are numbers and before is not 0 */
+  pctChange?: number;
+}
+
+/**
+ * A row present in both snapshots whose rank or fields changed
+ */
+export interface RowDiff<C extends string = string> {
+  key: string;
+  rankBefore: number;
+  rankAfter: number;
+  /** Positions moved up the ranking (negative when moving down) */
+  rankChange: number;
+  /** Compared fields whose value changed */
+  fields: FieldDiff[];
+  before: ScannerRow<C>;
+  after: ScannerRow<C>;
+}
+
+/**
+ * Differences between two snapshots
+ */
+export interface ScannerDataDiff<C extends string = string> {
+  added: DiffEntry<C>[];
+  removed: DiffEntry<C>[];
+  changed: RowDiff<C>[];
+  /** Rows present in both snapshots with the same rank and values */
+  unchanged: number;
+  totalCount: { before: number; after: number };
+}
+
+/**
+ * Default row identity: "market:symbol" when the row carries a market
+ */
+export function scannerRowKey(row: ScannerRow<string>): string {
+  return row.market ? `${row.market}:${row.symbol}` : row.symbol;
+}
+
+function keyFunction(
+  key: DiffOptions['key']
+): (row: ScannerRow<string>) => string {
+  if (typeof key === 'function') return key;
+  if (typeof key === 'string') {
+    return (row) => String((row as Record<string, unknown>)[key]);
+  }
+  return scannerRowKey;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => isEqual(v, b[i]));
+  }
+  return false;
+}
+
+function compareField(
+  field: string,
+  before: unknown,
+  after: unknown
+): FieldDiff {
+  const diff: FieldDiff = { field, before, after };
+  if (typeof before === 'number' && typeof after === 'number') {
+    diff.delta = after - before;
+    if (before !== 0) {
+      diff.pctChange = (diff.delta / Math.abs(before)) * 100;
+    }
+  }
+  return diff;
+}
+
+/**
+ * Compare two results of the same query
+ * @param before - Earlier snapshot
+ * @param after - Later snapshot
+ * @param options - Row key and fields to compare
+ * @returns Added and removed rows, and rank/field changes of rows in both
+ */
+export function diffScannerData<C extends string>(
+  before: ScannerData<C>,
+  after: ScannerData<C>,
+  options: DiffOptions = {}
+): ScannerDataDiff<C> {
+  const keyOf = keyFunction(options.key);
+  const index = (data: ScannerData<C>) => {
+    const entries = new Map<string, DiffEntry<C>>();
+    data.data.forEach((row, i) => {
+      const key = keyOf(row);
+      if (!entries.has(key)) {
+        entries.set(key, { key, rank: i + 1, row });
+      }
+    });
+    return entries;
+  };
+  const previous = index(before);
+  const current = index(after);
+
+  const diff: ScannerDataDiff<C> = {
+    added: [],
+    removed: [],
+    changed: [],
+    unchanged: 0,
+    totalCount: { before: before.totalCount, after: after.totalCount },
+  };
+
+  for (const [key, entry] of current) {
+    const old = previous.get(key);
+    if (!old) {
+      diff.added.push(entry);
+      continue;
+    }
+
+    const oldRow = old.row as Record<string, unknown>;
+    const newRow = entry.row as Record<string, unknown>;
+    const fields =
+      options.fields ??
+      [...new Set([...Object.keys(oldRow), ...Object.keys(newRow)])].filter(
+        (field) => field !== 'symbol' && field !== 'market'
+      );
+    const changes = fields
+      .filter((field) => !isEqual(oldRow[field], newRow[field]))
+      .map((field) => compareField(field, oldRow[field], newRow[field]));
+
+    if (changes.length === 0 && old.rank === entry.rank) {
+      diff.unchanged++;
+      continue;
+    }
+    diff.changed.push({
+      key,
+      rankBefore: old.rank,
+      rankAfter: entry.rank,
+      rankChange: old.rank - entry.rank,
+      fields: changes,
+      before: old.row,
+      after: entry.row,
+    });
+  }
+
+  for (const [key, entry] of previous) {
+    if (!current.has(key)) {
+      diff.removed.push(entry);
+    }
+  }
+  return diff;
+}
+
+/**
+ * Flatten a diff into one row per added, removed or changed symbol, for
+ * the exporters. Each field gets `<field>` (latest value), `<field>_delta`
+ * and `<field>_pct` columns.
+ * @param diff - Result of diffScannerData
+ * @param fields - Fields to include (default: every field that changed)
+ */
+export function diffToRows(
+  diff: ScannerDataDiff<string>,
+  fields: string[] = [
+    ...new Set(diff.changed.flatMap((row) => row.fields.map((f) => f.field))),
+  ]
+): Record<string, unknown>[] {
+  const row = (
+    change: 'added' | 'removed' | 'changed',
+    key: string,
+    source: ScannerRow<string>,
+    rankBefore: number | null,
+    rankAfter: number | null,
+    changes: FieldDiff[] = []
+  ): Record<string, unknown> => {
+    const values: Record<string, unknown> = {
+      change,
+      key,
+      symbol: source.symbol,
+      rank_before: rankBefore,
+      rank_after: rankAfter,
+      rank_change:
+        rankBefore !== null && rankAfter !== null
+          ? rankBefore - rankAfter
+          : null,
+    };
+    for (const field of fields) {
+      const fieldDiff = changes.find((c) => c.field === field);
+      values[field] = (source as Record<string, unknown>)[field] ?? null;
+      values[`${field}_delta`] = fieldDiff?.delta ?? null;
+      values[`${field}_pct`] = fieldDiff?.pctChange ?? null;
+    }
+    return values;
+  };
+
+  return [
+    ...diff.added.map((e) => row('added', e.key, e.row, null, e.rank)),
+    ...diff.removed.map((e) => row('removed', e.key, e.row, e.rank, null)),
+    ...diff.changed.map((c) =>
+      row('changed', c.key, c.after, c.rankBefore, c.rankAfter, c.fields)
+    ),
+  ];
+}
@@ -0,0 +1,162 @@
+/**
+ * Error types raised when a screener request fails
+ */
+
+import { QueryDict } from './models';
+
+/**
+ * Details recorded for a failed request
+ */
+export interface ApiErrorDetails {
+  /** HTTP status, if a response was received */
+  status?: number;
+  /** Raw response body, if one was received */
+  body?: string;
+  /** Query payload that was sent */
+  queryDict?: QueryDict;
+  /** Request URL */
+  url?: string;
+  /** Underlying error (network failures, timeouts) */
+  cause?: unknown;
+}
+
+/**
+ * Base class for all TradingView API errors
+ */
+export class TradingViewApiError extends Error {
+  readonly status?: number;
+  readonly body?: string;
+  readonly queryDict?: QueryDict;
+  readonly url?: string;
+  readonly cause?: unknown;
+
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.status = details.status;
+    this.body = details.body;
+    this.queryDict = details.queryDict;
+    this.url = details.url;
+    this.cause = details.cause;
+  }
+
+  /**
+   * Whether retrying the same request may succeed
+   */
+  get retryable(): boolean {
+    return false;
+  }
+}
+
+/**
+ * 400: malformed query, unknown field or invalid operation
+ */
+export class BadRequestError extends TradingViewApiError {}
+
+/**
+ * 401/403: missing, invalid or expired session
+ */
+export class AuthError extends TradingViewApiError {}
+
+/**
+ * 429: too many requests
+ */
+export class RateLimitError extends TradingViewApiError {
+  /** Delay requested by the server, in milliseconds */
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    details: ApiErrorDetails = {},
+    retryAfterMs?: number
+  ) {
+    super(message, details);
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+/**
+ * 5xx: TradingView server failure
+ */
+export class ServerError extends TradingViewApiError {
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+/**
+ * Request never produced a response (connection failure or timeout)
+ */
+export class NetworkError extends TradingViewApiError {
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+/**
+ * Request was aborted after exceeding the configured timeout
+ */
+export class TimeoutError extends NetworkError {}
+
+/**
+ * 2xx response whose body is not valid JSON, e.g. an HTML maintenance page
+ * or a truncated body. `status` and `body` hold what was received.
+ */
+export class InvalidResponseError extends TradingViewApiError {}
+
+/**
+ * Extract TradingView's error message from a response body.
+ * Error responses are usually JSON of the form {"error": "..."}.
+ */
+function extractErrorMessage(body: string): string | undefined {
+  try {
+    const parsed = JSON.parse(body);
+    if (parsed && typeof parsed.error === 'string') {
+      return parsed.error;
+    }
+  } catch {
+    // Not JSON - fall through to the raw body
+  }
+  const trimmed = body.trim();
+  return trimmed ? trimmed.slice(0, 500) : undefined;
+}
+
+/**
+ * Build the error matching an HTTP error response
+ * @param status - HTTP status code
+ * @param statusText - HTTP status text
+ * @param details - Body, query and URL of the failed request
+ * @param retryAfterMs - Parsed Retry-After header, if any
+ */
+export function createApiError(
+  status: number,
+  statusText: string,
+  details: ApiErrorDetails = {},
+  retryAfterMs?: number
+): TradingViewApiError {
+  const serverMessage = details.body
+    ? extractErrorMessage(details.body)
+    : undefined;
+  const message =
+    `TradingView API request failed: ${status} ${statusText}` +
+    (serverMessage ? ` - ${serverMessage}` : '');
+  const allDetails = { ...details, status };
+
+  if (status === 400 || status === 404 || status === 422) {
+    return new BadRequestError(message, allDetails);
+  }
+  if (status === 401 || status === 403) {
+    return new AuthError(message, allDetails);
+  }
+  if (status === 429) {
+    return new RateLimitError(message, allDetails, retryAfterMs);
+  }
+  if (status >= 500) {
+    return new ServerError(message, allDetails);
+  }
+  return new TradingViewApiError(message, allDetails);
+}
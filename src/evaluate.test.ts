@@ -0,0 +1,109 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FilterEvaluationError, evaluate, filterRows } from './evaluate';
+import { col } from './column';
+import { And, Not, Or } from './operators';
+
+const row = {
+  name: 'AAPL',
+  close: 190,
+  open: 180,
+  volume: 5e7,
+  sector: 'Electronic Technology',
+  SMA50: 200,
+  RSI: null,
+  typespecs: ['common'],
+};
+
+describe('evaluate', () => {
+  it('compares against literals and other columns', () => {
+    assert.equal(evaluate(col('close').gt(100), row), true);
+    assert.equal(evaluate(col('close').gt(col('SMA50')), row), false);
+    assert.equal(evaluate(col('close').gte(190), row), true);
+    assert.equal(evaluate(col('sector').eq('Finance'), row), false);
+  });
+
+  it('treats inherited property names as literals', () => {
+    const described = { ...row, description: 'toString' };
+
+    assert.equal(evaluate(col('description').eq('toString'), described), true);
+    assert.equal(evaluate(col('name').eq('constructor'), row), false);
+  });
+
+  it('fails comparisons on null values', () => {
+    assert.equal(evaluate(col('RSI').lt(30), row), false);
+    assert.equal(evaluate(col('RSI').gte(30), row), false);
+    assert.equal(evaluate(col('RSI').empty(), row), true);
+    assert.equal(evaluate(col('close').notEmpty(), row), true);
+  });
+
+  it('handles ranges, sets and patterns', () => {
+    assert.equal(evaluate(col('close').between(150, 200), row), true);
+    assert.equal(evaluate(col('close').notBetween(150, 200), row), false);
+    assert.equal(evaluate(col('sector').isin(['Finance']), row), false);
+    assert.equal(evaluate(col('typespecs').has(['common']), row), true);
+    assert.equal(evaluate(col('name').like('aa%'), row), true);
+    assert.equal(evaluate(col('name').notLike('PL'), row), false);
+  });
+
+  it('scales percentage operands', () => {
+    // 190 is 5.6% above open (180)
+    assert.equal(evaluate(col('close').abovePct(col('open'), 1.05), row), true);
+    assert.equal(evaluate(col('close').abovePct(col('open'), 1.1), row), false);
+    assert.equal(evaluate(col('close').belowPct(col('SMA50'), 1), row), true);
+  });
+
+  it('evaluates And/Or/Not trees and filter lists', () => {
+    const tree = Or(
+      And(col('close').gt(1000), col('volume').gt(0)),
+      Not(col('sector').eq('Finance'))
+    );
+    assert.equal(evaluate(tree, row), true);
+    assert.equal(evaluate([col('close').gt(100), col('RSI').lt(30)], row), false);
+  });
+
+  it('needs the previous bar for crossings', () => {
+    const filter = col('close').crossesAbove(col('SMA50'));
+    assert.throws(() => evaluate(filter, row), FilterEvaluationError);
+    assert.equal(
+      evaluate(filter, { close: 205, SMA50: 200 }, { previous: row }),
+      true
+    );
+    assert.equal(
+      evaluate(filter, { close: 195, SMA50: 200 }, { previous: row }),
+      false
+    );
+  });
+
+  it('computes day ranges from now in UTC', () => {
+    const now = new Date('2024-03-15T12:00:00Z');
+    const yesterday = Date.parse('2024-03-14T20:00:00Z') / 1000;
+    const filter = col('earnings_release_date').inDayRange(-1, 0);
+    assert.equal(
+      evaluate(filter, { earnings_release_date: yesterday }, { now }),
+      true
+    );
+    assert.equal(
+      evaluate(
+        col('earnings_release_date').inDayRange(0, 0),
+        { earnings_release_date: yesterday },
+        { now }
+      ),
+      false
+    );
+  });
+});
+
+describe('filterRows', () => {
+  it('keeps matching rows in order', () => {
+    const rows = [
+      { name: 'A', close: 5 },
+      { name: 'B', close: 50 },
+      { name: 'C', close: 500 },
+    ];
+    assert.deepEqual(
+      filterRows(col('close').gt(10), rows).map((r) => r.name),
+      ['B', 'C']
+    );
+  });
+});
@@ -0,0 +1,393 @@
+/**
+ * Local evaluation of filters against rows already in memory
+ * Applies the same FilterOperationDict/OperationDict structures sent to
+ * the scanner to cached results, fixtures or post-filtered data.
+ *
+ * Where the scanner's behavior is not documented, the evaluator follows
+ * these rules, which may differ from TradingView in edge cases:
+ * - A string operand that names a key of the row is a column reference;
+ *   any other string is a literal. The scanner resolves against its own
+ *   field list, so a column missing from the row is compared as text.
+ * - Null/undefined values fail every comparison except `empty`,
+ *   `nempty` and `has_none_of`.
+ * - Day/week/month ranges are computed in UTC from `now`; the scanner
+ *   uses the exchange's time zone. Weeks start on Monday.
+ * - `match` is case-insensitive. `%` and `*` match any run of
+ *   characters and `_` a single one; a pattern without wildcards matches
+ *   anywhere in the value.
+ * - `crosses*` need the previous bar's values, passed as `previous`.
+ */
+
+import {
+  FilterOperationDict,
+  OperationDict,
+  ExpressionDict,
+  FilterScalar,
+  FilterValue,
+} from './models';
+
+/**
+ * A row to evaluate filters against, keyed by column name
+ */
+export type EvaluationRow = Record<string, any>;
+
+/**
+ * Evaluation options
+ */
+export interface EvaluateOptions {
+  /** Reference time for day/week/month ranges (default: now) */
+  now?: Date;
+  /** Previous bar's values, required by crosses/crosses_above/crosses_below */
+  previous?: EvaluationRow;
+}
+
+/**
+ * Thrown when a filter cannot be evaluated locally
+ */
+export class FilterEvaluationError extends Error {
+  readonly filter: FilterOperationDict;
+
+  constructor(filter: FilterOperationDict, message: string) {
+    super(`${filter.left} ${filter.operation}: ${message}`);
+    this.name = 'FilterEvaluationError';
+    this.filter = filter;
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isOperationDict(
+  filter: FilterOperationDict | OperationDict | ExpressionDict
+): filter is OperationDict {
+  return (
+    'operation' in filter &&
+    typeof filter.operation === 'object' &&
+    filter.operation !== null
+  );
+}
+
+function isNull(value: unknown): value is null | undefined {
+  return (
+    value === null ||
+    value === undefined ||
+    (typeof value === 'number' && Number.isNaN(value))
+  );
+}
+
+/**
+ * Resolve an operand: names of the row's own keys are column references,
+ * so literals such as "constructor" are not taken from the prototype
+ */
+function resolve(operand: FilterScalar, row: EvaluationRow): unknown {
+  if (
+    typeof operand === 'string' &&
+    Object.prototype.hasOwnProperty.call(row, operand)
+  ) {
+    return row[operand];
+  }
+  return operand;
+}
+
+/**
+ * Numbers and timestamps compare as numbers; Dates as epoch seconds
+ */
+function toComparable(value: unknown): unknown {
+  return value instanceof Date ? value.getTime() / 1000 : value;
+}
+
+function compare(a: unknown, b: unknown): number | undefined {
+  const x = toComparable(a);
+  const y = toComparable(b);
+  if (isNull(x) || isNull(y)) return undefined;
+  if (typeof x === 'number' && typeof y === 'number') return x - y;
+  if (typeof x === 'string' && typeof y === 'string') {
+    return x < y ? -1 : x > y ? 1 : 0;
+  }
+  if (typeof x === typeof y) return x === y ? 0 : undefined;
+  return undefined;
+}
+
+function pair(filter: FilterOperationDict): FilterScalar[] {
+  const right = filter.right;
+  if (!Array.isArray(right) || right.length < 2) {
+    throw new FilterEvaluationError(filter, 'expected a [min, max] pair');
+  }
+  return right;
+}
+
+function inRange(
+  value: unknown,
+  min: unknown,
+  max: unknown
+): boolean | undefined {
+  const lower = compare(value, min);
+  const upper = compare(value, max);
+  if (lower === undefined || upper === undefined) return undefined;
+  return lower >= 0 && upper <= 0;
+}
+
+/**
+ * Whole calendar periods between `now` and a timestamp, in UTC
+ */
+function periodOffset(
+  value: unknown,
+  unit: 'day' | 'week' | 'month',
+  now: Date
+): number | undefined {
+  const seconds = toComparable(value);
+  if (typeof seconds !== 'number' || Number.isNaN(seconds)) return undefined;
+  const date = new Date(seconds * 1000);
+
+  if (unit === 'month') {
+    return (
+      (date.getUTCFullYear() - now.getUTCFullYear()) * 12 +
+      date.getUTCMonth() -
+      now.getUTCMonth()
+    );
+  }
+  const startOfDay = (d: Date) =>
+    Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
+  const days = Math.round((startOfDay(date) - startOfDay(now)) / DAY_MS);
+  if (unit === 'day') return days;
+
+  const weekday = (now.getUTCDay() + 6) % 7; // Monday = 0
+  return Math.floor((days + weekday) / 7);
+}
+
+/**
+ * Translate a `match` pattern into a case-insensitive regular expression
+ */
+function matchPattern(pattern: string): RegExp {
+  const hasWildcard = /[%*_]/.test(pattern);
+  const body = pattern
+    .split('')
+    .map((ch) => {
+      if (ch === '%' || ch === '*') return '.*';
+      if (ch === '_') return '.';
+      return ch.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(hasWildcard ? `^${body}$` : body, 'is');
+}
+
+/**
+ * Percentage comparison operands: [column, pct] scales the referenced
+ * value; a bare operand compares against the value itself
+ */
+function pctThreshold(
+  filter: FilterOperationDict,
+  row: EvaluationRow
+): number | undefined {
+  const right = filter.right as FilterValue;
+  const [ref, pct] = Array.isArray(right) ? right : [right, 1];
+  const base = toComparable(resolve(ref, row));
+  if (typeof base !== 'number' || typeof pct !== 'number') return undefined;
+  return base * pct;
+}
+
+/**
+ * in_range_pct/not_in_range_pct operands: [column, lowPct, highPct]
+ * scales the referenced value; [min, max] treats the field itself as a
+ * percentage
+ */
+function pctRange(
+  filter: FilterOperationDict,
+  row: EvaluationRow
+): [unknown, unknown] {
+  const right = pair(filter);
+  if (right.length >= 3) {
+    const base = toComparable(resolve(right[0], row));
+    if (
+      typeof base !== 'number' ||
+      typeof right[1] !== 'number' ||
+      typeof right[2] !== 'number'
+    ) {
+      return [undefined, undefined];
+    }
+    const bounds = [base * right[1], base * right[2]];
+    return [Math.min(...bounds), Math.max(...bounds)];
+  }
+  return [resolve(right[0], row), resolve(right[1], row)];
+}
+
+function crossing(
+  filter: FilterOperationDict,
+  row: EvaluationRow,
+  options: EvaluateOptions
+): { before: number; after: number } | undefined {
+  if (!options.previous) {
+    throw new FilterEvaluationError(
+      filter,
+      'crossing filters need the previous bar, pass it as options.previous'
+    );
+  }
+  const right = filter.right as FilterScalar;
+  const after = compare(row[filter.left], resolve(right, row));
+  const before = compare(
+    options.previous[filter.left],
+    resolve(right, options.previous)
+  );
+  if (after === undefined || before === undefined) return undefined;
+  return { before, after };
+}
+
+/**
+ * Evaluate a single filter expression against a row
+ */
+function evaluateExpression(
+  filter: FilterOperationDict,
+  row: EvaluationRow,
+  options: EvaluateOptions
+): boolean {
+  const value = row[filter.left];
+  const right = filter.right;
+  const now = options.now ?? new Date();
+
+  switch (filter.operation) {
+    case 'empty':
+      return isNull(value);
+    case 'nempty':
+      return !isNull(value);
+
+    case 'greater':
+    case 'egreater':
+    case 'less':
+    case 'eless':
+    case 'equal':
+    case 'nequal': {
+      if (Array.isArray(right) || right === undefined) {
+        throw new FilterEvaluationError(filter, 'expected a single value');
+      }
+      const diff = compare(value, resolve(right, row));
+      if (diff === undefined) return false;
+      switch (filter.operation) {
+        case 'greater':
+          return diff > 0;
+        case 'egreater':
+          return diff >= 0;
+        case 'less':
+          return diff < 0;
+        case 'eless':
+          return diff <= 0;
+        case 'equal':
+          return diff === 0;
+        default:
+          return diff !== 0;
+      }
+    }
+
+    case 'in_range':
+    case 'not_in_range': {
+      const [min, max] = pair(filter);
+      const result = inRange(value, resolve(min, row), resolve(max, row));
+      if (result === undefined) return false;
+      return filter.operation === 'in_range' ? result : !result;
+    }
+
+    case 'in_day_range':
+    case 'in_week_range':
+    case 'in_month_range': {
+      const [min, max] = pair(filter);
+      const unit =
+        filter.operation === 'in_day_range'
+          ? 'day'
+          : filter.operation === 'in_week_range'
+            ? 'week'
+            : 'month';
+      const offset = periodOffset(value, unit, now);
+      return offset !== undefined && inRange(offset, min, max) === true;
+    }
+
+    case 'above_pct':
+    case 'below_pct': {
+      const threshold = pctThreshold(filter, row);
+      const diff = compare(value, threshold);
+      if (diff === undefined) return false;
+      return filter.operation === 'above_pct' ? diff > 0 : diff < 0;
+    }
+
+    case 'in_range_pct':
+    case 'not_in_range_pct': {
+      const [min, max] = pctRange(filter, row);
+      const result = inRange(value, min, max);
+      if (result === undefined) return false;
+      return filter.operation === 'in_range_pct' ? result : !result;
+    }
+
+    case 'crosses':
+    case 'crosses_above':
+    case 'crosses_below': {
+      const cross = crossing(filter, row, options);
+      if (!cross) return false;
+      const above = cross.before <= 0 && cross.after > 0;
+      const below = cross.before >= 0 && cross.after < 0;
+      if (filter.operation === 'crosses_above') return above;
+      if (filter.operation === 'crosses_below') return below;
+      return above || below;
+    }
+
+    case 'match':
+    case 'nmatch': {
+      if (typeof right !== 'string') {
+        throw new FilterEvaluationError(filter, 'expected a string pattern');
+      }
+      if (isNull(value)) return false;
+      const pattern = matchPattern(right);
+      const values = Array.isArray(value) ? value : [value];
+      const matched = values.some((v) => pattern.test(String(v)));
+      return filter.operation === 'match' ? matched : !matched;
+    }
+
+    case 'has':
+    case 'has_none_of': {
+      const wanted = Array.isArray(right) ? right : [right];
+      const values = isNull(value) ? [] : Array.isArray(value) ? value : [value];
+      const found = values.some((v) => wanted.includes(v));
+      return filter.operation === 'has' ? found : !found;
+    }
+
+    default:
+      throw new FilterEvaluationError(filter, 'unknown operation');
+  }
+}
+
+/**
+ * Evaluate a filter against a row
+ * @param filter - Expression from `col()`, an And/Or tree, or a list of
+ *   expressions combined with AND (like `QueryDict.filter`)
+ * @param row - Values keyed by column name, e.g. a ScannerData row
+ * @param options - Reference time and previous bar values
+ * @returns Whether the row passes the filter
+ * @throws FilterEvaluationError for malformed filters, or crossing
+ *   filters without `options.previous`
+ */
+export function evaluate(
+  filter: FilterOperationDict | OperationDict | FilterOperationDict[],
+  row: EvaluationRow,
+  options: EvaluateOptions = {}
+): boolean {
+  if (Array.isArray(filter)) {
+    return filter.every((expr) => evaluateExpression(expr, row, options));
+  }
+  if (!isOperationDict(filter)) {
+    return evaluateExpression(filter, row, options);
+  }
+
+  const { operator, operands } = filter.operation;
+  const test = (operand: ExpressionDict | OperationDict) =>
+    'expression' in operand
+      ? evaluateExpression(operand.expression, row, options)
+      : evaluate(operand, row, options);
+  return operator === 'or' ? operands.some(test) : operands.every(test);
+}
+
+/**
+ * Keep the rows that pass a filter
+ */
+export function filterRows<R extends EvaluationRow>(
+  filter: FilterOperationDict | OperationDict | FilterOperationDict[],
+  rows: R[],
+  options: EvaluateOptions = {}
+): R[] {
+  return rows.filter((row) => evaluate(filter, row, options));
+}
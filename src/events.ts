@@ -0,0 +1,43 @@
+/**
+ * Typed event emitter
+ * Narrows EventEmitter's on/once/off/emit to an interface mapping each
+ * event name to its listener arguments.
+ */
+
+import { EventEmitter } from 'events';
+
+/**
+ * EventEmitter whose events are described by `Events`, e.g.
+ * `{ degraded: [change: SessionStatusChange] }`
+ */
+export class TypedEmitter<
+  Events extends { [E in keyof Events]: unknown[] }
+> extends EventEmitter {
+  on<E extends keyof Events & string>(
+    event: E,
+    listener: (...args: Events[E]) => void
+  ): this {
+    return super.on(event, listener as (...args: any[]) => void);
+  }
+
+  once<E extends keyof Events & string>(
+    event: E,
+    listener: (...args: Events[E]) => void
+  ): this {
+    return super.once(event, listener as (...args: any[]) => void);
+  }
+
+  off<E extends keyof Events & string>(
+    event: E,
+    listener: (...args: Events[E]) => void
+  ): this {
+    return super.off(event, listener as (...args: any[]) => void);
+  }
+
+  emit<E extends keyof Events & string>(
+    event: E,
+    ...args: Events[E]
+  ): boolean {
+    return super.emit(event, ...args);
+  }
+}
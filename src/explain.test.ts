@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { explainFilter } from './explain';
+import { parseFilterExpression } from './expression';
+import { col } from './column';
+import { FilterOperationDict } from './models';
+
+/**
+ * Render a filter and parse the text back
+ */
+function roundTrip(filter: FilterOperationDict) {
+  const text = explainFilter(filter);
+  assert.deepEqual(parseFilterExpression(text), filter, text);
+  return text;
+}
+
+describe('explainFilter', () => {
+  it('renders comparisons and ranges that parse back', () => {
+    roundTrip(col('close').gt(col('SMA50')));
+    roundTrip(col('sector').eq('Finance'));
+    roundTrip(col('close').between(5, 50));
+    roundTrip(col('close').abovePct(col('VWAP'), 1.03));
+  });
+
+  it('keeps every operand of column percentage ranges', () => {
+    assert.equal(
+      roundTrip(col('close').betweenPct(col('SMA50'), 0.95, 1.05)),
+      'close BETWEEN_PCT (SMA50, 0.95, 1.05)'
+    );
+    assert.equal(
+      roundTrip(col('close').notBetweenPct(col('SMA50'), 0.9, 1.1)),
+      'close NOT BETWEEN_PCT (SMA50, 0.9, 1.1)'
+    );
+    roundTrip(col('change').betweenPct(-5, 5));
+  });
+
+  it('writes names that are not plain words in backticks', () => {
+    assert.equal(
+      roundTrip(col('ADX+DI').gt(col('ADX-DI'))),
+      '`ADX+DI` > `ADX-DI`'
+    );
+    assert.equal(
+      roundTrip(col('24h_vol|5').gt(1e6)),
+      '`24h_vol|5` > 1000000'
+    );
+    roundTrip(col('ADX+DI|15').crossesAbove(col('ADX-DI|15')));
+    roundTrip(col('sector').eq('ADX+DI'));
+  });
+});
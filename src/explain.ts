@@ -0,0 +1,229 @@
+/**
+ * SQL-like rendering of queries for logs and code review
+ * Filters are written in the text expression syntax, so a filter's text
+ * can be pasted back into `whereExpr()`; field names that are not plain
+ * words are written in backticks (`` `ADX+DI` ``). Symbol restrictions
+ * (tickers, index groups, symbol types, watchlists) appear as extra WHERE
+ * conditions on pseudo-fields such as `symbol` and `index`.
+ */
+
+import {
+  QueryDict,
+  FilterOperationDict,
+  OperationDict,
+  FilterScalar,
+  FilterValue,
+} from './models';
+import { FieldCatalog, defaultCatalog } from './fields';
+import { formatFieldName } from './expression';
+
+/**
+ * Rendering options
+ */
+export interface ExplainOptions {
+  /** Put each clause and top-level condition on its own line */
+  multiline?: boolean;
+  /** Catalog used to tell column references from text (default: bundled) */
+  catalog?: FieldCatalog;
+}
+
+const COMPARISONS: Record<string, string> = {
+  greater: '>',
+  egreater: '>=',
+  less: '<',
+  eless: '<=',
+  equal: '=',
+  nequal: '!=',
+};
+
+/**
+ * Render a right-hand operand. Strings naming a known field are column
+ * references and are written as field names; any other string is quoted.
+ */
+function formatScalar(value: FilterScalar, catalog: FieldCatalog): string {
+  if (typeof value !== 'string') {
+    return String(value);
+  }
+  const [base, suffix] = value.split('|');
+  if (
+    catalog.get(value)?.name === value ||
+    (catalog.has(base) && /^\d+[WM]?$/.test(suffix ?? ''))
+  ) {
+    return formatFieldName(value);
+  }
+  return JSON.stringify(value);
+}
+
+function formatList(values: FilterValue, catalog: FieldCatalog): string {
+  const list = Array.isArray(values) ? values : [values];
+  return `(${list.map((v) => formatScalar(v, catalog)).join(', ')})`;
+}
+
+function formatPair(
+  values: FilterValue | undefined,
+  catalog: FieldCatalog
+): string {
+  // [column, minPct, maxPct] percentage ranges
+  if (Array.isArray(values) && values.length > 2) {
+    return formatList(values, catalog);
+  }
+  const [min, max] = Array.isArray(values) ? values : [values, values];
+  return `${formatScalar(min as FilterScalar, catalog)} AND ${formatScalar(
+    max as FilterScalar,
+    catalog
+  )}`;
+}
+
+/**
+ * Render a single filter expression
+ */
+export function explainFilter(
+  expr: FilterOperationDict,
+  catalog: FieldCatalog = defaultCatalog
+): string {
+  const { operation, right } = expr;
+  const left = formatFieldName(expr.left);
+  const value = () =>
+    Array.isArray(right)
+      ? formatList(right, catalog)
+      : formatScalar(right as FilterScalar, catalog);
+
+  if (operation in COMPARISONS) {
+    return `${left} ${COMPARISONS[operation]} ${value()}`;
+  }
+  switch (operation) {
+    case 'in_range':
+      return `${left} BETWEEN ${formatPair(right, catalog)}`;
+    case 'not_in_range':
+      return `${left} NOT BETWEEN ${formatPair(right, catalog)}`;
+    case 'in_range_pct':
+      return `${left} BETWEEN_PCT ${formatPair(right, catalog)}`;
+    case 'not_in_range_pct':
+      return `${left} NOT BETWEEN_PCT ${formatPair(right, catalog)}`;
+    case 'has':
+      return `${left} IN ${formatList(right ?? [], catalog)}`;
+    case 'has_none_of':
+      return `${left} NOT IN ${formatList(right ?? [], catalog)}`;
+    case 'match':
+      return `${left} LIKE ${JSON.stringify(String(right))}`;
+    case 'nmatch':
+      return `${left} NOT LIKE ${JSON.stringify(String(right))}`;
+    case 'empty':
+      return `${left} IS NULL`;
+    case 'nempty':
+      return `${left} IS NOT NULL`;
+    case 'in_day_range':
+    case 'in_week_range':
+    case 'in_month_range':
+      return `${left} ${operation.toUpperCase()} ${formatPair(
+        right,
+        catalog
+      )}`;
+    default:
+      return `${left} ${operation.toUpperCase()} ${value()}`;
+  }
+}
+
+/**
+ * Render an And/Or tree. Nested groups are parenthesized whenever they
+ * switch operator, even where precedence would make it optional.
+ */
+export function explainOperation(
+  op: OperationDict,
+  catalog: FieldCatalog = defaultCatalog
+): string {
+  const { operator, operands } = op.operation;
+  const parts = operands.map((operand) => {
+    if ('expression' in operand) {
+      return explainFilter(operand.expression, catalog);
+    }
+    const inner = explainOperation(operand, catalog);
+    return operand.operation.operator !== operator &&
+      operand.operation.operands.length > 1
+      ? `(${inner})`
+      : inner;
+  });
+  return parts.join(` ${operator.toUpperCase()} `);
+}
+
+/**
+ * Conditions from the symbols restriction, preset and flat filter list
+ */
+function flatConditions(
+  queryDict: QueryDict,
+  catalog: FieldCatalog
+): string[] {
+  const symbols = queryDict.symbols ?? {};
+  const conditions: string[] = [];
+  const list = (values: string[]) =>
+    `(${values.map((v) => JSON.stringify(v)).join(', ')})`;
+
+  if (symbols.tickers?.length) {
+    conditions.push(`symbol IN ${list(symbols.tickers)}`);
+  }
+  if (symbols.query?.types?.length) {
+    conditions.push(`type IN ${list(symbols.query.types)}`);
+  }
+  for (const group of symbols.groups ?? []) {
+    conditions.push(`${group.type} IN ${list(group.values)}`);
+  }
+  if (symbols.symbolset) {
+    conditions.push(`symbolset = ${JSON.stringify(symbols.symbolset)}`);
+  }
+  if (symbols.watchlist) {
+    conditions.push(`watchlist = ${JSON.stringify(symbols.watchlist.id)}`);
+  }
+  if (queryDict.preset) {
+    conditions.push(`preset = ${JSON.stringify(queryDict.preset)}`);
+  }
+  for (const expr of queryDict.filter ?? []) {
+    conditions.push(explainFilter(expr, catalog));
+  }
+  return conditions;
+}
+
+/**
+ * Render a QueryDict as SQL-like text, e.g.
+ * `SELECT name, close FROM america WHERE volume > 1000000 ORDER BY volume
+ * DESC LIMIT 25 OFFSET 10`
+ */
+export function explainQueryDict(
+  queryDict: QueryDict,
+  options: ExplainOptions = {}
+): string {
+  const catalog = options.catalog ?? defaultCatalog;
+  const clauses: string[] = [];
+
+  const columns = (queryDict.columns ?? []).map(formatFieldName);
+  clauses.push(`SELECT ${columns.join(', ') || '*'}`);
+  clauses.push(`FROM ${(queryDict.markets ?? ['america']).join(', ')}`);
+
+  const conditions = flatConditions(queryDict, catalog);
+  if (queryDict.filter2) {
+    const tree = explainOperation(queryDict.filter2, catalog);
+    const isOr =
+      queryDict.filter2.operation.operator === 'or' &&
+      queryDict.filter2.operation.operands.length > 1;
+    conditions.push(isOr && conditions.length > 0 ? `(${tree})` : tree);
+  }
+  if (conditions.length > 0) {
+    const separator = options.multiline ? '\n  AND ' : ' AND ';
+    clauses.push(`WHERE ${conditions.join(separator)}`);
+  }
+
+  if (queryDict.sort) {
+    const { sortBy, sortOrder, nullsFirst } = queryDict.sort;
+    clauses.push(
+      `ORDER BY ${formatFieldName(sortBy)} ${sortOrder.toUpperCase()}` +
+        (nullsFirst ? ' NULLS FIRST' : '')
+    );
+  }
+  if (queryDict.range) {
+    const [start, end] = queryDict.range;
+    clauses.push(
+      `LIMIT ${end - start}` + (start > 0 ? ` OFFSET ${start}` : '')
+    );
+  }
+
+  return clauses.join(options.multiline ? '\n' : ' ');
+}
@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { toCsv, toMarkdown, toNdjson, toTable } from './export';
+
+const rows = [
+  { symbol: 'NASDAQ:AAPL', name: 'Apple, Inc.', close: 190.5, volume: 1e6 },
+  { symbol: 'NYSE:KO', name: 'Say "cheese"', close: 61, volume: null },
+];
+
+describe('toCsv', () => {
+  it('quotes delimiters, quotes and line breaks', async () => {
+    const csv = await toCsv([
+      ...rows,
+      { symbol: 'NYSE:T', name: 'two\nlines', close: 17, volume: 5 },
+    ]);
+
+    assert.equal(
+      csv,
+      'symbol,name,close,volume\r\n' +
+        'NASDAQ:AAPL,"Apple, Inc.",190.5,1000000\r\n' +
+        'NYSE:KO,"Say ""cheese""",61,\r\n' +
+        'NYSE:T,"two\nlines",17,5\r\n'
+    );
+  });
+
+  it('applies columns, headers, formats and delimiters', async () => {
+    const csv = await toCsv(
+      { totalCount: 2, data: rows },
+      {
+        columns: ['symbol', 'close'],
+        headers: { close: 'Close; USD' },
+        formats: { close: { type: 'number', decimals: 1 } },
+        delimiter: ';',
+        lineEnding: '\n',
+      }
+    );
+
+    assert.equal(
+      csv,
+      'symbol;"Close; USD"\nNASDAQ:AAPL;190.5\nNYSE:KO;61.0\n'
+    );
+  });
+});
+
+describe('toNdjson', () => {
+  it('keeps JSON types and fills missing columns with null', async () => {
+    const ndjson = await toNdjson(rows, { columns: ['close', 'volume', 'pe'] });
+
+    assert.equal(
+      ndjson,
+      '{"close":190.5,"volume":1000000,"pe":null}\n' +
+        '{"close":61,"volume":null,"pe":null}\n'
+    );
+  });
+
+  it('streams async iterables', async () => {
+    async function* source() {
+      yield { symbol: 'NASDAQ:AAPL' };
+      yield { symbol: 'NYSE:KO' };
+    }
+
+    assert.equal(
+      await toNdjson(source()),
+      '{"symbol":"NASDAQ:AAPL"}\n{"symbol":"NYSE:KO"}\n'
+    );
+  });
+});
+
+describe('toTable', () => {
+  it('aligns columns and right-aligns numbers', async () => {
+    const table = await toTable(rows, { columns: ['symbol', 'close'] });
+
+    assert.equal(
+      table,
+      'symbol       close\n' +
+        '-----------  -----\n' +
+        'NASDAQ:AAPL  190.5\n' +
+        'NYSE:KO         61\n'
+    );
+  });
+
+  it('renders nothing without rows', async () => {
+    assert.equal(await toTable([]), '');
+  });
+});
+
+describe('toMarkdown', () => {
+  it('escapes pipes and line breaks', async () => {
+    const markdown = await toMarkdown([{ name: 'a|b\nc' }]);
+
+    assert.equal(markdown, '| name |\n| --- |\n| a\\|b<br>c |\n');
+  });
+});
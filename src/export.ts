@@ -0,0 +1,398 @@
+/**
+ * Result exporters: CSV, NDJSON, Markdown and aligned console tables
+ * Each format can be rendered to a string or streamed to a Node Writable.
+ */
+
+import { once } from 'events';
+import { Writable } from 'stream';
+import { ScannerData } from './models';
+
+/**
+ * A formatted result row
+ */
+export type ExportRow = Record<string, any>;
+
+/**
+ * Rows to export: scanner data, an array, or a (async) iterable such as
+ * `Query.iterate()`
+ */
+export type ExportSource =
+  | ScannerData
+  | Iterable<ExportRow>
+  | AsyncIterable<ExportRow>;
+
+/**
+ * Per-column value formatting
+ * - number: fixed decimals, optional thousands separators
+ * - percent: value already in percent (as TradingView returns it) unless
+ *   `scale` is given, rendered with a "%" suffix
+ * - date: epoch seconds (or Date) rendered as ISO date, date-time or
+ *   locale string
+ * - a function receiving the value and its row
+ */
+export type ColumnFormat =
+  | { type: 'number'; decimals?: number; thousands?: boolean }
+  | { type: 'percent'; decimals?: number; scale?: number }
+  | { type: 'date'; style?: 'date' | 'datetime' | 'locale' }
+  | ((value: unknown, row: ExportRow) => string);
+
+/**
+ * Options shared by all exporters
+ */
+export interface ExportOptions {
+  /** Columns to export, in order (default: keys of the first row) */
+  columns?: string[];
+  /** Display names for column headers */
+  headers?: Record<string, string>;
+  /** Per-column formatting (ignored by NDJSON) */
+  formats?: Record<string, ColumnFormat>;
+  /** Text written for null/undefined values (default: '') */
+  nullToken?: string;
+  /** Separator used to join array values such as typespecs (default: ';') */
+  arraySeparator?: string;
+}
+
+/**
+ * CSV options
+ */
+export interface CsvOptions extends ExportOptions {
+  /** Field delimiter (default: ',') */
+  delimiter?: string;
+  /** Write a header row (default: true) */
+  header?: boolean;
+  /** Line ending (default: '\r\n', per RFC 4180) */
+  lineEnding?: string;
+}
+
+/**
+ * Console table options
+ */
+export interface TableOptions extends ExportOptions {
+  /** Spaces between columns (default: 2) */
+  padding?: number;
+  /** Right-align numeric columns (default: true) */
+  alignNumbers?: boolean;
+}
+
+function isScannerData(source: ExportSource): source is ScannerData {
+  return (
+    typeof source === 'object' &&
+    source !== null &&
+    'totalCount' in source &&
+    Array.isArray((source as ScannerData).data)
+  );
+}
+
+/**
+ * Iterate the rows of any export source
+ */
+async function* rowsOf(source: ExportSource): AsyncGenerator<ExportRow> {
+  if (isScannerData(source)) {
+    yield* source.data;
+  } else {
+    yield* source as AsyncIterable<ExportRow>;
+  }
+}
+
+/**
+ * Columns to export: the configured list, or the row's keys with the
+ * symbol first
+ */
+function columnsFor(
+  row: ExportRow | undefined,
+  options: ExportOptions
+): string[] {
+  if (options.columns) {
+    return options.columns;
+  }
+  if (!row) {
+    return [];
+  }
+  const keys = Object.keys(row);
+  return keys.includes('symbol')
+    ? ['symbol', ...keys.filter((key) => key !== 'symbol')]
+    : keys;
+}
+
+function toDate(value: unknown): Date | undefined {
+  if (value instanceof Date) return value;
+  if (typeof value === 'number') return new Date(value * 1000);
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? undefined : new Date(parsed);
+  }
+  return undefined;
+}
+
+/**
+ * Format a single cell as text
+ */
+export function formatValue(
+  value: unknown,
+  column: string,
+  row: ExportRow,
+  options: ExportOptions = {}
+): string {
+  const format = options.formats?.[column];
+  if (typeof format === 'function') {
+    return format(value, row);
+  }
+  if (value === null || value === undefined) {
+    return options.nullToken ?? '';
+  }
+
+  if (format && typeof value === 'number') {
+    if (format.type === 'number') {
+      const decimals = format.decimals ?? 2;
+      return format.thousands
+        ? value.toLocaleString('en-US', {
+            minimumFractionDigits: decimals,
+            maximumFractionDigits: decimals,
+          })
+        : value.toFixed(decimals);
+    }
+    if (format.type === 'percent') {
+      return `${(value * (format.scale ?? 1)).toFixed(format.decimals ?? 2)}%`;
+    }
+  }
+  if (format?.type === 'date') {
+    const date = toDate(value);
+    if (date) {
+      if (format.style === 'locale') return date.toLocaleString();
+      const iso = date.toISOString();
+      return format.style === 'datetime' ? iso : iso.slice(0, 10);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(String).join(options.arraySeparator ?? ';');
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function headerFor(column: string, options: ExportOptions): string {
+  return options.headers?.[column] ?? column;
+}
+
+/**
+ * Write to a stream, waiting for it to drain when its buffer is full
+ */
+async function write(stream: Writable, chunk: string): Promise<void> {
+  if (!stream.write(chunk)) {
+    await once(stream, 'drain');
+  }
+}
+
+/**
+ * Collect the output of a streaming exporter into a string
+ */
+async function collect(
+  exporter: (stream: Writable) => Promise<void>
+): Promise<string> {
+  const chunks: string[] = [];
+  const sink = new Writable({
+    write(chunk, _encoding, callback) {
+      chunks.push(chunk.toString());
+      callback();
+    },
+  });
+  await exporter(sink);
+  return chunks.join('');
+}
+
+/**
+ * Quote a CSV field when it contains the delimiter, quotes or line breaks
+ */
+function csvField(value: string, delimiter: string): string {
+  return value.includes(delimiter) || /["\r\n]/.test(value)
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+}
+
+/**
+ * Stream rows as CSV
+ */
+export async function writeCsv(
+  source: ExportSource,
+  stream: Writable,
+  options: CsvOptions = {}
+): Promise<void> {
+  const delimiter = options.delimiter ?? ',';
+  const eol = options.lineEnding ?? '\r\n';
+  let columns: string[] | undefined = options.columns;
+
+  const line = (cells: string[]) =>
+    cells.map((cell) => csvField(cell, delimiter)).join(delimiter) + eol;
+
+  if (columns && options.header !== false) {
+    await write(stream, line(columns.map((c) => headerFor(c, options))));
+  }
+  for await (const row of rowsOf(source)) {
+    if (!columns) {
+      columns = columnsFor(row, options);
+      if (options.header !== false) {
+        await write(stream, line(columns.map((c) => headerFor(c, options))));
+      }
+    }
+    const cells = columns.map((c) => formatValue(row[c], c, row, options));
+    await write(stream, line(cells));
+  }
+}
+
+/**
+ * Stream rows as newline-delimited JSON.
+ * Values keep their JSON types; only column selection and order apply.
+ */
+export async function writeNdjson(
+  source: ExportSource,
+  stream: Writable,
+  options: ExportOptions = {}
+): Promise<void> {
+  for await (const row of rowsOf(source)) {
+    let out: ExportRow = row;
+    if (options.columns) {
+      out = {};
+      for (const column of options.columns) {
+        out[column] = row[column] ?? null;
+      }
+    }
+    await write(stream, JSON.stringify(out) + '\n');
+  }
+}
+
+/**
+ * Escape text for a Markdown table cell
+ */
+function markdownCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+/**
+ * Stream rows as a GitHub-flavored Markdown table
+ */
+export async function writeMarkdown(
+  source: ExportSource,
+  stream: Writable,
+  options: ExportOptions = {}
+): Promise<void> {
+  let columns: string[] | undefined = options.columns;
+
+  const writeHeader = async (cols: string[]) => {
+    await write(
+      stream,
+      `| ${cols.map((c) => markdownCell(headerFor(c, options))).join(' | ')} |\n`
+    );
+    await write(stream, `| ${cols.map(() => '---').join(' | ')} |\n`);
+  };
+
+  if (columns) {
+    await writeHeader(columns);
+  }
+  for await (const row of rowsOf(source)) {
+    if (!columns) {
+      columns = columnsFor(row, options);
+      await writeHeader(columns);
+    }
+    const cells = columns.map((c) =>
+      markdownCell(formatValue(row[c], c, row, options))
+    );
+    await write(stream, `| ${cells.join(' | ')} |\n`);
+  }
+}
+
+/**
+ * Write rows as an aligned fixed-width table.
+ * All rows are buffered to compute column widths.
+ */
+export async function writeTable(
+  source: ExportSource,
+  stream: Writable,
+  options: TableOptions = {}
+): Promise<void> {
+  const rows: ExportRow[] = [];
+  for await (const row of rowsOf(source)) {
+    rows.push(row);
+  }
+
+  const columns = columnsFor(rows[0], options);
+  if (columns.length === 0) {
+    return;
+  }
+  const gap = ' '.repeat(options.padding ?? 2);
+  const headers = columns.map((c) => headerFor(c, options));
+  const cells = rows.map((row) =>
+    columns.map((c) => formatValue(row[c], c, row, options))
+  );
+  const numeric = columns.map(
+    (c) =>
+      options.alignNumbers !== false &&
+      rows.some((row) => typeof row[c] === 'number') &&
+      rows.every(
+        (row) =>
+          row[c] === null || row[c] === undefined || typeof row[c] === 'number'
+      )
+  );
+  const widths = columns.map((_, i) =>
+    Math.max(headers[i].length, ...cells.map((r) => r[i].length))
+  );
+
+  const line = (values: string[]) =>
+    values
+      .map((v, i) =>
+        numeric[i] ? v.padStart(widths[i]) : v.padEnd(widths[i])
+      )
+      .join(gap)
+      .trimEnd() + '\n';
+
+  await write(stream, line(headers));
+  await write(stream, line(widths.map((w) => '-'.repeat(w))));
+  for (const row of cells) {
+    await write(stream, line(row));
+  }
+}
+
+/**
+ * Render rows as CSV
+ */
+export function toCsv(
+  source: ExportSource,
+  options: CsvOptions = {}
+): Promise<string> {
+  return collect((stream) => writeCsv(source, stream, options));
+}
+
+/**
+ * Render rows as newline-delimited JSON
+ */
+export function toNdjson(
+  source: ExportSource,
+  options: ExportOptions = {}
+): Promise<string> {
+  return collect((stream) => writeNdjson(source, stream, options));
+}
+
+/**
+ * Render rows as a Markdown table
+ */
+export function toMarkdown(
+  source: ExportSource,
+  options: ExportOptions = {}
+): Promise<string> {
+  return collect((stream) => writeMarkdown(source, stream, options));
+}
+
+/**
+ * Render rows as an aligned fixed-width table
+ */
+export function toTable(
+  source: ExportSource,
+  options: TableOptions = {}
+): Promise<string> {
+  return collect((stream) => writeTable(source, stream, options));
+}
@@ -0,0 +1,528 @@
+/**
+ * Text filter expressions
+ * Parses strings such as
+ *
+ *   close > 10 and (volume > 1e6 or relative_volume_10d_calc >= 1.5)
+ *     and sector in ("Technology", "Health Technology")
+ *
+ * into the same FilterOperationDict/OperationDict structures built with
+ * `col()` and `And`/`Or`/`Not`.
+ *
+ * Grammar (keywords are case-insensitive):
+ *
+ *   expr       := term ("or" term)*
+ *   term       := factor ("and" factor)*
+ *   factor     := "not" factor | "(" expr ")" | predicate
+ *   predicate  := field (
+ *                   (">" | ">=" | "<" | "<=" | "=" | "==" | "!=" | "<>") operand
+ *                 | ["not"] "in" list | "has" list | "has_none_of" list
+ *                 | ["not"] "between" operand "and" operand
+ *                 | ["not"] "between_pct"
+ *                     (number "and" number | "(" field "," number "," number ")")
+ *                 | ("in_day_range" | "in_week_range" | "in_month_range")
+ *                     number "and" number
+ *                 | ["not"] ("like" | "match") string
+ *                 | ("crosses" | "crosses_above" | "crosses_below") operand
+ *                 | ("above_pct" | "below_pct")
+ *                     (operand | "(" operand "," number ")")
+ *                 | "is" ["not"] ("empty" | "null") | ["not"] "empty" )
+ *   list       := "(" scalar ("," scalar)* ")"
+ *   operand    := scalar | field
+ *   scalar     := number | string | "true" | "false"
+ *
+ * Fields are bare names, including timeframe suffixes (`RSI|15`). Names
+ * that are not plain words, such as `ADX+DI` or `24h_vol|5`, are written
+ * in backticks: `` `ADX+DI` > 25 ``. A field on the right-hand side is a
+ * column reference; quote it with "" or '' to compare against text.
+ */
+
+import {
+  FilterOperationDict,
+  FilterScalar,
+  OperationDict,
+} from './models';
+import { Column, ColumnOperand, col } from './column';
+import { And, Or, Not } from './operators';
+
+/**
+ * Thrown for malformed filter expressions
+ * The message shows the expression with a caret under the problem.
+ */
+export class FilterSyntaxError extends Error {
+  /** The expression being parsed */
+  readonly expression: string;
+  /** 0-based offset of the problem in the expression */
+  readonly position: number;
+
+  constructor(message: string, expression: string, position: number) {
+    super(
+      `${message} at column ${position + 1}\n` +
+        `  ${expression}\n` +
+        `  ${' '.repeat(position)}^`
+    );
+    this.name = 'FilterSyntaxError';
+    this.expression = expression;
+    this.position = position;
+  }
+}
+
+type TokenType = 'number' | 'string' | 'field' | 'word' | 'symbol' | 'end';
+
+interface Token {
+  type: TokenType;
+  /**
+   * Symbol text, lower-cased word, unquoted string or field name, or
+   * number source
+   */
+  value: string;
+  /** Source text of the token */
+  text: string;
+  position: number;
+}
+
+const SYMBOLS = ['>=', '<=', '!=', '<>', '==', '>', '<', '=', '(', ')', ','];
+const NUMBER = /^-?(?:\d[\d_]*)?\.?\d[\d_]*(?:[eE][+-]?\d+)?/;
+const WORD = /^[A-Za-z_][\w.|[\]]*/;
+
+/**
+ * Words that cannot be used as field names or bare values
+ */
+const RESERVED = new Set(['and', 'or', 'not']);
+
+/**
+ * Write a field name so that it parses back as that field: bare when it
+ * is a plain word, otherwise in backticks
+ * @param name - Field name, e.g. "RSI|15" or "ADX+DI"
+ */
+export function formatFieldName(name: string): string {
+  const word = WORD.exec(name);
+  const lower = name.toLowerCase();
+  if (
+    word?.[0] === name &&
+    !RESERVED.has(lower) &&
+    lower !== 'true' &&
+    lower !== 'false'
+  ) {
+    return name;
+  }
+  return `\`${name.replace(/[\\`]/g, '\\$&')}\``;
+}
+
+/**
+ * Split an expression into tokens
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const ch = source[pos];
+    if (/\s/.test(ch)) {
+      pos++;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'" || ch === '`') {
+      let value = '';
+      let end = pos + 1;
+      while (end < source.length && source[end] !== ch) {
+        if (source[end] === '\\' && end + 1 < source.length) end++;
+        value += source[end++];
+      }
+      if (end >= source.length) {
+        throw new FilterSyntaxError(
+          ch === '`' ? 'Unterminated field name' : 'Unterminated string',
+          source,
+          pos
+        );
+      }
+      tokens.push({
+        type: ch === '`' ? 'field' : 'string',
+        value,
+        text: source.slice(pos, end + 1),
+        position: pos,
+      });
+      pos = end + 1;
+      continue;
+    }
+
+    const rest = source.slice(pos);
+    const number = NUMBER.exec(rest);
+    if (number && (ch !== '-' || /^-[\d.]/.test(rest))) {
+      tokens.push({
+        type: 'number',
+        value: number[0].replace(/_/g, ''),
+        text: number[0],
+        position: pos,
+      });
+      pos += number[0].length;
+      continue;
+    }
+
+    const word = WORD.exec(rest);
+    if (word) {
+      tokens.push({
+        type: 'word',
+        value: word[0].toLowerCase(),
+        text: word[0],
+        position: pos,
+      });
+      pos += word[0].length;
+      continue;
+    }
+
+    const symbol = SYMBOLS.find((s) => rest.startsWith(s));
+    if (symbol) {
+      tokens.push({
+        type: 'symbol',
+        value: symbol,
+        text: symbol,
+        position: pos,
+      });
+      pos += symbol.length;
+      continue;
+    }
+
+    throw new FilterSyntaxError(`Unexpected character "${ch}"`, source, pos);
+  }
+
+  tokens.push({ type: 'end', value: '', text: '', position: source.length });
+  return tokens;
+}
+
+type Filter = FilterOperationDict | OperationDict;
+
+/**
+ * Recursive-descent parser over the token list
+ */
+class Parser {
+  private readonly tokens: Token[];
+  private index = 0;
+
+  constructor(private readonly source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parse(): Filter {
+    const filter = this.parseOr();
+    if (this.peek().type !== 'end') {
+      this.fail(`Unexpected "${this.peek().text}"`);
+    }
+    return filter;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== 'end') this.index++;
+    return token;
+  }
+
+  private fail(message: string, token: Token = this.peek()): never {
+    throw new FilterSyntaxError(message, this.source, token.position);
+  }
+
+  private describe(token: Token): string {
+    return token.type === 'end' ? 'end of expression' : `"${token.text}"`;
+  }
+
+  /**
+   * Consume a keyword if it is next
+   */
+  private accept(keyword: string): boolean {
+    const token = this.peek();
+    if (
+      (token.type === 'word' || token.type === 'symbol') &&
+      token.value === keyword
+    ) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(keyword: string): void {
+    if (!this.accept(keyword)) {
+      this.fail(
+        `Expected "${keyword}" but found ${this.describe(this.peek())}`
+      );
+    }
+  }
+
+  private parseOr(): Filter {
+    const operands = [this.parseAnd()];
+    while (this.accept('or')) {
+      operands.push(this.parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : Or(...operands);
+  }
+
+  private parseAnd(): Filter {
+    const operands = [this.parseFactor()];
+    while (this.accept('and')) {
+      operands.push(this.parseFactor());
+    }
+    return operands.length === 1 ? operands[0] : And(...operands);
+  }
+
+  private parseFactor(): Filter {
+    const token = this.peek();
+    if (this.accept('not')) {
+      const operand = this.parseFactor();
+      try {
+        return Not(operand);
+      } catch (error) {
+        this.fail((error as Error).message, token);
+      }
+    }
+    if (this.accept('(')) {
+      const inner = this.parseOr();
+      this.expect(')');
+      return inner;
+    }
+    return this.parsePredicate();
+  }
+
+  private parseField(): Column {
+    const token = this.peek();
+    if (token.type === 'field' && token.value !== '') {
+      this.index++;
+      return col(token.value);
+    }
+    if (token.type !== 'word' || RESERVED.has(token.value)) {
+      this.fail(`Expected a field name but found ${this.describe(token)}`);
+    }
+    this.index++;
+    return col(token.text);
+  }
+
+  private parseScalar(): FilterScalar {
+    const token = this.peek();
+    if (token.type === 'number') {
+      this.index++;
+      return Number(token.value);
+    }
+    if (token.type === 'string') {
+      this.index++;
+      return token.value;
+    }
+    if (token.type === 'word' && !RESERVED.has(token.value)) {
+      this.index++;
+      if (token.value === 'true' || token.value === 'false') {
+        return token.value === 'true';
+      }
+      return token.text;
+    }
+    return this.fail(`Expected a value but found ${this.describe(token)}`);
+  }
+
+  private parseNumber(): number {
+    const token = this.peek();
+    if (token.type !== 'number') {
+      this.fail(`Expected a number but found ${this.describe(token)}`);
+    }
+    this.index++;
+    return Number(token.value);
+  }
+
+  /**
+   * A literal, or a bare field name referencing another column
+   */
+  private parseOperand(): ColumnOperand {
+    const token = this.peek();
+    if (token.type === 'field') {
+      return this.parseField();
+    }
+    if (
+      token.type === 'word' &&
+      !RESERVED.has(token.value) &&
+      token.value !== 'true' &&
+      token.value !== 'false'
+    ) {
+      return this.parseField();
+    }
+    return this.parseScalar();
+  }
+
+  private parseList(): FilterScalar[] {
+    this.expect('(');
+    const values = [this.parseScalar()];
+    while (this.accept(',')) {
+      values.push(this.parseScalar());
+    }
+    this.expect(')');
+    return values;
+  }
+
+  private parseString(): string {
+    const token = this.peek();
+    if (token.type !== 'string') {
+      this.fail(`Expected a quoted pattern but found ${this.describe(token)}`);
+    }
+    this.index++;
+    return token.value;
+  }
+
+  private parsePredicate(): FilterOperationDict {
+    const field = this.parseField();
+    const token = this.next();
+
+    if (token.type === 'symbol') {
+      switch (token.value) {
+        case '>':
+          return field.gt(this.parseOperand());
+        case '>=':
+          return field.gte(this.parseOperand());
+        case '<':
+          return field.lt(this.parseOperand());
+        case '<=':
+          return field.lte(this.parseOperand());
+        case '=':
+        case '==':
+          return field.eq(this.parseOperand());
+        case '!=':
+        case '<>':
+          return field.neq(this.parseOperand());
+      }
+    }
+
+    if (token.type === 'word') {
+      switch (token.value) {
+        case 'not':
+          return this.parseNegated(field, token);
+        case 'in':
+          return field.isin(this.parseList());
+        case 'has':
+          return field.has(this.parseList());
+        case 'has_none_of':
+          return field.hasNoneOf(this.parseList());
+        case 'between': {
+          const min = this.parseOperand();
+          this.expect('and');
+          return field.between(min, this.parseOperand());
+        }
+        case 'between_pct':
+          return this.parsePctRange(field, false);
+        case 'in_day_range':
+        case 'in_week_range':
+        case 'in_month_range': {
+          const min = this.parseNumber();
+          this.expect('and');
+          const max = this.parseNumber();
+          if (token.value === 'in_day_range') {
+            return field.inDayRange(min, max);
+          }
+          if (token.value === 'in_week_range') {
+            return field.inWeekRange(min, max);
+          }
+          return field.inMonthRange(min, max);
+        }
+        case 'like':
+        case 'match':
+          return field.like(this.parseString());
+        case 'crosses':
+          return field.crosses(this.parseOperand());
+        case 'crosses_above':
+          return field.crossesAbove(this.parseOperand());
+        case 'crosses_below':
+          return field.crossesBelow(this.parseOperand());
+        case 'above_pct':
+        case 'below_pct': {
+          let value: ColumnOperand;
+          let pct: number | undefined;
+          if (this.accept('(')) {
+            value = this.parseOperand();
+            this.expect(',');
+            pct = this.parseNumber();
+            this.expect(')');
+          } else {
+            value = this.parseOperand();
+          }
+          return token.value === 'above_pct'
+            ? field.abovePct(value, pct)
+            : field.belowPct(value, pct);
+        }
+        case 'is': {
+          const negated = this.accept('not');
+          if (!this.accept('empty') && !this.accept('null')) {
+            this.fail(
+              `Expected "empty" or "null" but found ` +
+                this.describe(this.peek())
+            );
+          }
+          return negated ? field.notEmpty() : field.empty();
+        }
+        case 'empty':
+          return field.empty();
+      }
+    }
+
+    return this.fail(
+      `Expected an operator after "${field.name}" but found ` +
+        this.describe(token),
+      token
+    );
+  }
+
+  /**
+   * Operands of between_pct: `min and max`, or `(column, minPct, maxPct)`
+   */
+  private parsePctRange(field: Column, negated: boolean): FilterOperationDict {
+    if (this.accept('(')) {
+      const reference = this.parseField();
+      this.expect(',');
+      const minPct = this.parseNumber();
+      this.expect(',');
+      const maxPct = this.parseNumber();
+      this.expect(')');
+      return negated
+        ? field.notBetweenPct(reference, minPct, maxPct)
+        : field.betweenPct(reference, minPct, maxPct);
+    }
+    const min = this.parseNumber();
+    this.expect('and');
+    const max = this.parseNumber();
+    return negated ? field.notBetweenPct(min, max) : field.betweenPct(min, max);
+  }
+
+  /**
+   * Predicates of the form `field not <operator> ...`
+   */
+  private parseNegated(field: Column, notToken: Token): FilterOperationDict {
+    const token = this.next();
+    switch (token.type === 'word' ? token.value : '') {
+      case 'in':
+        return field.notIn(this.parseList());
+      case 'between': {
+        const min = this.parseOperand();
+        this.expect('and');
+        return field.notBetween(min, this.parseOperand());
+      }
+      case 'between_pct':
+        return this.parsePctRange(field, true);
+      case 'like':
+      case 'match':
+        return field.notLike(this.parseString());
+      case 'empty':
+        return field.notEmpty();
+    }
+    return this.fail(
+      `Expected "in", "between", "between_pct", "like" or "empty" after ` +
+        `"${notToken.text}" but found ${this.describe(token)}`,
+      token
+    );
+  }
+}
+
+/**
+ * Parse a text filter expression
+ * @param expression - Filter text, e.g. `close > 10 and sector in ("Finance")`
+ * @returns A single filter expression, or an And/Or tree
+ * @throws FilterSyntaxError pointing at the offending token
+ */
+export function parseFilterExpression(expression: string): Filter {
+  return new Parser(expression).parse();
+}
@@ -0,0 +1,159 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FieldCatalog, defaultCatalog, fieldsFromMetainfo } from './fields';
+import { ScreenerClient } from './client';
+import { MetainfoResponse } from './models';
+
+/**
+ * Client whose metainfo endpoint answers from a response per market
+ */
+function metainfoClient(responses: Record<string, MetainfoResponse>) {
+  return new ScreenerClient({
+    retry: false,
+    fetch: async (url: string) => {
+      const market = url.split('/').slice(-2)[0];
+      const text = JSON.stringify(responses[market]);
+      return {
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        text: async () => text,
+      };
+    },
+  });
+}
+
+describe('fieldsFromMetainfo', () => {
+  it('folds timeframe variants and keeps suffixed fields of their own', () => {
+    const fields = fieldsFromMetainfo(
+      {
+        fields: [
+          { n: 'RSI', t: 'number' },
+          { n: 'RSI|15', t: 'number' },
+          { n: '24h_vol|5', t: 'number' },
+          { n: 'change', t: 'percent' },
+          { n: 'earnings_release_date', t: 'time' },
+        ],
+      },
+      ['crypto']
+    );
+
+    assert.deepEqual(fields, [
+      { name: 'RSI', type: 'number', timeframes: true, markets: ['crypto'] },
+      {
+        name: '24h_vol|5',
+        type: 'number',
+        timeframes: false,
+        markets: ['crypto'],
+      },
+      {
+        name: 'change',
+        type: 'number',
+        timeframes: false,
+        markets: ['crypto'],
+        percent: true,
+      },
+      {
+        name: 'earnings_release_date',
+        type: 'timestamp',
+        timeframes: false,
+        markets: ['crypto'],
+      },
+    ]);
+  });
+
+  it('never gives timeframes to timeframe-independent fields', () => {
+    const [field] = fieldsFromMetainfo({
+      fields: [
+        { n: 'update_mode', t: 'text' },
+        { n: 'update_mode|15', t: 'text' },
+      ],
+    });
+    assert.equal(field.timeframes, false);
+    assert.equal(defaultCatalog.supportsInterval('update_mode'), false);
+  });
+});
+
+describe('FieldCatalog', () => {
+  it('bundles the generated catalog', () => {
+    assert.ok(defaultCatalog.size > 1000);
+    assert.equal(defaultCatalog.get('RSI|15')?.name, 'RSI');
+    assert.equal(defaultCatalog.get('24h_vol|5')?.name, '24h_vol|5');
+    assert.equal(
+      defaultCatalog.isValidFor('return_on_equity', 'crypto'),
+      false
+    );
+  });
+
+  it('merges refreshed fields into the existing entries', async () => {
+    const catalog = new FieldCatalog([
+      { name: 'close', type: 'number', timeframes: true },
+      {
+        name: 'sector',
+        type: 'string',
+        timeframes: false,
+        markets: ['america'],
+      },
+      { name: 'change', type: 'number', timeframes: false, percent: true },
+    ]);
+    const client = metainfoClient({
+      crypto: {
+        fields: [
+          { n: 'sector', t: 'text' },
+          { n: 'change', t: 'number' },
+          { n: 'change|5', t: 'number' },
+          { n: '24h_vol|5', t: 'number' },
+        ],
+      },
+    });
+
+    await catalog.refresh(['crypto'], client);
+
+    assert.deepEqual(catalog.get('close'), {
+      name: 'close',
+      type: 'number',
+      timeframes: true,
+    });
+    assert.deepEqual(catalog.get('sector')?.markets, ['america', 'crypto']);
+    assert.deepEqual(catalog.get('change'), {
+      name: 'change',
+      type: 'number',
+      timeframes: true,
+      percent: true,
+    });
+    assert.deepEqual(catalog.get('24h_vol|5')?.markets, ['crypto']);
+  });
+
+  it('treats markets outside the generated groups as unknown', () => {
+    assert.equal(defaultCatalog.covers('crypto'), true);
+    assert.equal(defaultCatalog.covers('cfd'), false);
+    assert.equal(defaultCatalog.isValidFor('close', 'crypto'), true);
+    assert.equal(defaultCatalog.isValidFor('close', 'bonds'), undefined);
+    assert.equal(defaultCatalog.isValidFor('no_such_field', 'bonds'), false);
+    assert.equal(
+      defaultCatalog.list('cfd').some((field) => field.name === 'close'),
+      false
+    );
+  });
+
+  it('covers refreshed markets', async () => {
+    const catalog = new FieldCatalog(
+      [
+        { name: 'close', type: 'number', timeframes: true },
+        { name: 'market_cap_basic', type: 'number', timeframes: false },
+      ],
+      'test',
+      ['america']
+    );
+    const client = metainfoClient({
+      bonds: { fields: [{ n: 'close', t: 'price' }] },
+    });
+
+    await catalog.refresh(['bonds'], client);
+
+    assert.equal(catalog.covers('bonds'), true);
+    assert.equal(catalog.isValidFor('close', 'bonds'), true);
+    assert.equal(catalog.isValidFor('market_cap_basic', 'bonds'), false);
+    assert.equal(catalog.isValidFor('market_cap_basic', 'america'), true);
+  });
+});
@@ -0,0 +1,466 @@
+/**
+ * Field catalog for the TradingView screener
+ * Records each field's value type, the markets where it is valid and
+ * whether it can be requested on other timeframes. The bundled entries
+ * are generated from the scanner's metainfo, see catalog.generated.ts.
+ */
+
+import { ScreenerClient, defaultClient } from './client';
+import { MetainfoResponse } from './models';
+import {
+  stripInterval,
+  supportsInterval as supportsIntervalByName,
+} from './interval';
+import {
+  CATALOG_VERSION,
+  CATALOG_SOURCE,
+  CATALOG_GROUPS,
+  CATALOG_FIELDS,
+  CATALOG_PERCENT_FIELDS,
+} from './catalog.generated';
+
+/**
+ * Version of the bundled field snapshot
+ */
+export const FIELD_CATALOG_VERSION = CATALOG_VERSION;
+
+/**
+ * Where the bundled field snapshot was generated from
+ */
+export const FIELD_CATALOG_SOURCE = CATALOG_SOURCE;
+
+/**
+ * Market groups the bundled field snapshot describes
+ */
+export const FIELD_CATALOG_GROUPS = CATALOG_GROUPS;
+
+/**
+ * Value type of a field
+ */
+export type FieldType =
+  | 'number'
+  | 'string'
+  | 'boolean'
+  | 'timestamp'
+  | 'array';
+
+/**
+ * Catalog entry for a single field
+ */
+export interface FieldInfo {
+  /** Field name without timeframe suffix */
+  name: string;
+  /** Value type returned by the scanner */
+  type: FieldType;
+  /**
+   * Markets where the field is valid; undefined means every market the
+   * catalog covers
+   */
+  markets?: string[];
+  /** Whether the field accepts a timeframe suffix (e.g. "RSI|15") */
+  timeframes: boolean;
+  /** Whether values are percentages, e.g. 2.5 for 2.5% */
+  percent?: boolean;
+}
+
+/**
+ * Equity markets, where fundamental fields are available
+ */
+export const STOCK_MARKETS = [
+  'america',
+  'argentina',
+  'australia',
+  'austria',
+  'bahrain',
+  'bangladesh',
+  'belgium',
+  'brazil',
+  'canada',
+  'chile',
+  'china',
+  'colombia',
+  'cyprus',
+  'czech',
+  'denmark',
+  'egypt',
+  'estonia',
+  'finland',
+  'france',
+  'germany',
+  'greece',
+  'hongkong',
+  'hungary',
+  'iceland',
+  'india',
+  'indonesia',
+  'israel',
+  'italy',
+  'japan',
+  'kenya',
+  'korea',
+  'ksa',
+  'kuwait',
+  'latvia',
+  'lithuania',
+  'luxembourg',
+  'malaysia',
+  'mexico',
+  'morocco',
+  'netherlands',
+  'newzealand',
+  'nigeria',
+  'norway',
+  'pakistan',
+  'peru',
+  'philippines',
+  'poland',
+  'portugal',
+  'qatar',
+  'romania',
+  'rsa',
+  'russia',
+  'serbia',
+  'singapore',
+  'slovakia',
+  'spain',
+  'srilanka',
+  'sweden',
+  'switzerland',
+  'taiwan',
+  'thailand',
+  'tunisia',
+  'turkey',
+  'uae',
+  'uk',
+  'venezuela',
+  'vietnam',
+];
+
+/**
+ * Non-equity markets
+ */
+export const CRYPTO_MARKETS = ['crypto', 'coin'];
+
+/**
+ * Groups of markets sharing a field list; the scanner publishes the same
+ * metainfo for every market of a group
+ */
+export type MarketGroup =
+  | 'stock'
+  | 'crypto'
+  | 'coin'
+  | 'forex'
+  | 'futures'
+  | 'bond'
+  | 'cfd';
+
+/**
+ * Markets of each group. The first market is the one whose metainfo
+ * describes the group.
+ */
+export const MARKET_GROUPS: Record<MarketGroup, readonly string[]> = {
+  stock: STOCK_MARKETS,
+  crypto: ['crypto'],
+  coin: ['coin'],
+  forex: ['forex'],
+  futures: ['futures'],
+  bond: ['bonds'],
+  cfd: ['cfd'],
+};
+
+/**
+ * Generated catalog entry: markets are given as groups, and omitted for
+ * fields available in every group
+ */
+export type FieldRow = readonly [
+  name: string,
+  type: FieldType,
+  timeframes: boolean,
+  groups?: readonly MarketGroup[],
+];
+
+/**
+ * Bundled fields whose values are percentages
+ */
+const PERCENT_FIELDS = new Set<string>(CATALOG_PERCENT_FIELDS);
+
+/**
+ * TypeScript type of the values for each field type
+ */
+interface FieldTypeValues {
+  number: number;
+  string: string;
+  boolean: boolean;
+  /** Epoch seconds, or a Date when decoded (see decodeScannerData) */
+  timestamp: number | Date;
+  array: string[];
+}
+
+/**
+ * Value types of the fields in the bundled catalog, keyed by field name
+ */
+export type FieldValueMap = {
+  [Row in (typeof CATALOG_FIELDS)[number] as Row[0]]: FieldTypeValues[Row[1]];
+};
+
+/**
+ * Value type of a field in a result row. Timeframe suffixes are ignored,
+ * and fields outside the bundled catalog are typed as `any`.
+ */
+export type FieldValue<F extends string> = F extends keyof FieldValueMap
+  ? FieldValueMap[F] | null
+  : F extends `${infer Base}|${string}`
+    ? Base extends keyof FieldValueMap
+      ? FieldValueMap[Base] | null
+      : any
+    : any;
+
+/**
+ * Expand market groups to the markets they cover
+ */
+function groupMarkets(
+  groups: readonly MarketGroup[] | undefined
+): string[] | undefined {
+  return groups?.flatMap((group) => MARKET_GROUPS[group]);
+}
+
+/**
+ * Map a metainfo field type to a catalog value type
+ */
+function mapMetainfoType(type: unknown): FieldType {
+  switch (type) {
+    case 'number':
+    case 'price':
+    case 'percent':
+    case 'fundamental_price':
+      return 'number';
+    case 'bool':
+      return 'boolean';
+    case 'time':
+      return 'timestamp';
+    case 'set':
+    case 'num_slice':
+    case 'interface':
+    case 'map':
+      return 'array';
+    default:
+      return 'string';
+  }
+}
+
+/**
+ * Catalog entries described by a metainfo response. Timeframe variants
+ * ("RSI|15") are folded into their base field, which is marked as
+ * accepting timeframes, unless interval.ts lists it as timeframe-independent
+ * (update_mode, time, ...). A suffixed name without a base field in the
+ * same response ("24h_vol|5") is a field of its own and is kept as listed.
+ * @param metainfo - Response of `ScreenerClient.metainfo()`
+ * @param markets - Markets to record on each entry (default: every market)
+ */
+export function fieldsFromMetainfo(
+  metainfo: MetainfoResponse,
+  markets?: string[]
+): FieldInfo[] {
+  const fields = Array.isArray(metainfo?.fields) ? metainfo.fields : [];
+  const listed = fields.filter((field) => typeof field?.n === 'string');
+  const names = new Set(listed.map((field) => field.n));
+  const entries = new Map<string, FieldInfo>();
+
+  for (const field of listed) {
+    const base = stripInterval(field.n);
+    const variant = base !== field.n && names.has(base);
+    const name = variant ? base : field.n;
+    const timeframes = variant && supportsIntervalByName(name);
+    const existing = entries.get(name);
+    if (existing) {
+      existing.timeframes = existing.timeframes || timeframes;
+      continue;
+    }
+    entries.set(name, {
+      name,
+      type: mapMetainfoType(field.t),
+      timeframes,
+      ...(markets && { markets: [...markets] }),
+      ...(field.t === 'percent' && { percent: true }),
+    });
+  }
+  return [...entries.values()];
+}
+
+export class FieldCatalog {
+  private fields = new Map<string, FieldInfo>();
+  private covered?: Set<string>;
+  version: string;
+
+  /**
+   * @param fields - Initial entries
+   * @param version - Version label of the entries
+   * @param markets - Markets the entries describe (default: every market).
+   * Field availability in other markets is unknown.
+   */
+  constructor(
+    fields: FieldInfo[] = [],
+    version: string = FIELD_CATALOG_VERSION,
+    markets?: readonly string[]
+  ) {
+    this.version = version;
+    this.covered = markets && new Set(markets);
+    for (const field of fields) {
+      this.fields.set(field.name, field);
+    }
+  }
+
+  /**
+   * Create a catalog from the bundled snapshot
+   */
+  static bundled(): FieldCatalog {
+    return new FieldCatalog(
+      (CATALOG_FIELDS as readonly FieldRow[]).map(
+        ([name, type, timeframes, groups]) => ({
+          name,
+          type,
+          timeframes,
+          markets: groupMarkets(groups),
+          ...(PERCENT_FIELDS.has(name) && { percent: true }),
+        })
+      ),
+      FIELD_CATALOG_VERSION,
+      groupMarkets(CATALOG_GROUPS)
+    );
+  }
+
+  /**
+   * Number of fields in the catalog
+   */
+  get size(): number {
+    return this.fields.size;
+  }
+
+  /**
+   * Look up a field. A timeframe suffix is ignored, except for fields
+   * whose catalog name itself contains one (e.g. "24h_vol|5").
+   * @param name - Field name, e.g. "RSI" or "RSI|15"
+   */
+  get(name: string): FieldInfo | undefined {
+    return this.fields.get(name) ?? this.fields.get(stripInterval(name));
+  }
+
+  /**
+   * Check whether a field is known
+   */
+  has(name: string): boolean {
+    return this.get(name) !== undefined;
+  }
+
+  /**
+   * Check whether the catalog describes a market's fields
+   */
+  covers(market: string): boolean {
+    return !this.covered || this.covered.has(market);
+  }
+
+  /**
+   * List all fields, optionally only those known to be valid for a market
+   */
+  list(market?: string): FieldInfo[] {
+    const all = [...this.fields.values()];
+    return market
+      ? all.filter((f) =>
+          f.markets ? f.markets.includes(market) : this.covers(market)
+        )
+      : all;
+  }
+
+  /**
+   * Check whether a known field is valid for a market.
+   * Unknown fields return false; fields without a market list return
+   * undefined for markets the catalog does not cover.
+   */
+  isValidFor(name: string, market: string): boolean | undefined {
+    const info = this.get(name);
+    if (!info) {
+      return false;
+    }
+    if (info.markets?.includes(market)) {
+      return true;
+    }
+    return this.covers(market) ? !info.markets : undefined;
+  }
+
+  /**
+   * Check whether a field accepts a timeframe suffix.
+   * Falls back to the built-in list of timeframe-independent fields
+   * for fields not in the catalog.
+   */
+  supportsInterval(name: string): boolean {
+    const info = this.get(name);
+    return info ? info.timeframes : supportsIntervalByName(name);
+  }
+
+  /**
+   * Add or replace entries
+   */
+  add(...fields: FieldInfo[]): FieldCatalog {
+    for (const field of fields) {
+      this.fields.set(field.name, field);
+    }
+    return this;
+  }
+
+  /**
+   * Update the catalog from the scanner's metainfo endpoint.
+   * Reported fields are merged into the existing entries: types come from
+   * the scanner, timeframe support and percent flags are kept once known,
+   * and the market lists of restricted fields gain the refreshed markets.
+   * Fields that were not reported are left unchanged, except that a market
+   * the catalog did not cover becomes covered: fields valid everywhere that
+   * it does not report are restricted to the markets covered before.
+   * @param markets - Markets to load (default: ['america'])
+   * @param client - Client to send the requests through
+   * @returns This catalog, with a version label of the refresh time
+   */
+  async refresh(
+    markets: string[] = ['america'],
+    client: ScreenerClient = defaultClient
+  ): Promise<FieldCatalog> {
+    for (const market of markets) {
+      const metainfo = await client.metainfo(market);
+      const reported = fieldsFromMetainfo(metainfo, [market]);
+      if (this.covered && !this.covered.has(market)) {
+        const names = new Set(reported.map((field) => field.name));
+        const before = [...this.covered];
+        for (const [name, info] of this.fields) {
+          if (!info.markets && !names.has(name)) {
+            this.fields.set(name, { ...info, markets: before });
+          }
+        }
+        this.covered.add(market);
+      }
+      for (const field of reported) {
+        const existing = this.fields.get(field.name);
+        if (!existing) {
+          this.fields.set(field.name, field);
+          continue;
+        }
+        this.fields.set(field.name, {
+          ...existing,
+          type: field.type,
+          timeframes: existing.timeframes || field.timeframes,
+          ...(existing.markets &&
+            !existing.markets.includes(market) && {
+              markets: [...existing.markets, market],
+            }),
+          ...((existing.percent || field.percent) && { percent: true }),
+        });
+      }
+    }
+
+    this.version = new Date().toISOString();
+    return this;
+  }
+}
+
+/**
+ * Catalog used by `col()` and `Query` lookups unless another is given
+ */
+export const defaultCatalog = FieldCatalog.bundled();
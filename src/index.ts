@@ -8,15 +8,236 @@
 // Core classes
 export { Query } from './query';
 export { Column, col } from './column';
+export type { ColumnOperand } from './column';
+
+// HTTP client
+export {
+  ScreenerClient,
+  defaultClient,
+  DEFAULT_BASE_URL,
+  DEFAULT_USER_AGENT,
+} from './client';
+export type {
+  ScreenerClientOptions,
+  RetryOptions,
+  FetchLike,
+  FetchRequestInit,
+  FetchResponseLike,
+} from './client';
+
+export { RateLimiter } from './ratelimit';
+export type { RateLimiterOptions } from './ratelimit';
+
+export {
+  ResponseCache,
+  MemoryCacheStore,
+  FileCacheStore,
+  canonicalJSON,
+  hashQueryDict,
+} from './cache';
+export type {
+  CacheStore,
+  ResponseCacheEvents,
+  ResponseCacheOptions,
+} from './cache';
+
+export { TypedEmitter } from './events';
+
+// Errors
+export {
+  TradingViewApiError,
+  BadRequestError,
+  AuthError,
+  RateLimitError,
+  ServerError,
+  NetworkError,
+  TimeoutError,
+  InvalidResponseError,
+} from './errors';
+export type { ApiErrorDetails } from './errors';
+
+// Timeframes
+export {
+  INTERVAL_SUFFIXES,
+  isInterval,
+  withInterval,
+  stripInterval,
+  intervalOf,
+  supportsInterval,
+} from './interval';
+
+// Field catalog
+export {
+  FieldCatalog,
+  defaultCatalog,
+  FIELD_CATALOG_VERSION,
+  FIELD_CATALOG_SOURCE,
+  FIELD_CATALOG_GROUPS,
+  STOCK_MARKETS,
+  CRYPTO_MARKETS,
+  MARKET_GROUPS,
+  fieldsFromMetainfo,
+} from './fields';
+export type {
+  FieldInfo,
+  FieldType,
+  MarketGroup,
+  FieldValue,
+  FieldValueMap,
+} from './fields';
+
+// Value codecs
+export {
+  timestampCodec,
+  fractionCodec,
+  codecFor,
+  decodeRow,
+  decodeScannerData,
+  encodeFilterValue,
+} from './codecs';
+export type { FieldCodec, CodecOptions } from './codecs';
+
+// Validation
+export { validateQueryDict, QueryValidationError } from './validation';
+export type {
+  QueryDiagnostic,
+  DiagnosticSeverity,
+  ValidationOptions,
+} from './validation';
+
+// Filter expressions
+export {
+  parseFilterExpression,
+  formatFieldName,
+  FilterSyntaxError,
+} from './expression';
+
+// Query rendering
+export {
+  explainQueryDict,
+  explainFilter,
+  explainOperation,
+} from './explain';
+export type { ExplainOptions } from './explain';
+
+// Snapshot diffing
+export { diffScannerData, diffToRows, scannerRowKey } from './diff';
+export type {
+  DiffOptions,
+  DiffEntry,
+  FieldDiff,
+  RowDiff,
+  ScannerDataDiff,
+} from './diff';
+
+// Watch mode
+export { ScanWatcher, isInSession } from './watch';
+export type {
+  ScanWatcherOptions,
+  ScanWatcherEvents,
+  MarketSession,
+  FieldThreshold,
+  FieldChange,
+} from './watch';
+
+// Notification sinks
+export {
+  BaseSink,
+  WebhookSink,
+  SlackSink,
+  FileSink,
+  SinkDeliveryError,
+  renderTemplate,
+  signPayload,
+} from './sinks';
+export type {
+  Sink,
+  SinkResult,
+  SinkOptions,
+  HttpSinkOptions,
+  WebhookSinkOptions,
+  SlackSinkOptions,
+  FileSinkOptions,
+} from './sinks';
+
+// Ticker lists
+export {
+  TickerListError,
+  parseTickerList,
+  loadTickerList,
+  normalizeTicker,
+  isValidTicker,
+  chunkTickers,
+} from './tickers';
+export type { TickerIssue, TickerListOptions } from './tickers';
+
+// Sessions
+export {
+  SessionManager,
+  UPDATE_MODE_FIELD,
+  isRealtimeUpdateMode,
+  realtimeStatus,
+  parseCookieJar,
+  parseCookieHeader,
+} from './session';
+export type { SessionEvents, SessionStatusChange } from './session';
+
+// Local evaluation
+export { evaluate, filterRows, FilterEvaluationError } from './evaluate';
+export type { EvaluateOptions, EvaluationRow } from './evaluate';
+
+// Deserialization
+export {
+  parseQueryDict,
+  parseFilterOperation,
+  parseOperation,
+  isOperation,
+  QueryParseError,
+} from './parse';
+
+// Scan definition files
+export { compileScan, loadScanFile, ScanDefinitionError } from './scanfile';
+export type {
+  ScanDefinition,
+  ScanLoadOptions,
+  ScanParameters,
+  ScanParameterDefinition,
+} from './scanfile';
+
+// Exporters
+export {
+  toCsv,
+  toNdjson,
+  toMarkdown,
+  toTable,
+  writeCsv,
+  writeNdjson,
+  writeMarkdown,
+  writeTable,
+  formatValue,
+} from './export';
+export type {
+  ExportRow,
+  ExportSource,
+  ExportOptions,
+  ColumnFormat,
+  CsvOptions,
+  TableOptions,
+} from './export';
 
 // Logical operators
-export { And, Or } from './operators';
+export { And, Or, Not } from './operators';
 
 // Type definitions
 export type {
   Operation,
   SortOrder,
   LogicalOperator,
+  Interval,
+  IntervalNaming,
+  ScannerDataOptions,
+  FilterScalar,
+  FilterValue,
   FilterOperationDict,
   SortByDict,
   SymbolsDict,
@@ -27,5 +248,8 @@ export type {
   ScreenerRowDict,
   ScreenerDict,
   ScannerData,
+  ScannerRow,
+  MetainfoField,
+  MetainfoResponse,
   Cookies,
 } from './models';
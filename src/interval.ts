@@ -0,0 +1,142 @@
+/**
+ * Timeframe (interval) helpers
+ * TradingView selects a field's timeframe with a "|<interval>" suffix,
+ * e.g. "RSI|15" for the 15 minute RSI. Daily values carry no suffix.
+ */
+
+import { Interval } from './models';
+
+/**
+ * Field name suffix for each supported interval
+ */
+export const INTERVAL_SUFFIXES: Record<Interval, string> = {
+  '1m': '1',
+  '5m': '5',
+  '15m': '15',
+  '30m': '30',
+  '1h': '60',
+  '2h': '120',
+  '4h': '240',
+  '1d': '',
+  '1w': '1W',
+  '1M': '1M',
+};
+
+/**
+ * Fields that have a single value regardless of timeframe.
+ * Suffixing these makes the scanner reject the request.
+ */
+const INTERVAL_INDEPENDENT_FIELDS = new Set<string>([
+  'name',
+  'description',
+  'logoid',
+  'type',
+  'typespecs',
+  'subtype',
+  'exchange',
+  'country',
+  'currency',
+  'fundamental_currency_code',
+  'sector',
+  'industry',
+  'market',
+  'update_mode',
+  'active_symbol',
+  'is_primary',
+  'market_cap_basic',
+  'float_shares_outstanding',
+  'time',
+  'update_time',
+  'last_bar_update_time',
+  'premarket_time',
+  'premarket_open',
+  'premarket_high',
+  'premarket_low',
+  'premarket_close',
+  'premarket_volume',
+  'premarket_change',
+  'premarket_change_abs',
+  'premarket_change_from_open',
+  'premarket_gap',
+  'postmarket_close',
+  'postmarket_volume',
+  'postmarket_change',
+  'average_volume_10d_calc',
+  'average_volume_30d_calc',
+  'average_volume_60d_calc',
+  'average_volume_90d_calc',
+  'relative_volume_10d_calc',
+  'earnings_release_date',
+  'earnings_release_next_date',
+  'price_earnings_ttm',
+  'earnings_per_share_diluted_ttm',
+  'dividend_yield_recent',
+]);
+
+/**
+ * Check whether a value is a supported interval
+ */
+export function isInterval(value: unknown): value is Interval {
+  return (
+    typeof value === 'string' &&
+    Object.prototype.hasOwnProperty.call(INTERVAL_SUFFIXES, value)
+  );
+}
+
+/**
+ * Throw if a value is not a supported interval
+ */
+export function assertInterval(value: unknown): asserts value is Interval {
+  if (!isInterval(value)) {
+    throw new Error(
+      `Invalid interval: ${String(value)}. ` +
+        `Expected one of: ${Object.keys(INTERVAL_SUFFIXES).join(', ')}`
+    );
+  }
+}
+
+/**
+ * Strip any timeframe suffix from a field name
+ * @param field - Field name, e.g. "RSI|15"
+ * @returns Base field name, e.g. "RSI"
+ */
+export function stripInterval(field: string): string {
+  const index = field.indexOf('|');
+  return index === -1 ? field : field.slice(0, index);
+}
+
+/**
+ * Interval selected by a field name's timeframe suffix
+ * @param field - Field name, e.g. "RSI|15"
+ * @returns Interval, e.g. '15m', or undefined when the field has no
+ *   suffix or an unknown one
+ */
+export function intervalOf(field: string): Interval | undefined {
+  const index = field.indexOf('|');
+  const suffix = index === -1 ? '' : field.slice(index + 1);
+  if (!suffix) return undefined;
+  return (Object.keys(INTERVAL_SUFFIXES) as Interval[]).find(
+    (interval) => INTERVAL_SUFFIXES[interval] === suffix
+  );
+}
+
+/**
+ * Apply a timeframe suffix to a field name, replacing any existing suffix
+ * @param field - Field name, e.g. "RSI" or "RSI|60"
+ * @param interval - Interval to apply
+ * @returns Suffixed field name, e.g. "RSI|15"
+ */
+export function withInterval(field: string, interval: Interval): string {
+  assertInterval(interval);
+  const base = stripInterval(field);
+  const suffix = INTERVAL_SUFFIXES[interval];
+  return suffix ? `${base}|${suffix}` : base;
+}
+
+/**
+ * Check whether a field's value depends on the timeframe
+ * @param field - Field name (with or without suffix)
+ */
+export function supportsInterval(field: string): boolean {
+  return !INTERVAL_INDEPENDENT_FIELDS.has(stripInterval(field));
+}
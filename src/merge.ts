@@ -0,0 +1,77 @@
+/**
+ * Helpers for combining screener responses from several requests
+ * (e.g. one per market) into a single sorted, ranged result
+ */
+
+import { ScreenerDict, ScreenerRowDict, SortByDict } from './models';
+
+/**
+ * Compare two cell values for sorting.
+ * Numbers compare numerically, everything else as strings.
+ * Null/undefined placement is controlled by `nullsFirst`.
+ */
+export function compareValues(
+  a: unknown,
+  b: unknown,
+  sortOrder: SortByDict['sortOrder'] = 'asc',
+  nullsFirst: boolean = false
+): number {
+  const aNull = a === null || a === undefined;
+  const bNull = b === null || b === undefined;
+  if (aNull || bNull) {
+    if (aNull && bNull) return 0;
+    // Null placement is independent of the sort direction
+    return aNull === nullsFirst ? -1 : 1;
+  }
+
+  let result: number;
+  if (typeof a === 'number' && typeof b === 'number') {
+    result = a - b;
+  } else {
+    result = String(a).localeCompare(String(b));
+  }
+  return sortOrder === 'desc' ? -result : result;
+}
+
+/**
+ * Merge several screener responses into one.
+ * @param results - Responses to merge, each covering the range [0, range[1]]
+ * @param sort - Sort to apply across the combined rows
+ * @param sortIndex - Index of the sort column within each row's `d` array
+ * @param range - Range to slice from the combined rows
+ * @returns Combined response; totalCount is the sum of all totals and
+ *   isRealtime is false if any response was delayed
+ */
+export function mergeScreenerResults(
+  results: ScreenerDict[],
+  sort?: SortByDict,
+  sortIndex: number = -1,
+  range?: [number, number]
+): ScreenerDict {
+  const totalCount = results.reduce((sum, r) => sum + r.totalCount, 0);
+  let rows: ScreenerRowDict[] = results.flatMap((r) => r.data);
+
+  if (sort && sortIndex >= 0) {
+    // Array.prototype.sort is stable, so ties keep their request order
+    rows = [...rows].sort((a, b) =>
+      compareValues(
+        a.d[sortIndex],
+        b.d[sortIndex],
+        sort.sortOrder,
+        sort.nullsFirst
+      )
+    );
+  }
+
+  if (range) {
+    rows = rows.slice(range[0], range[1]);
+  }
+
+  const merged: ScreenerDict = { totalCount, data: rows };
+  if (results.some((r) => r.isRealtime === false)) {
+    merged.isRealtime = false;
+  } else if (results.length > 0 && results.every((r) => r.isRealtime)) {
+    merged.isRealtime = true;
+  }
+  return merged;
+}
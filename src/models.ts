@@ -3,6 +3,9 @@
  * These types correspond to the Python TypedDict definitions
  */
 
+import type { FieldValue } from './fields';
+import type { CodecOptions } from './codecs';
+
 /**
  * Operation types for filtering
  */
@@ -37,18 +40,46 @@ export type Operation =
  */
 export type SortOrder = 'asc' | 'desc';
 
+/**
+ * Chart timeframe for interval-dependent fields
+ */
+export type Interval =
+  | '1m'
+  | '5m'
+  | '15m'
+  | '30m'
+  | '1h'
+  | '2h'
+  | '4h'
+  | '1d'
+  | '1w'
+  | '1M';
+
 /**
  * Logical operators
  */
 export type LogicalOperator = 'and' | 'or';
 
+/**
+ * Literal value used on the right-hand side of a filter.
+ * A string that names another field is treated by the scanner as a
+ * column-to-column comparison.
+ */
+export type FilterScalar = string | number | boolean;
+
+/**
+ * Right-hand side of a filter: a single value, a [min, max] range,
+ * a [column, pct] pair, or a list of values for has/has_none_of
+ */
+export type FilterValue = FilterScalar | FilterScalar[];
+
 /**
  * Filter operation dictionary
  */
 export interface FilterOperationDict {
   left: string;
   operation: Operation;
-  right?: any;
+  right?: FilterValue;
 }
 
 /**
@@ -126,6 +157,7 @@ export interface QueryDict {
 export interface ScreenerRowDict {
   s: string; // symbol
   d: any[]; // data values
+  m?: string; // market the row was scanned from
 }
 
 /**
@@ -134,14 +166,96 @@ export interface ScreenerRowDict {
 export interface ScreenerDict {
   totalCount: number;
   data: ScreenerRowDict[];
+  /**
+   * Whether the rows are real-time, derived from their update_mode values;
+   * undefined when update_mode was not fetched
+   */
+  isRealtime?: boolean;
+}
+
+/**
+ * Field entry of a metainfo response
+ */
+export interface MetainfoField {
+  /** Field name, e.g. "close" or the timeframe variant "close|15" */
+  n: string;
+  /**
+   * Value type: "number", "price", "percent", "fundamental_price", "bool",
+   * "time", "text", "set", "num_slice", "interface", "map", ...
+   */
+  t: string;
+  /** Allowed values of enumerated fields */
+  r?: unknown[] | null;
+}
+
+/**
+ * Response of the scanner's metainfo endpoint
+ */
+export interface MetainfoResponse {
+  /** Every field the market accepts */
+  fields: MetainfoField[];
+  [key: string]: unknown;
 }
 
+/**
+ * Formatted result row: the symbol, its market and one key per selected column.
+ * Known fields are typed from the field catalog; other columns are `any`.
+ */
+export type ScannerRow<C extends string = string> = {
+  symbol: string;
+  market?: string;
+} & {
+  [K in C]: FieldValue<K>;
+};
+
 /**
  * Scanner data result
  */
-export interface ScannerData {
+export interface ScannerData<C extends string = string> {
   totalCount: number;
-  data: Array<Record<string, any>>;
+  data: Array<ScannerRow<C>>;
+  /**
+   * Whether the data is real-time rather than delayed; undefined when
+   * unknown (see SessionManager)
+   */
+  isRealtime?: boolean;
+  /** Rows before value decoding, present when `decode` was used */
+  raw?: Array<ScannerRow<C>>;
+}
+
+/**
+ * How result keys are named for interval-suffixed columns
+ * - 'suffixed': keep the field name as sent, e.g. "RSI|15" (default)
+ * - 'base': strip the suffix, e.g. "RSI" (default after `setInterval()`);
+ *   fields whose name contains a suffix, such as "24h_vol|5", keep it
+ * - 'both': include both keys
+ */
+export type IntervalNaming = 'suffixed' | 'base' | 'both';
+
+/**
+ * Options for formatting scanner data
+ */
+export interface ScannerDataOptions {
+  intervalNaming?: IntervalNaming;
+  /** Validate the query locally and throw before sending it if it has errors */
+  strict?: boolean;
+  /**
+   * Decode values with the field codecs, e.g. timestamps to Date; the
+   * undecoded rows are kept as `raw` (default: false)
+   */
+  decode?: boolean | CodecOptions;
+}
+
+/**
+ * Options for paginating through a full result set
+ */
+export interface PaginationOptions extends ScannerDataOptions {
+  /** Rows requested per page (default: 500) */
+  pageSize?: number;
+  /** Safety cap on the total number of rows returned (default: 10000) */
+  maxRows?: number;
+  /** Optional cookies for authentication */
+  cookies?: Cookies;
 }
 
 /**
@@ -1,8 +1,13 @@
 /**
- * Logical operators for complex queries (AND/OR)
+ * Logical operators for complex queries (AND/OR/NOT)
  */
 
-import { ExpressionDict, OperationDict, FilterOperationDict } from './models';
+import {
+  ExpressionDict,
+  OperationDict,
+  FilterOperationDict,
+  Operation,
+} from './models';
 
 /**
  * AND operator - combines multiple filter conditions with AND logic
@@ -61,3 +66,72 @@ export function Or(
     },
   };
 }
+
+/**
+ * Complement of each operation that has one
+ */
+const COMPLEMENTS: Partial<Record<Operation, Operation>> = {
+  greater: 'eless',
+  eless: 'greater',
+  less: 'egreater',
+  egreater: 'less',
+  equal: 'nequal',
+  nequal: 'equal',
+  in_range: 'not_in_range',
+  not_in_range: 'in_range',
+  in_range_pct: 'not_in_range_pct',
+  not_in_range_pct: 'in_range_pct',
+  match: 'nmatch',
+  nmatch: 'match',
+  has: 'has_none_of',
+  has_none_of: 'has',
+  empty: 'nempty',
+  nempty: 'empty',
+};
+
+/**
+ * NOT operator - negates a filter expression or an AND/OR tree
+ * The scanner has no NOT, so each operation is replaced by its complement
+ * (e.g. greater becomes eless) and De Morgan's laws are applied to trees.
+ * Rows where the field is null are dropped by most operations, so they
+ * match neither a comparison nor its negation.
+ * @param expression - Filter expression or operation tree to negate
+ * @returns Equivalent filter using only operations the scanner supports
+ * @throws Error if the filter uses an operation without a complement,
+ *   such as crosses or in_day_range
+ */
+export function Not(expression: FilterOperationDict): FilterOperationDict;
+export function Not(expression: OperationDict): OperationDict;
+export function Not(
+  expression: FilterOperationDict | OperationDict
+): FilterOperationDict | OperationDict;
+export function Not(
+  expression: FilterOperationDict | OperationDict
+): FilterOperationDict | OperationDict {
+  if (
+    typeof expression.operation === 'object' &&
+    expression.operation !== null
+  ) {
+    const { operator, operands } = (expression as OperationDict).operation;
+    return {
+      operation: {
+        operator: operator === 'and' ? 'or' : 'and',
+        operands: operands.map((operand) =>
+          'expression' in operand
+            ? { expression: Not(operand.expression) }
+            : Not(operand)
+        ),
+      },
+    };
+  }
+
+  const expr = expression as FilterOperationDict;
+  const complement = COMPLEMENTS[expr.operation];
+  if (!complement) {
+    throw new Error(
+      `Cannot negate "${expr.left} ${expr.operation}": ` +
+        `operation "${expr.operation}" has no complement`
+    );
+  }
+  return { ...expr, operation: complement };
+}
@@ -0,0 +1,140 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Query } from './query';
+import { ScreenerClient } from './client';
+import { QueryParseError, parseQueryDict } from './parse';
+import { col } from './column';
+import { And, Or } from './operators';
+
+/**
+ * Client answering every scan with one NYSE:KO row of the given values
+ */
+function fakeClient(values: unknown[]): ScreenerClient {
+  const text = JSON.stringify({
+    totalCount: 1,
+    data: [{ s: 'NYSE:KO', d: values }],
+  });
+  return new ScreenerClient({
+    retry: false,
+    fetch: async () => ({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      text: async () => text,
+    }),
+  });
+}
+
+describe('Query.fromJSON', () => {
+  it('round-trips a query through toJSON', () => {
+    const query = new Query()
+      .select('name', 'close', 'RSI|15')
+      .setMarkets('america', 'uk')
+      .setTickers('NASDAQ:AAPL', 'NYSE:KO')
+      .where(col('close').gt(10), col('sector').isin(['Finance']))
+      .where2(
+        Or(col('volume').gt(1e6), And(col('RSI').lt(30), col('change').gt(0)))
+      )
+      .orderBy('volume', false, true)
+      .offset(20)
+      .limit(10);
+
+    const restored = Query.fromJSON(query.toJSON());
+
+    assert.deepEqual(restored.getQueryDict(), query.getQueryDict());
+    assert.equal(restored.toJSON(), query.toJSON());
+  });
+
+  it('restores the interval from the column suffixes', async () => {
+    const client = fakeClient(['Coca-Cola', 60, 45]);
+    const saved = new Query()
+      .select('name', 'close', 'RSI')
+      .setInterval('15m')
+      .toJSON();
+
+    const { data } = await Query.fromJSON(saved, client).getScannerData();
+
+    assert.deepEqual(data[0], {
+      symbol: 'NYSE:KO',
+      name: 'Coca-Cola',
+      close: 60,
+      RSI: 45,
+    });
+  });
+
+  it('keeps suffixed names when the columns mix timeframes', async () => {
+    const client = fakeClient([60, 45]);
+    const query = Query.fromQueryDict({ columns: ['close', 'RSI|15'] }, client);
+
+    const { data } = await query.getScannerData();
+
+    assert.deepEqual(data[0], { symbol: 'NYSE:KO', close: 60, 'RSI|15': 45 });
+  });
+
+  it('keeps unrecognized top-level keys', () => {
+    const restored = Query.fromQueryDict({
+      columns: ['name'],
+      ignore_unknown_fields: false,
+    });
+    assert.equal(
+      (restored.getQueryDict() as Record<string, unknown>)
+        .ignore_unknown_fields,
+      false
+    );
+  });
+
+  it('copies the payload', () => {
+    const input = { columns: ['name'], range: [0, 5] };
+    const queryDict = parseQueryDict(input);
+    queryDict.columns!.push('close');
+    assert.deepEqual(input.columns, ['name']);
+  });
+
+  it('rejects invalid JSON', () => {
+    assert.throws(() => Query.fromJSON('{"columns": ['), QueryParseError);
+  });
+
+  it('rejects payloads that are not serializable as JSON', () => {
+    const circular: Record<string, unknown> = { columns: ['name'] };
+    circular.self = circular;
+
+    assert.throws(() => parseQueryDict(circular), QueryParseError);
+    assert.throws(
+      () => Query.fromQueryDict({ columns: ['name'], range: [0n, 5n] }),
+      QueryParseError
+    );
+  });
+
+  it('points at the malformed entry', () => {
+    assert.throws(
+      () =>
+        Query.fromQueryDict({
+          filter: [
+            { left: 'close', operation: 'greater', right: 1 },
+            { left: 'close', operation: 'bigger', right: 1 },
+          ],
+        }),
+      (error: unknown) => {
+        assert.ok(error instanceof QueryParseError);
+        assert.equal(error.path, 'filter[1].operation');
+        return true;
+      }
+    );
+  });
+
+  it('checks nested filter2 operands', () => {
+    assert.throws(
+      () =>
+        Query.fromQueryDict({
+          filter2: {
+            operation: {
+              operator: 'and',
+              operands: [{ operation: { operator: 'xor', operands: [] } }],
+            },
+          },
+        }),
+      (error: unknown) =>
+        error instanceof QueryParseError && error.path.startsWith('filter2')
+    );
+  });
+});
@@ -0,0 +1,361 @@
+/**
+ * Shape checking for QueryDict payloads loaded from JSON, databases or
+ * requests captured from the TradingView web screener
+ */
+
+import {
+  QueryDict,
+  FilterOperationDict,
+  OperationDict,
+  ExpressionDict,
+  Operation,
+  SymbolsDict,
+  SortByDict,
+} from './models';
+
+/**
+ * Thrown when a payload does not have the shape of a QueryDict
+ */
+export class QueryParseError extends Error {
+  /** Location of the problem inside the payload, e.g. "filter[2].operation" */
+  readonly path: string;
+
+  constructor(path: string, message: string) {
+    super(`${path ? `${path}: ` : ''}${message}`);
+    this.name = 'QueryParseError';
+    this.path = path;
+  }
+}
+
+/**
+ * Every operation the scanner accepts
+ */
+const OPERATIONS: Record<Operation, true> = {
+  greater: true,
+  less: true,
+  egreater: true,
+  eless: true,
+  equal: true,
+  nequal: true,
+  in_range: true,
+  not_in_range: true,
+  in_day_range: true,
+  in_week_range: true,
+  in_month_range: true,
+  above_pct: true,
+  below_pct: true,
+  in_range_pct: true,
+  not_in_range_pct: true,
+  crosses: true,
+  crosses_above: true,
+  crosses_below: true,
+  match: true,
+  nmatch: true,
+  has: true,
+  has_none_of: true,
+  empty: true,
+  nempty: true,
+};
+
+/**
+ * Check whether a value is a known operation
+ */
+export function isOperation(value: unknown): value is Operation {
+  return (
+    typeof value === 'string' &&
+    Object.prototype.hasOwnProperty.call(OPERATIONS, value)
+  );
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function expectObject(value: unknown, path: string): Record<string, any> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new QueryParseError(
+      path,
+      `expected an object, got ${describe(value)}`
+    );
+  }
+  return value as Record<string, any>;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string') {
+    throw new QueryParseError(
+      path,
+      `expected a string, got ${describe(value)}`
+    );
+  }
+  return value;
+}
+
+function expectStringArray(value: unknown, path: string): string[] {
+  if (!Array.isArray(value)) {
+    throw new QueryParseError(
+      path,
+      `expected an array, got ${describe(value)}`
+    );
+  }
+  return value.map((item, index) => expectString(item, `${path}[${index}]`));
+}
+
+function expectScalar(value: unknown, path: string): void {
+  const type = typeof value;
+  if (type !== 'string' && type !== 'number' && type !== 'boolean') {
+    throw new QueryParseError(
+      path,
+      `expected a string, number or boolean, got ${describe(value)}`
+    );
+  }
+}
+
+/**
+ * Check a single filter expression
+ */
+export function parseFilterOperation(
+  input: unknown,
+  path: string = ''
+): FilterOperationDict {
+  const obj = expectObject(input, path);
+  const left = expectString(obj.left, `${path}.left`);
+  if (!isOperation(obj.operation)) {
+    throw new QueryParseError(
+      `${path}.operation`,
+      `unknown operation ${JSON.stringify(obj.operation)}`
+    );
+  }
+
+  const expr: FilterOperationDict = { left, operation: obj.operation };
+  if (obj.right !== undefined) {
+    if (Array.isArray(obj.right)) {
+      obj.right.forEach((item: unknown, index: number) =>
+        expectScalar(item, `${path}.right[${index}]`)
+      );
+      expr.right = [...obj.right];
+    } else {
+      expectScalar(obj.right, `${path}.right`);
+      expr.right = obj.right;
+    }
+  }
+  return expr;
+}
+
+/**
+ * Check an And/Or operation tree
+ */
+export function parseOperation(
+  input: unknown,
+  path: string = ''
+): OperationDict {
+  const obj = expectObject(input, path);
+  const comparison = expectObject(obj.operation, `${path}.operation`);
+  const operator = comparison.operator;
+  if (operator !== 'and' && operator !== 'or') {
+    throw new QueryParseError(
+      `${path}.operation.operator`,
+      `expected "and" or "or", got ${JSON.stringify(operator)}`
+    );
+  }
+
+  const operandsPath = `${path}.operation.operands`;
+  if (!Array.isArray(comparison.operands)) {
+    throw new QueryParseError(
+      operandsPath,
+      `expected an array, got ${describe(comparison.operands)}`
+    );
+  }
+
+  const operands = comparison.operands.map(
+    (operand: unknown, index: number): ExpressionDict | OperationDict => {
+      const operandPath = `${operandsPath}[${index}]`;
+      const operandObj = expectObject(operand, operandPath);
+      if ('expression' in operandObj) {
+        return {
+          expression: parseFilterOperation(
+            operandObj.expression,
+            `${operandPath}.expression`
+          ),
+        };
+      }
+      if ('operation' in operandObj) {
+        return parseOperation(operandObj, operandPath);
+      }
+      throw new QueryParseError(
+        operandPath,
+        'expected an object with "expression" or "operation"'
+      );
+    }
+  );
+
+  return { operation: { operator, operands } };
+}
+
+function parseSymbols(input: unknown, path: string): SymbolsDict {
+  const obj = expectObject(input, path);
+  const symbols: SymbolsDict = { ...obj };
+
+  if (obj.query !== undefined) {
+    const query = expectObject(obj.query, `${path}.query`);
+    symbols.query = {
+      ...query,
+      types: expectStringArray(query.types, `${path}.query.types`),
+    };
+  }
+  if (obj.tickers !== undefined) {
+    symbols.tickers = expectStringArray(obj.tickers, `${path}.tickers`);
+  }
+  if (obj.symbolset !== undefined) {
+    symbols.symbolset = expectString(obj.symbolset, `${path}.symbolset`);
+  }
+  if (obj.watchlist !== undefined) {
+    const watchlist = expectObject(obj.watchlist, `${path}.watchlist`);
+    // Watchlist ids are numeric in captured payloads
+    if (typeof watchlist.id !== 'string' && typeof watchlist.id !== 'number') {
+      throw new QueryParseError(
+        `${path}.watchlist.id`,
+        `expected a string or number, got ${describe(watchlist.id)}`
+      );
+    }
+    symbols.watchlist = { id: String(watchlist.id) };
+  }
+  if (obj.groups !== undefined) {
+    if (!Array.isArray(obj.groups)) {
+      throw new QueryParseError(
+        `${path}.groups`,
+        `expected an array, got ${describe(obj.groups)}`
+      );
+    }
+    symbols.groups = obj.groups.map((group: unknown, index: number) => {
+      const groupPath = `${path}.groups[${index}]`;
+      const groupObj = expectObject(group, groupPath);
+      return {
+        type: expectString(groupObj.type, `${groupPath}.type`),
+        values: expectStringArray(groupObj.values, `${groupPath}.values`),
+      };
+    });
+  }
+  return symbols;
+}
+
+function parseSort(input: unknown, path: string): SortByDict {
+  const obj = expectObject(input, path);
+  const sort: SortByDict = {
+    sortBy: expectString(obj.sortBy, `${path}.sortBy`),
+    sortOrder: obj.sortOrder,
+  };
+  if (obj.sortOrder !== 'asc' && obj.sortOrder !== 'desc') {
+    throw new QueryParseError(
+      `${path}.sortOrder`,
+      `expected "asc" or "desc", got ${JSON.stringify(obj.sortOrder)}`
+    );
+  }
+  if (obj.nullsFirst !== undefined) {
+    if (typeof obj.nullsFirst !== 'boolean') {
+      throw new QueryParseError(
+        `${path}.nullsFirst`,
+        `expected a boolean, got ${describe(obj.nullsFirst)}`
+      );
+    }
+    sort.nullsFirst = obj.nullsFirst;
+  }
+  return sort;
+}
+
+function parseRange(input: unknown, path: string): [number, number] {
+  if (
+    !Array.isArray(input) ||
+    input.length !== 2 ||
+    !input.every((n) => Number.isInteger(n))
+  ) {
+    throw new QueryParseError(
+      path,
+      'expected a [start, end] pair of integers'
+    );
+  }
+  return [input[0], input[1]];
+}
+
+/**
+ * Deep copy a payload through JSON, so the result holds only JSON values
+ */
+function copyJSON(input: unknown): unknown {
+  try {
+    return JSON.parse(JSON.stringify(input ?? null));
+  } catch (error) {
+    // BigInt values and circular references
+    throw new QueryParseError(
+      '',
+      `not serializable as JSON: ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * Check that a value has the shape of a QueryDict and return a copy of it.
+ * Unrecognized top-level keys are kept so captured payloads round-trip.
+ * @param input - Parsed JSON or object to check
+ * @returns Deep copy of the input as a QueryDict
+ * @throws QueryParseError pointing at the first malformed entry
+ */
+export function parseQueryDict(input: unknown): QueryDict {
+  const obj = expectObject(copyJSON(input), '');
+  const queryDict: QueryDict = { ...obj };
+
+  if (obj.markets !== undefined) {
+    queryDict.markets = expectStringArray(obj.markets, 'markets');
+  }
+  if (obj.symbols !== undefined) {
+    queryDict.symbols = parseSymbols(obj.symbols, 'symbols');
+  }
+  if (obj.options !== undefined) {
+    const options = expectObject(obj.options, 'options');
+    if (options.lang !== undefined) {
+      expectString(options.lang, 'options.lang');
+    }
+    queryDict.options = options;
+  }
+  if (obj.columns !== undefined) {
+    queryDict.columns = expectStringArray(obj.columns, 'columns');
+  }
+  if (obj.filter !== undefined) {
+    if (!Array.isArray(obj.filter)) {
+      throw new QueryParseError(
+        'filter',
+        `expected an array, got ${describe(obj.filter)}`
+      );
+    }
+    queryDict.filter = obj.filter.map((expr: unknown, index: number) =>
+      parseFilterOperation(expr, `filter[${index}]`)
+    );
+  }
+  if (obj.filter2 !== undefined) {
+    queryDict.filter2 = parseOperation(obj.filter2, 'filter2');
+  }
+  if (obj.sort !== undefined) {
+    queryDict.sort = parseSort(obj.sort, 'sort');
+  }
+  if (obj.range !== undefined) {
+    queryDict.range = parseRange(obj.range, 'range');
+  }
+  if (obj.preset !== undefined) {
+    queryDict.preset = expectString(obj.preset, 'preset');
+  }
+  if (obj.price_conversion !== undefined) {
+    const conversion = expectObject(obj.price_conversion, 'price_conversion');
+    if (
+      conversion.to_symbol !== undefined &&
+      typeof conversion.to_symbol !== 'boolean'
+    ) {
+      throw new QueryParseError(
+        'price_conversion.to_symbol',
+        `expected a boolean, got ${describe(conversion.to_symbol)}`
+      );
+    }
+    queryDict.price_conversion = conversion;
+  }
+  return queryDict;
+}
@@ -0,0 +1,308 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Query } from './query';
+import { ScreenerClient, FetchRequestInit } from './client';
+import { QueryDict, ScreenerRowDict } from './models';
+import { col } from './column';
+import { Or } from './operators';
+import { mergeScreenerResults } from './merge';
+
+/**
+ * Client backed by an in-memory scanner: each market holds rows of
+ * [symbol, close] (on every timeframe), filtered by tickers, sorted by
+ * close and ranged
+ */
+function fakeClient(
+  universe: Record<string, Array<[string, number | null]>>,
+  options: { maxTickersPerRequest?: number } = {}
+) {
+  const requests: Array<{ market: string; body: QueryDict }> = [];
+  const client = new ScreenerClient({
+    retry: false,
+    ...options,
+    fetch: async (url: string, init: FetchRequestInit) => {
+      const market = url.split('/').slice(-2)[0];
+      const body = JSON.parse(init.body!) as QueryDict;
+      requests.push({ market, body });
+
+      let rows = universe[market] ?? [];
+      const tickers = body.symbols?.tickers;
+      if (tickers) {
+        rows = rows.filter(([symbol]) => tickers.includes(symbol));
+      }
+      const sign = body.sort?.sortOrder === 'desc' ? -1 : 1;
+      rows = [...rows].sort(
+        ([, a], [, b]) => sign * ((a ?? -Infinity) - (b ?? -Infinity))
+      );
+      const [start, end] = body.range ?? [0, rows.length];
+      const data: ScreenerRowDict[] = rows
+        .slice(start, end)
+        .map(([symbol, close]) => ({
+          s: symbol,
+          d: (body.columns ?? []).map((column) =>
+            column.split('|')[0] === 'close' ? close : symbol
+          ),
+        }));
+      const text = JSON.stringify({ totalCount: rows.length, data });
+      return {
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        text: async () => text,
+      };
+    },
+  });
+  return { client, requests };
+}
+
+describe('multi-market queries', () => {
+  const universe: Record<string, Array<[string, number | null]>> = {
+    america: [
+      ['NASDAQ:AAPL', 190],
+      ['NYSE:KO', 60],
+      ['NASDAQ:MSFT', 410],
+    ],
+    uk: [
+      ['LSE:BP.', 480],
+      ['LSE:VOD', 70],
+    ],
+  };
+
+  it('merges markets in sort order and applies the range', async () => {
+    const { client, requests } = fakeClient(universe);
+    const result = await new Query(client)
+      .select('name', 'close')
+      .setMarkets('america', 'uk')
+      .orderBy('close', false)
+      .offset(1)
+      .limit(3)
+      .getScannerData();
+
+    assert.equal(requests.length, 2);
+    assert.deepEqual(
+      requests.map((r) => r.body.range),
+      [
+        [0, 4],
+        [0, 4],
+      ]
+    );
+    assert.equal(result.totalCount, 5);
+    assert.deepEqual(
+      result.data.map((row) => [row.symbol, row.market]),
+      [
+        ['NASDAQ:MSFT', 'america'],
+        ['NASDAQ:AAPL', 'america'],
+        ['LSE:VOD', 'uk'],
+      ]
+    );
+  });
+
+  it('requests an unselected sort column and drops it from rows', async () => {
+    const { client, requests } = fakeClient(universe);
+    const result = await new Query(client)
+      .select('name')
+      .setMarkets('america', 'uk')
+      .orderBy('close')
+      .limit(2)
+      .getScannerData();
+
+    assert.deepEqual(requests[0].body.columns, ['name', 'close']);
+    assert.deepEqual(
+      result.data.map((row) => row.symbol),
+      ['NYSE:KO', 'LSE:VOD']
+    );
+    assert.deepEqual(Object.keys(result.data[0]).sort(), [
+      'market',
+      'name',
+      'symbol',
+    ]);
+  });
+
+  it('splits large ticker sets and merges the chunks', async () => {
+    const { client, requests } = fakeClient(universe, {
+      maxTickersPerRequest: 2,
+    });
+    const result = await new Query(client)
+      .select('close')
+      .setTickers('NASDAQ:AAPL', 'NYSE:KO', 'NASDAQ:MSFT', 'NYSE:KO')
+      .orderBy('close')
+      .getScannerData();
+
+    assert.deepEqual(
+      requests.map((r) => r.body.symbols?.tickers),
+      [['NASDAQ:AAPL', 'NYSE:KO'], ['NASDAQ:MSFT']]
+    );
+    assert.equal(result.totalCount, 3);
+    assert.deepEqual(
+      result.data.map((row) => row.close),
+      [60, 190, 410]
+    );
+    assert.equal(result.data[0].market, undefined);
+  });
+
+  it('only records the market for multi-market queries', async () => {
+    const { client } = fakeClient(universe);
+    const result = await new Query(client)
+      .select('close')
+      .setMarkets('uk')
+      .getScannerData();
+
+    assert.deepEqual(result.data[0], { symbol: 'LSE:VOD', close: 70 });
+  });
+
+  it('pages each market by its own offset', async () => {
+    const { client, requests } = fakeClient(universe);
+    const pages: string[][] = [];
+    const query = new Query(client)
+      .select('close')
+      .setMarkets('america', 'uk')
+      .orderBy('close', false);
+    for await (const row of query.iterate({ pageSize: 2 })) {
+      if (pages.length === 0 || pages[pages.length - 1].length === 2) {
+        pages.push([]);
+      }
+      pages[pages.length - 1].push(row.symbol);
+    }
+
+    assert.deepEqual(pages, [
+      ['LSE:BP.', 'NASDAQ:MSFT'],
+      ['NASDAQ:AAPL', 'LSE:VOD'],
+      ['NYSE:KO'],
+    ]);
+    assert.deepEqual(
+      requests.map((r) => [r.market, r.body.range]),
+      [
+        ['america', [0, 2]],
+        ['uk', [0, 2]],
+        ['america', [2, 4]],
+      ]
+    );
+  });
+
+  it('honors the offset and row cap when paging merged markets', async () => {
+    const { client } = fakeClient(universe);
+    const result = await new Query(client)
+      .select('close')
+      .setMarkets('america', 'uk')
+      .orderBy('close')
+      .offset(1)
+      .getAllScannerData({ pageSize: 2, maxRows: 3 });
+
+    assert.equal(result.totalCount, 5);
+    assert.deepEqual(
+      result.data.map((row) => [row.symbol, row.market]),
+      [
+        ['LSE:VOD', 'uk'],
+        ['NASDAQ:AAPL', 'america'],
+        ['NASDAQ:MSFT', 'america'],
+      ]
+    );
+  });
+});
+
+describe('mergeScreenerResults', () => {
+  it('places nulls last regardless of direction', () => {
+    const merged = mergeScreenerResults(
+      [
+        { totalCount: 2, data: [{ s: 'A', d: [null] }, { s: 'B', d: [1] }] },
+        { totalCount: 1, data: [{ s: 'C', d: [2] }] },
+      ],
+      { sortBy: 'x', sortOrder: 'desc' },
+      0
+    );
+    assert.deepEqual(
+      merged.data.map((row) => row.s),
+      ['C', 'B', 'A']
+    );
+    assert.equal(merged.totalCount, 3);
+  });
+
+  it('reports delayed data if any response was delayed', () => {
+    const merged = mergeScreenerResults([
+      { totalCount: 0, data: [], isRealtime: true },
+      { totalCount: 0, data: [], isRealtime: false },
+    ]);
+    assert.equal(merged.isRealtime, false);
+  });
+});
+
+describe('Query.setInterval', () => {
+  it('rewrites columns, sort and both sides of filters', () => {
+    const query = new Query()
+      .select('name', 'close', 'RSI')
+      .where(
+        col('close').crossesAbove(col('SMA20')),
+        col('close').between(col('BB.lower'), col('BB.upper')),
+        col('close').abovePct(col('VWAP'), 1.03)
+      )
+      .where2(Or(col('RSI').lt(col('RSI[1]')), col('sector').eq('Finance')))
+      .orderBy('volume')
+      .setInterval('15m');
+    const queryDict = query.getQueryDict();
+
+    assert.deepEqual(queryDict.columns, ['name', 'close|15', 'RSI|15']);
+    assert.equal(queryDict.sort?.sortBy, 'volume|15');
+    assert.deepEqual(
+      queryDict.filter?.map((expr) => [expr.left, expr.right]),
+      [
+        ['close|15', 'SMA20|15'],
+        ['close|15', ['BB.lower|15', 'BB.upper|15']],
+        ['close|15', ['VWAP|15', 1.03]],
+      ]
+    );
+    assert.deepEqual(
+      queryDict.filter2,
+      Or(col('RSI|15').lt(col('RSI[1]|15')), col('sector').eq('Finance'))
+    );
+  });
+
+  it('leaves timeframe-independent columns alone', () => {
+    const queryDict = new Query()
+      .select('name', 'update_mode', 'close')
+      .setInterval('15m')
+      .getQueryDict();
+    assert.deepEqual(queryDict.columns, ['name', 'update_mode', 'close|15']);
+  });
+
+  it('leaves text operands alone', () => {
+    const queryDict = new Query()
+      .where(col('name').like('close'), col('typespecs').has(['close']))
+      .setInterval('1h')
+      .getQueryDict();
+    assert.deepEqual(
+      queryDict.filter?.map((expr) => expr.right),
+      ['close', ['close']]
+    );
+  });
+
+  it('keys rows by the selected names', async () => {
+    const { client } = fakeClient({ america: [['NYSE:KO', 60]] });
+    const query = new Query(client)
+      .select('name', 'close')
+      .setMarkets('america')
+      .setInterval('15m');
+
+    const { data } = await query.copy().getScannerData();
+    assert.deepEqual(data[0], {
+      symbol: 'NYSE:KO',
+      name: 'NYSE:KO',
+      close: 60,
+    });
+
+    const suffixed = await query.getScannerData(undefined, {
+      intervalNaming: 'suffixed',
+    });
+    assert.equal((suffixed.data[0] as Record<string, unknown>)['close|15'], 60);
+  });
+
+  it('replaces an earlier interval', () => {
+    const queryDict = new Query()
+      .select('close')
+      .where(col('close').gt(col('SMA50')))
+      .setInterval('15m')
+      .setInterval('1d')
+      .getQueryDict();
+    assert.deepEqual(queryDict.columns, ['close']);
+    assert.equal(queryDict.filter?.[0].right, 'SMA50');
+  });
+});
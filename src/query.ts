@@ -2,24 +2,96 @@
  * Query class for building and executing TradingView screener queries
  */
 
-import fetch from 'node-fetch';
 import {
   QueryDict,
   ScreenerDict,
+  ScreenerRowDict,
   ScannerData,
+  ScannerRow,
   FilterOperationDict,
+  FilterScalar,
+  Operation,
   OperationDict,
   ExpressionDict,
   SortOrder,
   Cookies,
+  Interval,
+  ScannerDataOptions,
+  PaginationOptions,
+  SymbolsDict,
 } from './models';
+import { intervalOf, stripInterval, withInterval } from './interval';
+import { compareValues, mergeScreenerResults } from './merge';
+import { mapConcurrent } from './ratelimit';
+import { chunkTickers } from './tickers';
+import { decodeScannerData } from './codecs';
+import { ScreenerClient, defaultClient } from './client';
+import { FieldCatalog, FieldInfo, defaultCatalog } from './fields';
+import { QueryParseError, parseQueryDict } from './parse';
+import { parseFilterExpression } from './expression';
+import { ExplainOptions, explainQueryDict } from './explain';
+import { And } from './operators';
+import {
+  QueryDiagnostic,
+  QueryValidationError,
+  ValidationOptions,
+  validateQueryDict,
+} from './validation';
+
+/**
+ * One request of a query split across markets and ticker chunks
+ */
+interface FanOutSource {
+  market: string;
+  tickers?: string[];
+  /** Record the market on each row (set when the query spans several) */
+  tagMarket: boolean;
+}
+
+/**
+ * Operations whose right-hand strings are always text, never columns
+ */
+const LITERAL_OPERATIONS = new Set<Operation>([
+  'match',
+  'nmatch',
+  'has',
+  'has_none_of',
+]);
 
-const SCREENER_URL = 'https://scanner.tradingview.com';
+const DEFAULT_PAGE_SIZE = 500;
+const DEFAULT_MAX_ROWS = 10_000;
 
-export class Query {
+/**
+ * Interval that `setInterval()` applied to a list of columns: the one
+ * suffix shared by every timeframe-dependent column, undefined when they
+ * mix timeframes or have none
+ */
+function columnsInterval(columns: string[] = []): Interval | undefined {
+  let interval: Interval | undefined;
+  for (const column of columns) {
+    if (!defaultCatalog.supportsInterval(column)) continue;
+    const current = intervalOf(column);
+    if (!current || (interval && current !== interval)) return undefined;
+    interval = current;
+  }
+  return interval;
+}
+
+/**
+ * Query builder. The type parameter tracks the selected columns so that
+ * result rows are typed, e.g. `new Query().select('name', 'close')` yields
+ * rows with `name: string | null` and `close: number | null`.
+ */
+export class Query<C extends string = string> {
   private queryDict: QueryDict;
+  private client: ScreenerClient;
+  private interval?: Interval;
 
-  constructor() {
+  /**
+   * @param client - Client to execute the query through (default: shared client)
+   */
+  constructor(client: ScreenerClient = defaultClient) {
+    this.client = client;
     this.queryDict = {
       markets: ['america'],
       symbols: {},
@@ -36,16 +108,86 @@ export class Query {
     };
   }
 
+  /**
+   * Rebuild a query from a QueryDict, e.g. one saved from `getQueryDict()`
+   * or captured from the TradingView web screener. When every
+   * timeframe-dependent column carries the same suffix, the query is
+   * treated as if `setInterval()` set it, so rows are keyed by base names.
+   * @param queryDict - Query payload
+   * @param client - Client to execute the query through (default: shared client)
+   * @returns New Query instance
+   * @throws QueryParseError if the payload is malformed
+   */
+  static fromQueryDict(
+    queryDict: unknown,
+    client: ScreenerClient = defaultClient
+  ): Query {
+    const query = new Query(client);
+    query.queryDict = parseQueryDict(queryDict);
+    query.interval = columnsInterval(query.queryDict.columns);
+    return query;
+  }
+
+  /**
+   * Rebuild a query from a JSON string, e.g. the output of `toJSON()`
+   * @param json - JSON representation of a QueryDict
+   * @param client - Client to execute the query through (default: shared client)
+   * @returns New Query instance
+   * @throws QueryParseError if the JSON is invalid or malformed
+   */
+  static fromJSON(json: string, client: ScreenerClient = defaultClient): Query {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(json);
+    } catch (error) {
+      throw new QueryParseError('', `invalid JSON: ${(error as Error).message}`);
+    }
+    return Query.fromQueryDict(parsed, client);
+  }
+
+  /**
+   * Set the client the query executes through
+   * @param client - Screener client (endpoint, headers, fetch implementation)
+   * @returns Query instance for chaining
+   */
+  setClient(client: ScreenerClient): Query<C> {
+    this.client = client;
+    return this;
+  }
+
+  /**
+   * Get the client the query executes through
+   * @returns ScreenerClient instance
+   */
+  getClient(): ScreenerClient {
+    return this.client;
+  }
+
   /**
    * Select specific columns to retrieve
    * @param columns - Column names to select
    * @returns Query instance for chaining
    */
-  select(...columns: string[]): Query {
+  select<K extends string>(...columns: K[]): Query<K> {
     if (columns.length > 0) {
       this.queryDict.columns = columns;
     }
-    return this;
+    return this as unknown as Query<K>;
+  }
+
+  /**
+   * Look up the selected columns in a field catalog
+   * @param catalog - Catalog to search (default: bundled catalog)
+   * @returns Field metadata per selected column; undefined for unknown fields
+   */
+  getFieldInfo(
+    catalog: FieldCatalog = defaultCatalog
+  ): Record<string, FieldInfo | undefined> {
+    const info: Record<string, FieldInfo | undefined> = {};
+    for (const column of this.queryDict.columns || []) {
+      info[column] = catalog.get(column);
+    }
+    return info;
   }
 
   /**
@@ -53,7 +195,7 @@ export class Query {
    * @param markets - Market identifiers (e.g., 'america', 'india', 'forex')
    * @returns Query instance for chaining
    */
-  setMarkets(...markets: string[]): Query {
+  setMarkets(...markets: string[]): Query<C> {
     if (markets.length > 0) {
       this.queryDict.markets = markets;
     }
@@ -61,47 +203,124 @@ export class Query {
   }
 
   /**
-   * Set specific tickers to filter
+   * Get the symbols restriction, creating it if needed
+   */
+  private symbols(): SymbolsDict {
+    if (!this.queryDict.symbols) {
+      this.queryDict.symbols = {};
+    }
+    return this.queryDict.symbols;
+  }
+
+  /**
+   * Set specific tickers to filter.
+   * Like every `set*` method, replaces the previous value; pass all tickers
+   * in one call to combine them.
    * @param tickers - Ticker symbols in format "EXCHANGE:SYMBOL"
    * @returns Query instance for chaining
    */
-  setTickers(...tickers: string[]): Query {
+  setTickers(...tickers: string[]): Query<C> {
     if (tickers.length > 0) {
-      if (!this.queryDict.symbols) {
-        this.queryDict.symbols = {};
-      }
-      this.queryDict.symbols.tickers = tickers;
+      this.symbols().tickers = tickers;
     }
     return this;
   }
 
   /**
-   * Set index to filter equities
-   * @param indexes - Index names
+   * Set index to filter equities. Replaces the indexes of an earlier call.
+   * @param indexes - Index names, e.g. "SYML:SP;SPX"
    * @returns Query instance for chaining
    */
-  setIndex(...indexes: string[]): Query {
-    if (indexes.length > 0) {
-      if (!this.queryDict.symbols) {
-        this.queryDict.symbols = {};
-      }
-      if (!this.queryDict.symbols.groups) {
-        this.queryDict.symbols.groups = [];
-      }
-      this.queryDict.symbols.groups.push({
-        type: 'index',
-        values: indexes,
-      });
+  setIndex(...indexes: string[]): Query<C> {
+    return this.setGroup('index', ...indexes);
+  }
+
+  /**
+   * Restrict symbols to the members of a group, replacing any earlier
+   * group of the same type. Groups of other types are kept.
+   * @param type - Group type, e.g. "index"
+   * @param values - Group members
+   * @returns Query instance for chaining
+   */
+  setGroup(type: string, ...values: string[]): Query<C> {
+    if (values.length > 0) {
+      const symbols = this.symbols();
+      symbols.groups = [
+        ...(symbols.groups || []).filter((group) => group.type !== type),
+        { type, values },
+      ];
     }
     return this;
   }
 
+  /**
+   * Restrict symbols to instrument types
+   * @param types - Symbol types, e.g. "stock", "fund", "dr"
+   * @returns Query instance for chaining
+   */
+  setSymbolTypes(...types: string[]): Query<C> {
+    if (types.length > 0) {
+      this.symbols().query = { types };
+    }
+    return this;
+  }
+
+  /**
+   * Restrict symbols to a symbol set
+   * @param symbolset - Symbol set identifier, e.g. "SYML:SP;SPX"
+   * @returns Query instance for chaining
+   */
+  setSymbolset(symbolset: string): Query<C> {
+    this.symbols().symbolset = symbolset;
+    return this;
+  }
+
+  /**
+   * Restrict symbols to a saved watchlist (requires the owner's session)
+   * @param id - Watchlist id
+   * @returns Query instance for chaining
+   */
+  setWatchlist(id: string | number): Query<C> {
+    this.symbols().watchlist = { id: String(id) };
+    return this;
+  }
+
+  /**
+   * Apply a screener preset
+   * @param preset - Preset name, e.g. "all_stocks"
+   * @returns Query instance for chaining
+   */
+  setPreset(preset: string): Query<C> {
+    this.queryDict.preset = preset;
+    return this;
+  }
+
+  /**
+   * Convert prices to the symbol's own currency rather than the market's
+   * @param toSymbol - Whether to convert to the symbol currency (default: true)
+   * @returns Query instance for chaining
+   */
+  setPriceConversion(toSymbol: boolean = true): Query<C> {
+    this.queryDict.price_conversion = { to_symbol: toSymbol };
+    return this;
+  }
+
+  /**
+   * Set the language of localized values such as descriptions and sectors
+   * @param lang - Language code (default on new queries: "en")
+   * @returns Query instance for chaining
+   */
+  setLanguage(lang: string): Query<C> {
+    this.queryDict.options = { ...this.queryDict.options, lang };
+    return this;
+  }
+
   /**
    * Add filter conditions with AND logic
    * @param expressions - Filter expressions to apply
    * @returns Query instance for chaining
    */
-  where(...expressions: FilterOperationDict[]): Query {
+  where(...expressions: FilterOperationDict[]): Query<C> {
     if (!this.queryDict.filter) {
       this.queryDict.filter = [];
     }
@@ -117,11 +336,99 @@ export class Query {
    * @param operation - Complex operation with nested logic
    * @returns Query instance for chaining
    */
-  where2(operation: OperationDict): Query {
+  where2(operation: OperationDict): Query<C> {
     this.queryDict.filter2 = operation;
     return this;
   }
 
+  /**
+   * Add filters written as a text expression, e.g.
+   * `close > 10 and (volume > 1e6 or sector in ("Finance"))`.
+   * Plain conditions and AND-ed conditions are added to the filter list;
+   * trees using OR or NOT are AND-ed with any existing filter2 tree.
+   * @param expression - Filter expression, see `parseFilterExpression`
+   * @returns Query instance for chaining
+   * @throws FilterSyntaxError if the expression is malformed
+   */
+  whereExpr(expression: string): Query<C> {
+    const filter = parseFilterExpression(expression);
+    if (!('operation' in filter && typeof filter.operation === 'object')) {
+      return this.where(filter as FilterOperationDict);
+    }
+
+    const tree = filter as OperationDict;
+    const { operator, operands } = tree.operation;
+    if (
+      operator === 'and' &&
+      operands.every((operand) => 'expression' in operand)
+    ) {
+      return this.where(
+        ...operands.map((operand) => (operand as ExpressionDict).expression)
+      );
+    }
+    return this.where2(
+      this.queryDict.filter2 ? And(this.queryDict.filter2, tree) : tree
+    );
+  }
+
+  /**
+   * Set the timeframe for every interval-dependent field in the query.
+   * Rewrites selected columns, the sort field and both sides of filters
+   * (including filter2 trees): right-hand strings naming a catalog field
+   * are column references, as in `close > SMA50` or crossings. Fields that
+   * have no timeframe (name, sector, ...) are left unchanged, as are the
+   * values of text and list operations (like, in, has).
+   * Result rows are then keyed by the names as selected ("RSI", not
+   * "RSI|15"), matching the row type, unless `intervalNaming` says otherwise.
+   * @param interval - Timeframe, e.g. '15m', '1h', '1d'
+   * @returns Query instance for chaining
+   */
+  setInterval(interval: Interval): Query<C> {
+    const rewrite = (field: string): string =>
+      defaultCatalog.supportsInterval(field)
+        ? withInterval(field, interval)
+        : field;
+    const rewriteOperand = (value: FilterScalar): FilterScalar =>
+      typeof value === 'string' && defaultCatalog.has(value)
+        ? rewrite(value)
+        : value;
+
+    const rewriteExpression = (expr: FilterOperationDict): void => {
+      expr.left = rewrite(expr.left);
+      if (expr.right === undefined || LITERAL_OPERATIONS.has(expr.operation)) {
+        return;
+      }
+      expr.right = Array.isArray(expr.right)
+        ? expr.right.map(rewriteOperand)
+        : rewriteOperand(expr.right);
+    };
+
+    const rewriteOperation = (operation: OperationDict): void => {
+      for (const operand of operation.operation.operands) {
+        if ('expression' in operand) {
+          rewriteExpression(operand.expression);
+        } else {
+          rewriteOperation(operand);
+        }
+      }
+    };
+
+    if (this.queryDict.columns) {
+      this.queryDict.columns = this.queryDict.columns.map(rewrite);
+    }
+    if (this.queryDict.filter) {
+      this.queryDict.filter.forEach(rewriteExpression);
+    }
+    if (this.queryDict.filter2) {
+      rewriteOperation(this.queryDict.filter2);
+    }
+    if (this.queryDict.sort) {
+      this.queryDict.sort.sortBy = rewrite(this.queryDict.sort.sortBy);
+    }
+    this.interval = interval;
+    return this;
+  }
+
   /**
    * Set sorting order
    * @param column - Column to sort by
@@ -133,7 +440,7 @@ export class Query {
     column: string,
     ascending: boolean = true,
     nullsFirst: boolean = false
-  ): Query {
+  ): Query<C> {
     this.queryDict.sort = {
       sortBy: column,
       sortOrder: ascending ? 'asc' : 'desc',
@@ -147,7 +454,7 @@ export class Query {
    * @param limit - Maximum number of results
    * @returns Query instance for chaining
    */
-  limit(limit: number): Query {
+  limit(limit: number): Query<C> {
     if (!this.queryDict.range) {
       this.queryDict.range = [0, limit];
     } else {
@@ -161,7 +468,7 @@ export class Query {
    * @param offset - Number of results to skip
    * @returns Query instance for chaining
    */
-  offset(offset: number): Query {
+  offset(offset: number): Query<C> {
     if (!this.queryDict.range) {
       this.queryDict.range = [offset, offset + 50];
     } else {
@@ -175,9 +482,10 @@ export class Query {
    * Create a copy of this query
    * @returns New Query instance with same configuration
    */
-  copy(): Query {
-    const newQuery = new Query();
+  copy(): Query<C> {
+    const newQuery = new Query<C>(this.client);
     newQuery.queryDict = JSON.parse(JSON.stringify(this.queryDict));
+    newQuery.interval = this.interval;
     return newQuery;
   }
 
@@ -190,51 +498,188 @@ export class Query {
   }
 
   /**
-   * Execute query and get raw API response
+   * Check the query locally for unknown fields, operations that don't fit
+   * a field's type or market, inverted ranges and an empty result range
+   * @param options - Catalog to check against and unknown-field severity
+   * @returns Diagnostics with their path inside the QueryDict
+   */
+  validate(options: ValidationOptions = {}): QueryDiagnostic[] {
+    return validateQueryDict(this.queryDict, options);
+  }
+
+  /**
+   * Execute query and get raw API response.
+   * When several markets are set, one request is sent per market and the
+   * results are merged, honoring `sort` and `range` across the combined set.
+   * Each row's `m` field then records the market it came from.
+   * Ticker sets larger than the client's `maxTickersPerRequest` are split
+   * the same way, with at most `concurrency` requests in flight.
    * @param cookies - Optional cookies for authentication
    * @returns Raw screener response
    */
   async getScannerDataRaw(cookies?: Cookies): Promise<ScreenerDict> {
-    const market = this.queryDict.markets?.[0] || 'america';
-    const url = `${SCREENER_URL}/${market}/scan`;
+    const sources = this.fanOut();
+    if (sources.length === 1) {
+      return this.scanMarket(sources[0].market, this.queryDict, cookies);
+    }
+    return this.scanMarkets(sources, cookies);
+  }
 
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      'User-Agent':
-        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-    };
+  /**
+   * Split the query into one request per market and ticker chunk
+   */
+  private fanOut(): FanOutSource[] {
+    const markets = this.queryDict.markets?.length
+      ? this.queryDict.markets
+      : ['america'];
+    const tickers = this.queryDict.symbols?.tickers;
+    const tickerChunks =
+      tickers && tickers.length > this.client.maxTickersPerRequest
+        ? chunkTickers([...new Set(tickers)], this.client.maxTickersPerRequest)
+        : [tickers];
+    const tagMarket = markets.length > 1;
+    return markets.flatMap((market) =>
+      tickerChunks.map((chunk) => ({ market, tickers: chunk, tagMarket }))
+    );
+  }
 
-    if (cookies) {
-      const cookieString = Object.entries(cookies)
-        .map(([key, value]) => `${key}=${value}`)
-        .join('; ');
-      headers['Cookie'] = cookieString;
+  /**
+   * Columns to request when merging fanned-out results: the sort column
+   * is needed to merge rows, even if it wasn't selected
+   */
+  private mergeColumns(): { columns: string[]; sortIndex: number } {
+    const columns = this.queryDict.columns || [];
+    const sort = this.queryDict.sort;
+    if (!sort) {
+      return { columns, sortIndex: -1 };
     }
+    const sortIndex = columns.indexOf(sort.sortBy);
+    return sortIndex === -1
+      ? { columns: [...columns, sort.sortBy], sortIndex: columns.length }
+      : { columns, sortIndex };
+  }
 
-    const response = await fetch(url, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(this.queryDict),
-    });
+  /**
+   * Send one fanned-out request, tagging rows with their market when the
+   * query spans several markets
+   */
+  private async scanSource(
+    source: FanOutSource,
+    columns: string[],
+    range: [number, number] | undefined,
+    cookies?: Cookies
+  ): Promise<ScreenerDict> {
+    const queryDict: QueryDict = { ...this.queryDict, columns, range };
+    if (source.tickers) {
+      queryDict.symbols = { ...queryDict.symbols, tickers: source.tickers };
+    }
+    const response = await this.scanMarket(source.market, queryDict, cookies);
+    if (source.tagMarket) {
+      response.data = response.data.map((row) => ({
+        ...row,
+        m: source.market,
+      }));
+    }
+    return response;
+  }
 
-    if (!response.ok) {
-      throw new Error(
-        `TradingView API request failed: ${response.status} ${response.statusText}`
-      );
+  /**
+   * Fan out the query to each market and ticker chunk, and merge the results
+   */
+  private async scanMarkets(
+    sources: FanOutSource[],
+    cookies?: Cookies
+  ): Promise<ScreenerDict> {
+    const columns = this.queryDict.columns || [];
+    const range = this.queryDict.range;
+    const request = this.mergeColumns();
+
+    // Every request must return enough rows to fill the combined range
+    const results = await mapConcurrent(
+      sources,
+      this.client.concurrency,
+      (source) =>
+        this.scanSource(
+          source,
+          request.columns,
+          range ? [0, range[1]] : undefined,
+          cookies
+        )
+    );
+    const merged = mergeScreenerResults(
+      results,
+      this.queryDict.sort,
+      request.sortIndex,
+      range
+    );
+    return this.dropExtraColumns(merged, columns.length);
+  }
+
+  /**
+   * Remove columns appended for merging
+   */
+  private dropExtraColumns(data: ScreenerDict, count: number): ScreenerDict {
+    if (data.data.every((row) => row.d.length <= count)) {
+      return data;
     }
+    return {
+      ...data,
+      data: data.data.map((row) => ({ ...row, d: row.d.slice(0, count) })),
+    };
+  }
+
+  /**
+   * Send a query for a single market
+   */
+  private async scanMarket(
+    market: string,
+    queryDict: QueryDict,
+    cookies?: Cookies
+  ): Promise<ScreenerDict> {
+    return this.client.scan(
+      market,
+      { ...queryDict, markets: [market] },
+      cookies
+    );
+  }
 
-    const data = (await response.json()) as ScreenerDict;
-    return data;
+  /**
+   * Throw if `strict` is set and the query has validation errors
+   */
+  private checkStrict(options: ScannerDataOptions): void {
+    if (options.strict) {
+      const diagnostics = this.validate();
+      if (diagnostics.some((d) => d.severity === 'error')) {
+        throw new QueryValidationError(diagnostics);
+      }
+    }
   }
 
   /**
    * Execute query and get formatted scanner data
    * @param cookies - Optional cookies for authentication
+   * @param options - Formatting options, and `strict` to validate before sending
    * @returns Scanner data with total count and formatted rows
    */
-  async getScannerData(cookies?: Cookies): Promise<ScannerData> {
+  async getScannerData(
+    cookies?: Cookies,
+    options: ScannerDataOptions = {}
+  ): Promise<ScannerData<C>> {
+    this.checkStrict(options);
     const rawData = await this.getScannerDataRaw(cookies);
+    return this.format(rawData, options);
+  }
+
+  /**
+   * Turn a raw response into rows keyed by column name
+   */
+  private format(
+    rawData: ScreenerDict,
+    options: ScannerDataOptions
+  ): ScannerData<C> {
     const columns = this.queryDict.columns || [];
+    const intervalNaming =
+      options.intervalNaming || (this.interval ? 'base' : 'suffixed');
 
     // Convert raw data to array of objects
     const formattedData = rawData.data.map((row) => {
@@ -242,18 +687,257 @@ export class Query {
         symbol: row.s,
       };
 
+      // Record the source market unless it was selected as a column
+      if (row.m !== undefined && !columns.includes('market')) {
+        obj.market = row.m;
+      }
+
       // Map each data value to its column name
       columns.forEach((col, index) => {
-        obj[col] = row.d[index];
+        if (intervalNaming !== 'base') {
+          obj[col] = row.d[index];
+        }
+        if (intervalNaming !== 'suffixed') {
+          obj[defaultCatalog.get(col)?.name ?? stripInterval(col)] =
+            row.d[index];
+        }
       });
 
-      return obj;
+      return obj as ScannerRow<C>;
     });
 
-    return {
+    const result: ScannerData<C> = {
       totalCount: rawData.totalCount,
       data: formattedData,
     };
+    if (rawData.isRealtime !== undefined) {
+      result.isRealtime = rawData.isRealtime;
+    }
+    if (options.decode) {
+      return decodeScannerData(
+        result,
+        options.decode === true ? {} : options.decode
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Iterate over every matching row, fetching pages until totalCount is
+   * exhausted or the `maxRows` cap is reached. Starts at the query's offset
+   * and ignores its limit.
+   *
+   * Rows can shift between pages when prices move during the scan, so a
+   * symbol already yielded is skipped if it shows up again on a later page.
+   * Symbols that shift into an already fetched page can still be missed.
+   * @param options - Page size, row cap, cookies and formatting options
+   * @returns Async iterable of formatted rows
+   */
+  async *iterate(
+    options: PaginationOptions = {}
+  ): AsyncGenerator<ScannerRow<C>> {
+    for await (const page of this.iteratePages(options)) {
+      yield* page.data;
+    }
+  }
+
+  /**
+   * Fetch every matching row by following the range page by page
+   * @param options - Page size, row cap, cookies and formatting options
+   * @returns Scanner data with total count and all fetched rows
+   */
+  async getAllScannerData(
+    options: PaginationOptions = {}
+  ): Promise<ScannerData<C>> {
+    const result: ScannerData<C> = { totalCount: 0, data: [] };
+    for await (const page of this.iteratePages(options)) {
+      result.totalCount = page.totalCount;
+      result.data.push(...page.data);
+      if (page.raw) {
+        result.raw = result.raw ?? [];
+        result.raw.push(...page.raw);
+      }
+      // One delayed page makes the whole result delayed
+      if (page.isRealtime !== undefined && result.isRealtime !== false) {
+        result.isRealtime = page.isRealtime;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Fetch successive pages, dropping rows already seen on earlier pages
+   */
+  private async *iteratePages(
+    options: PaginationOptions
+  ): AsyncGenerator<ScannerData<C>> {
+    const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+    const maxRows = options.maxRows ?? DEFAULT_MAX_ROWS;
+    if (pageSize <= 0) {
+      throw new Error(`pageSize must be positive, got ${pageSize}`);
+    }
+
+    const sources = this.fanOut();
+    if (sources.length > 1) {
+      yield* this.iterateMergedPages(sources, pageSize, maxRows, options);
+      return;
+    }
+
+    const seen = new Set<string>();
+    let offset = this.queryDict.range?.[0] ?? 0;
+    let fetched = 0;
+
+    while (fetched < maxRows) {
+      const page = await this.copy()
+        .offset(offset)
+        .limit(Math.min(pageSize, maxRows - fetched))
+        .getScannerData(options.cookies, options);
+
+      const keep = page.data.map((row) => {
+        const key = `${row.market ?? ''}:${row.symbol}`;
+        if (seen.has(key)) {
+          return false;
+        }
+        seen.add(key);
+        return true;
+      });
+      const fresh = page.data.filter((_row, i) => keep[i]);
+
+      fetched += fresh.length;
+      yield {
+        ...page,
+        data: fresh,
+        ...(page.raw && { raw: page.raw.filter((_row, i) => keep[i]) }),
+      };
+
+      offset += page.data.length;
+      if (page.data.length === 0 || offset >= page.totalCount) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Page through a fanned-out query. Each market and ticker chunk is paged
+   * by its own offset and the rows are merged in sort order as they
+   * arrive, so every row is requested once rather than re-requesting
+   * [0, end] from every market for each page.
+   */
+  private async *iterateMergedPages(
+    sources: FanOutSource[],
+    pageSize: number,
+    maxRows: number,
+    options: PaginationOptions
+  ): AsyncGenerator<ScannerData<C>> {
+    this.checkStrict(options);
+    const sort = this.queryDict.sort;
+    const request = this.mergeColumns();
+    const columnCount = (this.queryDict.columns || []).length;
+    const cursors = sources.map((source) => ({
+      source,
+      offset: 0,
+      totalCount: 0,
+      rows: [] as ScreenerRowDict[],
+      done: false,
+    }));
+
+    let isRealtime: boolean | undefined;
+    const refill = async (): Promise<void> => {
+      const empty = cursors.filter((c) => c.rows.length === 0 && !c.done);
+      await mapConcurrent(empty, this.client.concurrency, async (cursor) => {
+        const response = await this.scanSource(
+          cursor.source,
+          request.columns,
+          [cursor.offset, cursor.offset + pageSize],
+          options.cookies
+        );
+        cursor.totalCount = response.totalCount;
+        cursor.offset += response.data.length;
+        cursor.rows = response.data;
+        cursor.done =
+          response.data.length === 0 || cursor.offset >= response.totalCount;
+        // One delayed response makes every later page delayed
+        if (response.isRealtime !== undefined && isRealtime !== false) {
+          isRealtime = response.isRealtime;
+        }
+      });
+    };
+
+    const toPage = (rows: ScreenerRowDict[]): ScannerData<C> =>
+      this.format(
+        this.dropExtraColumns(
+          {
+            totalCount: cursors.reduce((sum, c) => sum + c.totalCount, 0),
+            data: rows,
+            ...(isRealtime !== undefined && { isRealtime }),
+          },
+          columnCount
+        ),
+        options
+      );
+
+    const seen = new Set<string>();
+    let skip = this.queryDict.range?.[0] ?? 0;
+    let fetched = 0;
+    let page: ScreenerRowDict[] = [];
+
+    while (fetched < maxRows) {
+      await refill();
+      // Take the first row in sort order; ties keep the source order
+      let next: (typeof cursors)[number] | undefined;
+      for (const cursor of cursors) {
+        if (cursor.rows.length === 0) continue;
+        if (
+          !next ||
+          (sort &&
+            compareValues(
+              cursor.rows[0].d[request.sortIndex],
+              next.rows[0].d[request.sortIndex],
+              sort.sortOrder,
+              sort.nullsFirst
+            ) < 0)
+        ) {
+          next = cursor;
+        }
+      }
+      if (!next) break;
+
+      const row = next.rows.shift()!;
+      if (skip > 0) {
+        skip--;
+        continue;
+      }
+      const key = `${row.m ?? ''}:${row.s}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      page.push(row);
+      fetched++;
+      if (page.length === pageSize) {
+        yield toPage(page);
+        page = [];
+      }
+    }
+    if (page.length > 0) {
+      yield toPage(page);
+    }
+  }
+
+  /**
+   * Render the query as SQL-like text for logs and code review, e.g.
+   * `SELECT name, close FROM america WHERE volume > 1000000 AND
+   * (RSI|15 < 35 OR ...) ORDER BY volume DESC LIMIT 25 OFFSET 10`
+   * @param options - Multi-line output and field catalog
+   */
+  explain(options: ExplainOptions = {}): string {
+    return explainQueryDict(this.queryDict, options);
+  }
+
+  /**
+   * Single-line SQL-like form of the query, see `explain()`
+   */
+  toString(): string {
+    return this.explain();
   }
 
   /**
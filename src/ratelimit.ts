@@ -0,0 +1,92 @@
+/**
+ * Token-bucket rate limiter shared by all requests sent through one client,
+ * and a helper bounding how many requests run at once
+ */
+
+/**
+ * Rate limiter configuration
+ */
+export interface RateLimiterOptions {
+  /** Sustained requests per second */
+  requestsPerSecond: number;
+  /** Maximum burst size (default: requestsPerSecond, at least 1) */
+  burst?: number;
+}
+
+export class RateLimiter {
+  private readonly capacity: number;
+  private readonly refillPerMs: number;
+  private tokens: number;
+  private lastRefill: number;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(options: RateLimiterOptions) {
+    if (!(options.requestsPerSecond > 0)) {
+      throw new Error(
+        `requestsPerSecond must be positive, got ${options.requestsPerSecond}`
+      );
+    }
+    this.capacity = Math.max(1, options.burst ?? options.requestsPerSecond);
+    this.refillPerMs = options.requestsPerSecond / 1000;
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Wait until a token is available, then consume it.
+   * Callers are served in the order they called acquire().
+   */
+  acquire(): Promise<void> {
+    const turn = this.queue.then(() => this.take());
+    this.queue = turn;
+    return turn;
+  }
+
+  private async take(): Promise<void> {
+    this.refill();
+    if (this.tokens < 1) {
+      const waitMs = Math.ceil((1 - this.tokens) / this.refillPerMs);
+      await sleep(waitMs);
+      this.refill();
+    }
+    this.tokens -= 1;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + (now - this.lastRefill) * this.refillPerMs
+    );
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Resolve after the given number of milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Map items through an async function with at most `concurrency` calls in
+ * flight. Results keep the order of the input.
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  const workers = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
@@ -0,0 +1,131 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ScanDefinitionError, compileScan } from './scanfile';
+import { col } from './column';
+import { And, Or } from './operators';
+
+const SCAN = `name: momentum
+columns: [name, close, volume]
+parameters:
+  min_volume: 1000000
+  min_price: { default: 5 }
+filters:
+  - { field: volume, op: gt, value: $min_volume }
+  - { field: close, op: ">=", value: $min_price }
+`;
+
+/**
+ * Compile a source expected to fail, returning the error
+ */
+function compileError(source: string): ScanDefinitionError {
+  try {
+    compileScan(source, { fileName: 'scan.yaml' });
+  } catch (error) {
+    assert.ok(error instanceof ScanDefinitionError);
+    return error;
+  }
+  assert.fail('expected a ScanDefinitionError');
+}
+
+describe('compileScan', () => {
+  it('substitutes parameters, preferring given values', () => {
+    const { name, query } = compileScan(SCAN, {
+      params: { min_volume: 5_000_000 },
+    });
+
+    assert.equal(name, 'momentum');
+    assert.deepEqual(query.getQueryDict().filter, [
+      col('volume').gt(5_000_000),
+      col('close').gte(5),
+    ]);
+  });
+
+  it('sends filters as a filter2 tree only when they nest', () => {
+    const { query } = compileScan(
+      [
+        'columns: [close]',
+        'filters:',
+        '  - { field: close, op: gt, value: 5 }',
+        '  - or:',
+        '      - { field: RSI, op: lt, value: 30 }',
+        '      - { field: RSI, op: gt, value: 70 }',
+      ].join('\n')
+    );
+
+    assert.equal(compileScan(SCAN).query.getQueryDict().filter2, undefined);
+    assert.deepEqual(query.getQueryDict().filter, []);
+    assert.deepEqual(
+      query.getQueryDict().filter2,
+      And(col('close').gt(5), Or(col('RSI').lt(30), col('RSI').gt(70)))
+    );
+  });
+
+  it('rejects undeclared and missing required parameters', () => {
+    assert.throws(
+      () => compileScan(SCAN, { params: { max_price: 10 } }),
+      /unknown parameter "max_price"/
+    );
+
+    const error = compileError(
+      'columns: [close]\nparameters:\n  sector: { required: true }\n'
+    );
+    assert.equal(error.path, 'parameters.sector');
+    assert.equal(error.line, 3);
+  });
+
+  it('reports unknown operators at their line', () => {
+    const error = compileError(
+      'columns: [close]\nfilters:\n  - { field: close, op: above, value: 1 }\n'
+    );
+
+    assert.equal(error.path, 'filters[0].op');
+    assert.equal(error.line, 3);
+    assert.match(error.message, /^scan\.yaml:3:\d+: filters\[0\]\.op: /);
+    assert.match(error.message, /unknown operator "above"/);
+  });
+
+  it('reports references to undefined parameters', () => {
+    const error = compileError(
+      [
+        'columns: [close]',
+        'filters:',
+        '  - field: close',
+        '    op: gt',
+        '    value: $min_price',
+      ].join('\n')
+    );
+
+    assert.equal(error.path, 'filters[0].value');
+    assert.equal(error.line, 5);
+    assert.match(error.message, /undefined parameter "min_price"/);
+  });
+
+  it('accepts column-relative percentage ranges', () => {
+    const { query } = compileScan(
+      [
+        'columns: [close]',
+        'filters:',
+        '  - { field: close, op: betweenPct, value: [-5, 5] }',
+        '  - field: close',
+        '    op: notBetweenPct',
+        '    value: [{ column: SMA50 }, 0.95, 1.05]',
+      ].join('\n')
+    );
+
+    assert.deepEqual(query.getQueryDict().filter, [
+      col('close').betweenPct(-5, 5),
+      col('close').notBetweenPct(col('SMA50'), 0.95, 1.05),
+    ]);
+  });
+
+  it('checks the length of percentage ranges', () => {
+    for (const value of ['[1, 2, 3]', '[{ column: SMA50 }, 0.95]']) {
+      const error = compileError(
+        `columns: [close]\nfilters:\n` +
+          `  - { field: close, op: betweenPct, value: ${value} }\n`
+      );
+      assert.equal(error.path, 'filters[0].value');
+      assert.match(error.message, /requires a \[min, max\] or/);
+    }
+  });
+});
@@ -0,0 +1,603 @@
+/**
+ * Declarative scan definitions
+ * Compiles YAML or JSON scan files into Query objects, so scans can be
+ * maintained without writing TypeScript.
+ *
+ * Format (every key is optional except `columns`):
+ *
+ *   name: momentum
+ *   description: Liquid stocks with strong relative volume
+ *   markets: [america]
+ *   interval: 1d
+ *   columns: [name, close, volume, relative_volume_10d_calc]
+ *   parameters:
+ *     min_volume: 1000000                  # shorthand for { default: ... }
+ *     min_price: { default: 5, description: Minimum close }
+ *     sector: { required: true }
+ *   filters:
+ *     - { field: volume, op: gt, value: $min_volume }
+ *     - { field: close, op: ">=", value: $min_price }
+ *     - field: close
+ *       op: crossesAbove
+ *       value: { column: SMA50 }
+ *     - field: close
+ *       op: betweenPct
+ *       value: [{ column: SMA50 }, 0.95, 1.05]
+ *     - or:
+ *         - { field: RSI, op: lt, value: 30 }
+ *         - { field: sector, op: eq, value: $sector }
+ *   sort: { by: relative_volume_10d_calc, order: desc }
+ *   limit: 50
+ *   offset: 0
+ *
+ * Filters are combined with AND. When any filter uses `and`/`or`, the whole
+ * list is sent as a filter2 tree, otherwise as a flat filter list.
+ * A string value of the form `$name` is replaced by a parameter.
+ */
+
+import { promises as fs } from 'fs';
+import { Document, LineCounter, parseDocument } from 'yaml';
+import {
+  FilterOperationDict,
+  FilterScalar,
+  OperationDict,
+  Interval,
+} from './models';
+import { Column, ColumnOperand } from './column';
+import { And, Or } from './operators';
+import { Query } from './query';
+import { ScreenerClient, defaultClient } from './client';
+import { isInterval, INTERVAL_SUFFIXES } from './interval';
+
+/**
+ * Parameter values passed when compiling a scan
+ */
+export type ScanParameters = Record<string, unknown>;
+
+/**
+ * Declared scan parameter
+ */
+export interface ScanParameterDefinition {
+  default?: unknown;
+  required?: boolean;
+  description?: string;
+}
+
+/**
+ * A compiled scan file
+ */
+export interface ScanDefinition {
+  name?: string;
+  description?: string;
+  parameters: Record<string, ScanParameterDefinition>;
+  query: Query;
+}
+
+/**
+ * Options for compiling a scan
+ */
+export interface ScanLoadOptions {
+  /** Parameter values, overriding declared defaults */
+  params?: ScanParameters;
+  /** Client the compiled query executes through */
+  client?: ScreenerClient;
+  /** File name used in error messages */
+  fileName?: string;
+}
+
+/**
+ * Thrown when a scan file cannot be parsed or compiled
+ */
+export class ScanDefinitionError extends Error {
+  /** Location of the problem inside the definition, e.g. "filters[2].op" */
+  readonly path: string;
+  /** 1-based line of the offending entry, if known */
+  readonly line?: number;
+  /** 1-based column of the offending entry, if known */
+  readonly column?: number;
+
+  constructor(
+    message: string,
+    path: string,
+    line?: number,
+    column?: number,
+    fileName?: string
+  ) {
+    const location =
+      line !== undefined
+        ? `${fileName ?? '<scan>'}:${line}:${column ?? 1}: `
+        : fileName
+          ? `${fileName}: `
+          : '';
+    super(`${location}${path ? `${path}: ` : ''}${message}`);
+    this.name = 'ScanDefinitionError';
+    this.path = path;
+    this.line = line;
+    this.column = column;
+  }
+}
+
+type PathSegment = string | number;
+
+type Arity = 'none' | 'one' | 'pair' | 'list' | 'oneOrPair' | 'pctRange';
+
+type ColumnMethod =
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'eq'
+  | 'neq'
+  | 'between'
+  | 'notBetween'
+  | 'inDayRange'
+  | 'inWeekRange'
+  | 'inMonthRange'
+  | 'abovePct'
+  | 'belowPct'
+  | 'betweenPct'
+  | 'notBetweenPct'
+  | 'crosses'
+  | 'crossesAbove'
+  | 'crossesBelow'
+  | 'like'
+  | 'notLike'
+  | 'has'
+  | 'hasNoneOf'
+  | 'isin'
+  | 'notIn'
+  | 'empty'
+  | 'notEmpty';
+
+/**
+ * Filter operators accepted in scan files: Column method names plus the
+ * usual comparison symbols
+ */
+const OPERATORS: Record<string, [ColumnMethod, Arity]> = {
+  gt: ['gt', 'one'],
+  '>': ['gt', 'one'],
+  gte: ['gte', 'one'],
+  '>=': ['gte', 'one'],
+  lt: ['lt', 'one'],
+  '<': ['lt', 'one'],
+  lte: ['lte', 'one'],
+  '<=': ['lte', 'one'],
+  eq: ['eq', 'one'],
+  '==': ['eq', 'one'],
+  neq: ['neq', 'one'],
+  '!=': ['neq', 'one'],
+  between: ['between', 'pair'],
+  notBetween: ['notBetween', 'pair'],
+  inDayRange: ['inDayRange', 'pair'],
+  inWeekRange: ['inWeekRange', 'pair'],
+  inMonthRange: ['inMonthRange', 'pair'],
+  abovePct: ['abovePct', 'oneOrPair'],
+  belowPct: ['belowPct', 'oneOrPair'],
+  betweenPct: ['betweenPct', 'pctRange'],
+  notBetweenPct: ['notBetweenPct', 'pctRange'],
+  crosses: ['crosses', 'one'],
+  crossesAbove: ['crossesAbove', 'one'],
+  crossesBelow: ['crossesBelow', 'one'],
+  like: ['like', 'one'],
+  notLike: ['notLike', 'one'],
+  has: ['has', 'list'],
+  hasNoneOf: ['hasNoneOf', 'list'],
+  isin: ['isin', 'list'],
+  in: ['isin', 'list'],
+  notIn: ['notIn', 'list'],
+  empty: ['empty', 'none'],
+  notEmpty: ['notEmpty', 'none'],
+};
+
+const TOP_LEVEL_KEYS = new Set([
+  'name',
+  'description',
+  'markets',
+  'interval',
+  'columns',
+  'parameters',
+  'filters',
+  'sort',
+  'limit',
+  'offset',
+]);
+
+/**
+ * Compiles one parsed document, reporting errors at their source line
+ */
+class ScanCompiler {
+  private readonly params: ScanParameters = {};
+
+  constructor(
+    private readonly doc: Document,
+    private readonly lineCounter: LineCounter,
+    private readonly options: ScanLoadOptions
+  ) {}
+
+  fail(message: string, path: PathSegment[]): never {
+    const node =
+      path.length > 0 ? this.doc.getIn(path, true) : this.doc.contents;
+    const range = (node as { range?: [number, number, number] } | undefined)
+      ?.range;
+    const pos = range ? this.lineCounter.linePos(range[0]) : undefined;
+    throw new ScanDefinitionError(
+      message,
+      formatPath(path),
+      pos?.line,
+      pos?.col,
+      this.options.fileName
+    );
+  }
+
+  compile(raw: unknown): ScanDefinition {
+    if (!isPlainObject(raw)) {
+      this.fail('scan definition must be a mapping', []);
+    }
+    for (const key of Object.keys(raw)) {
+      if (!TOP_LEVEL_KEYS.has(key)) {
+        this.fail(`unknown key "${key}"`, [key]);
+      }
+    }
+
+    const parameters = this.compileParameters(raw.parameters);
+    const query = new Query(this.options.client || defaultClient);
+
+    if (raw.markets !== undefined) {
+      query.setMarkets(...this.stringList(raw.markets, ['markets']));
+    }
+
+    if (raw.columns === undefined) {
+      this.fail('"columns" is required', []);
+    }
+    query.select(...this.stringList(raw.columns, ['columns']));
+
+    if (raw.filters !== undefined) {
+      this.compileFilters(query, raw.filters);
+    }
+    if (raw.sort !== undefined) {
+      this.compileSort(query, raw.sort);
+    }
+    if (raw.offset !== undefined) {
+      query.offset(this.nonNegativeInteger(raw.offset, ['offset']));
+    }
+    if (raw.limit !== undefined) {
+      query.limit(this.nonNegativeInteger(raw.limit, ['limit']));
+    }
+    if (raw.interval !== undefined) {
+      const interval = this.resolve(raw.interval, ['interval']);
+      if (!isInterval(interval)) {
+        this.fail(
+          `invalid interval ${JSON.stringify(interval)}, expected one of: ` +
+            Object.keys(INTERVAL_SUFFIXES).join(', '),
+          ['interval']
+        );
+      }
+      query.setInterval(interval as Interval);
+    }
+
+    return {
+      name: raw.name === undefined ? undefined : String(raw.name),
+      description:
+        raw.description === undefined ? undefined : String(raw.description),
+      parameters,
+      query,
+    };
+  }
+
+  private compileParameters(
+    raw: unknown
+  ): Record<string, ScanParameterDefinition> {
+    const definitions: Record<string, ScanParameterDefinition> = {};
+    if (raw !== undefined) {
+      if (!isPlainObject(raw)) {
+        this.fail('"parameters" must be a mapping', ['parameters']);
+      }
+      for (const [name, value] of Object.entries(raw)) {
+        definitions[name] = isPlainObject(value)
+          ? {
+              default: value.default,
+              required: value.required === true,
+              description:
+                value.description === undefined
+                  ? undefined
+                  : String(value.description),
+            }
+          : { default: value };
+      }
+    }
+
+    const given = this.options.params || {};
+    for (const name of Object.keys(given)) {
+      if (!(name in definitions)) {
+        throw new ScanDefinitionError(
+          `unknown parameter "${name}"`,
+          'parameters',
+          undefined,
+          undefined,
+          this.options.fileName
+        );
+      }
+    }
+    for (const [name, definition] of Object.entries(definitions)) {
+      if (name in given) {
+        this.params[name] = given[name];
+      } else if (definition.default !== undefined) {
+        this.params[name] = definition.default;
+      } else if (definition.required) {
+        this.fail(`parameter "${name}" is required`, ['parameters', name]);
+      }
+    }
+    return definitions;
+  }
+
+  /**
+   * Replace `$name` parameter references
+   */
+  private resolve(value: unknown, path: PathSegment[]): unknown {
+    if (typeof value === 'string' && /^\$[A-Za-z_][\w]*$/.test(value)) {
+      const name = value.slice(1);
+      if (!(name in this.params)) {
+        this.fail(`undefined parameter "${name}"`, path);
+      }
+      return this.params[name];
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, index) => this.resolve(item, [...path, index]));
+    }
+    return value;
+  }
+
+  private stringList(raw: unknown, path: PathSegment[]): string[] {
+    const value = this.resolve(raw, path);
+    const list = Array.isArray(value) ? value : [value];
+    return list.map((item, index) => {
+      if (typeof item !== 'string' || item === '') {
+        this.fail('expected a non-empty string', [...path, index]);
+      }
+      return item;
+    });
+  }
+
+  private nonNegativeInteger(raw: unknown, path: PathSegment[]): number {
+    const value = this.resolve(raw, path);
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      this.fail('expected a non-negative integer', path);
+    }
+    return value;
+  }
+
+  private compileSort(query: Query, raw: unknown): void {
+    const path = ['sort'];
+    if (typeof raw === 'string') {
+      query.orderBy(raw);
+      return;
+    }
+    if (!isPlainObject(raw)) {
+      this.fail('"sort" must be a field name or a mapping', path);
+    }
+    const by = this.resolve(raw.by, [...path, 'by']);
+    if (typeof by !== 'string') {
+      this.fail('"by" must be a field name', [...path, 'by']);
+    }
+    const order = this.resolve(raw.order ?? 'asc', [...path, 'order']);
+    if (order !== 'asc' && order !== 'desc') {
+      this.fail('"order" must be "asc" or "desc"', [...path, 'order']);
+    }
+    query.orderBy(by, order === 'asc', raw.nullsFirst === true);
+  }
+
+  private compileFilters(query: Query, raw: unknown): void {
+    if (!Array.isArray(raw)) {
+      this.fail('"filters" must be a list', ['filters']);
+    }
+    const nodes = raw.map((node, index) =>
+      this.compileNode(node, ['filters', index])
+    );
+    const nested = nodes.some((node) => !('left' in node));
+
+    if (nested) {
+      query.where2(And(...nodes));
+    } else {
+      query.where(...(nodes as FilterOperationDict[]));
+    }
+  }
+
+  private compileNode(
+    raw: unknown,
+    path: PathSegment[]
+  ): FilterOperationDict | OperationDict {
+    if (!isPlainObject(raw)) {
+      this.fail('filter must be a mapping', path);
+    }
+
+    for (const logical of ['and', 'or'] as const) {
+      if (logical in raw) {
+        const children = raw[logical];
+        if (Object.keys(raw).length !== 1) {
+          this.fail(`"${logical}" must be the only key of its filter`, path);
+        }
+        if (!Array.isArray(children) || children.length === 0) {
+          this.fail(`"${logical}" must be a non-empty list`, [
+            ...path,
+            logical,
+          ]);
+        }
+        const operands = children.map((child, index) =>
+          this.compileNode(child, [...path, logical, index])
+        );
+        return logical === 'and' ? And(...operands) : Or(...operands);
+      }
+    }
+
+    return this.compileExpression(raw, path);
+  }
+
+  private compileExpression(
+    raw: Record<string, unknown>,
+    path: PathSegment[]
+  ): FilterOperationDict {
+    const field = this.resolve(raw.field, [...path, 'field']);
+    if (typeof field !== 'string' || field === '') {
+      this.fail('"field" must be a field name', [...path, 'field']);
+    }
+
+    const opName = raw.op;
+    if (typeof opName !== 'string' || !(opName in OPERATORS)) {
+      this.fail(
+        `unknown operator ${JSON.stringify(opName)}, expected one of: ` +
+          Object.keys(OPERATORS).join(', '),
+        [...path, 'op']
+      );
+    }
+    const [method, arity] = OPERATORS[opName];
+    const valuePath = [...path, 'value'];
+    const value = this.resolve(raw.value, valuePath);
+    const column = new Column(field);
+
+    let args: unknown[];
+    switch (arity) {
+      case 'none':
+        args = [];
+        break;
+      case 'one':
+        args = [this.operand(value, valuePath)];
+        break;
+      case 'pair':
+        if (!Array.isArray(value) || value.length !== 2) {
+          this.fail(`"${opName}" requires a [min, max] value`, valuePath);
+        }
+        args = value.map((item, index) =>
+          this.operand(item, [...valuePath, index])
+        );
+        break;
+      case 'pctRange':
+        if (
+          !Array.isArray(value) ||
+          value.length !== (isPlainObject(value[0]) ? 3 : 2)
+        ) {
+          this.fail(
+            `"${opName}" requires a [min, max] or ` +
+              '[{ column: <field> }, min, max] value',
+            valuePath
+          );
+        }
+        args = value.map((item, index) =>
+          index === 0
+            ? this.operand(item, [...valuePath, index])
+            : this.scalar(item, [...valuePath, index])
+        );
+        break;
+      case 'oneOrPair':
+        args = Array.isArray(value)
+          ? value.map((item, index) =>
+              this.operand(item, [...valuePath, index])
+            )
+          : [this.operand(value, valuePath)];
+        break;
+      case 'list':
+        if (!Array.isArray(value)) {
+          this.fail(`"${opName}" requires a list value`, valuePath);
+        }
+        args = [
+          value.map((item, index) => this.scalar(item, [...valuePath, index])),
+        ];
+        break;
+    }
+
+    return (column[method] as (...a: unknown[]) => FilterOperationDict).apply(
+      column,
+      args
+    );
+  }
+
+  /**
+   * A literal value or a `{ column: name, interval? }` reference
+   */
+  private operand(raw: unknown, path: PathSegment[]): ColumnOperand {
+    if (isPlainObject(raw)) {
+      const name = raw.column;
+      if (typeof name !== 'string') {
+        this.fail('column reference must be { column: <field> }', path);
+      }
+      if (raw.interval !== undefined && !isInterval(raw.interval)) {
+        this.fail(`invalid interval ${JSON.stringify(raw.interval)}`, [
+          ...path,
+          'interval',
+        ]);
+      }
+      return new Column(name, raw.interval as Interval | undefined);
+    }
+    return this.scalar(raw, path);
+  }
+
+  private scalar(raw: unknown, path: PathSegment[]): FilterScalar {
+    const value = this.resolve(raw, path);
+    if (
+      typeof value !== 'string' &&
+      typeof value !== 'number' &&
+      typeof value !== 'boolean'
+    ) {
+      this.fail('expected a string, number or boolean', path);
+    }
+    return value;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function formatPath(path: PathSegment[]): string {
+  return path
+    .map((segment, index) =>
+      typeof segment === 'number'
+        ? `[${segment}]`
+        : index === 0
+          ? segment
+          : `.${segment}`
+    )
+    .join('');
+}
+
+/**
+ * Compile a YAML or JSON scan definition
+ * @param source - File contents (JSON is valid YAML)
+ * @param options - Parameter values, client and file name for errors
+ * @returns Compiled scan with its Query
+ * @throws ScanDefinitionError with the line and column of the problem
+ */
+export function compileScan(
+  source: string,
+  options: ScanLoadOptions = {}
+): ScanDefinition {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(source, { lineCounter, prettyErrors: false });
+
+  if (doc.errors.length > 0) {
+    const error = doc.errors[0];
+    const pos = lineCounter.linePos(error.pos[0]);
+    throw new ScanDefinitionError(
+      error.message.split('\n')[0],
+      '',
+      pos.line,
+      pos.col,
+      options.fileName
+    );
+  }
+
+  return new ScanCompiler(doc, lineCounter, options).compile(doc.toJS());
+}
+
+/**
+ * Read and compile a scan file
+ * @param path - Path to a .yaml, .yml or .json scan file
+ * @param options - Parameter values and client
+ * @returns Compiled scan with its Query
+ */
+export async function loadScanFile(
+  path: string,
+  options: ScanLoadOptions = {}
+): Promise<ScanDefinition> {
+  const source = await fs.readFile(path, 'utf8');
+  return compileScan(source, { fileName: path, ...options });
+}
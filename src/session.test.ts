@@ -0,0 +1,143 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  SessionManager,
+  SessionStatusChange,
+  parseCookieHeader,
+  parseCookieJar,
+} from './session';
+import { ScreenerClient } from './client';
+
+const JAR = [
+  '# Netscape HTTP Cookie File',
+  '#HttpOnly_.tradingview.com\tTRUE\t/\tTRUE\t0\tsessionid\tabc',
+  'www.tradingview.com\tFALSE\t/\tTRUE\t4102444800\tsessionid_sign\tv2:xyz',
+  '.google.com\tTRUE\t/\tTRUE\t0\tSID\tother',
+  '.tradingview.com\tTRUE\t/\tTRUE\t1\tdevice_t\texpired',
+  '',
+].join('\n');
+
+/**
+ * Client whose scans answer with the next update_mode of the list
+ */
+function updateModeClient(session: SessionManager, modes: string[]) {
+  return new ScreenerClient({
+    session,
+    retry: false,
+    fetch: async () => {
+      const text = JSON.stringify({
+        totalCount: 1,
+        data: [{ s: 'NASDAQ:AAPL', d: [190, modes.shift()] }],
+      });
+      return {
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        text: async () => text,
+      };
+    },
+  });
+}
+
+describe('cookie parsing', () => {
+  it('keeps unexpired TradingView cookies from a cookie jar', () => {
+    assert.deepEqual(parseCookieJar(JAR), {
+      sessionid: 'abc',
+      sessionid_sign: 'v2:xyz',
+    });
+  });
+
+  it('splits a Cookie header', () => {
+    assert.deepEqual(parseCookieHeader('sessionid=abc; sessionid_sign=a=b;'), {
+      sessionid: 'abc',
+      sessionid_sign: 'a=b',
+    });
+  });
+});
+
+describe('SessionManager.fromFile', () => {
+  let dir: string;
+  const write = async (name: string, text: string) => {
+    const file = path.join(dir, name);
+    await fs.writeFile(file, text, 'utf8');
+    return file;
+  };
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tv-session-'));
+  });
+  after(() => fs.rm(dir, { recursive: true, force: true }));
+
+  it('reads JSON, cookie jars and Cookie headers', async () => {
+    const files = [
+      await write('cookies.json', '{ "sessionid": "abc", "version": 2 }'),
+      await write('cookies.txt', JAR),
+      await write('cookie.header', 'sessionid=abc\n'),
+    ];
+
+    const sessions = await Promise.all(
+      files.map((file) => SessionManager.fromFile(file))
+    );
+
+    assert.deepEqual(
+      sessions.map((session) => session.cookies),
+      [
+        { sessionid: 'abc', version: '2' },
+        { sessionid: 'abc', sessionid_sign: 'v2:xyz' },
+        { sessionid: 'abc' },
+      ]
+    );
+  });
+
+  it('treats a file without cookies as anonymous', async () => {
+    const session = await SessionManager.fromFile(
+      await write('empty.txt', '# Netscape HTTP Cookie File\n')
+    );
+    assert.equal(session.isAuthenticated, false);
+  });
+});
+
+describe('SessionManager events', () => {
+  it('emits degraded and restored as the update mode changes', async () => {
+    const session = new SessionManager({ sessionid: 'abc' });
+    const client = updateModeClient(session, [
+      'streaming',
+      'delayed_streaming_900',
+      'delayed_streaming_900',
+      'streaming',
+    ]);
+    const events: [string, SessionStatusChange][] = [];
+    session.on('degraded', (change) => events.push(['degraded', change]));
+    session.on('restored', (change) => events.push(['restored', change]));
+
+    const rows = [];
+    for (let i = 0; i < 4; i++) {
+      const response = await client.scan('america', { columns: ['close'] });
+      rows.push(response.data[0].d);
+    }
+
+    assert.deepEqual(events, [
+      ['degraded', { market: 'america', previous: true }],
+      ['restored', { market: 'america', previous: false }],
+    ]);
+    assert.equal(session.isRealtime, true);
+    // The update_mode column is requested behind the scenes and hidden
+    assert.deepEqual(rows, [[190], [190], [190], [190]]);
+  });
+
+  it('does not report anonymous sessions as degraded', async () => {
+    const session = new SessionManager();
+    let degraded = 0;
+    session.on('degraded', () => degraded++);
+
+    await updateModeClient(session, ['endofday']).scan('america', {
+      columns: ['close'],
+    });
+
+    assert.equal(degraded, 0);
+    assert.equal(session.isRealtime, false);
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Session cookie management and real-time data detection
+ * TradingView silently serves delayed data when the session cookie is
+ * missing or expired. The `update_mode` column reveals which one a
+ * response carries: "streaming" for real-time, "delayed_streaming_<s>" or
+ * "endofday" otherwise.
+ */
+
+import { promises as fs } from 'fs';
+import { Cookies, ScreenerDict } from './models';
+import type { ScreenerClient } from './client';
+import { TypedEmitter } from './events';
+
+/**
+ * Column reporting whether a row is real-time
+ */
+export const UPDATE_MODE_FIELD = 'update_mode';
+
+const COOKIE_DOMAIN = 'tradingview.com';
+
+/**
+ * Interpret an update_mode value
+ * @returns true for real-time, false for delayed or end-of-day data,
+ *   undefined for unknown values
+ */
+export function isRealtimeUpdateMode(mode: unknown): boolean | undefined {
+  if (typeof mode !== 'string') return undefined;
+  if (mode === 'streaming') return true;
+  if (mode.startsWith('delayed') || mode === 'endofday') return false;
+  return undefined;
+}
+
+/**
+ * Real-time status of a response, from its update_mode column
+ * @param response - Raw scanner response
+ * @param columns - Columns the request selected
+ * @returns true when every row is real-time, false when any row is
+ *   delayed, undefined when update_mode was not selected or no row had it
+ */
+export function realtimeStatus(
+  response: ScreenerDict,
+  columns: string[] = []
+): boolean | undefined {
+  const index = columns.indexOf(UPDATE_MODE_FIELD);
+  if (index === -1) return undefined;
+
+  let status: boolean | undefined;
+  for (const row of response.data) {
+    const realtime = isRealtimeUpdateMode(row.d[index]);
+    if (realtime === false) return false;
+    if (realtime === true) status = true;
+  }
+  return status;
+}
+
+/**
+ * Parse a Netscape/Mozilla cookie jar (as written by curl and browser
+ * export extensions), keeping unexpired TradingView cookies
+ */
+export function parseCookieJar(text: string, now: Date = new Date()): Cookies {
+  const cookies: Cookies = {};
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.startsWith('#HttpOnly_')
+      ? rawLine.slice('#HttpOnly_'.length)
+      : rawLine;
+    if (line.trim() === '' || line.startsWith('#')) continue;
+
+    const fields = line.split('\t');
+    if (fields.length < 7) continue;
+    const [domain, , , , expires, name, value] = fields;
+    const host = domain.replace(/^\./, '');
+    if (host !== COOKIE_DOMAIN && !host.endsWith(`.${COOKIE_DOMAIN}`)) {
+      continue;
+    }
+    const expiresAt = Number(expires);
+    if (expiresAt > 0 && expiresAt * 1000 < now.getTime()) continue;
+    cookies[name] = value.trim();
+  }
+  return cookies;
+}
+
+/**
+ * Parse a Cookie header string, "name=value; name2=value2"
+ */
+export function parseCookieHeader(header: string): Cookies {
+  const cookies: Cookies = {};
+  for (const pair of header.split(';')) {
+    const eq = pair.indexOf('=');
+    if (eq > 0) {
+      cookies[pair.slice(0, eq).trim()] = pair.slice(eq + 1).trim();
+    }
+  }
+  return cookies;
+}
+
+/**
+ * Real-time status change reported by a SessionManager
+ */
+export interface SessionStatusChange {
+  /** Market of the response that revealed the change */
+  market?: string;
+  /** Previous status, undefined if none was observed yet */
+  previous?: boolean;
+}
+
+/**
+ * Events emitted by a SessionManager and their arguments
+ */
+export interface SessionEvents {
+  /** An authenticated session returned delayed data */
+  degraded: [change: SessionStatusChange];
+  /** Real-time data is back after a degradation */
+  restored: [change: SessionStatusChange];
+}
+
+/**
+ * Holds the session cookies a client sends and tracks whether they still
+ * yield real-time data. Attach it with `new ScreenerClient({ session })`.
+ *
+ * @example
+ * const session = await SessionManager.fromFile('cookies.txt');
+ * session.on('degraded', () => console.warn('Session expired, data is delayed'));
+ * const client = new ScreenerClient({ session });
+ */
+export class SessionManager extends TypedEmitter<SessionEvents> {
+  private currentCookies?: Cookies;
+  private status?: boolean;
+
+  constructor(cookies?: Cookies) {
+    super();
+    this.setCookies(cookies);
+  }
+
+  /**
+   * Read the session from environment variables: TVSESSIONID and the
+   * optional TVSESSIONID_SIGN
+   */
+  static fromEnv(
+    env: Record<string, string | undefined> = process.env
+  ): SessionManager {
+    const cookies: Cookies = {};
+    if (env.TVSESSIONID) cookies.sessionid = env.TVSESSIONID;
+    if (env.TVSESSIONID_SIGN) cookies.sessionid_sign = env.TVSESSIONID_SIGN;
+    return new SessionManager(cookies);
+  }
+
+  /**
+   * Read cookies from a file: a JSON object, a Netscape cookie jar, or a
+   * Cookie header line
+   */
+  static async fromFile(path: string): Promise<SessionManager> {
+    const text = await fs.readFile(path, 'utf8');
+    const trimmed = text.trim();
+    if (trimmed.startsWith('{')) {
+      const parsed = JSON.parse(trimmed) as Record<string, unknown>;
+      return new SessionManager(
+        Object.fromEntries(
+          Object.entries(parsed).map(([key, value]) => [key, String(value)])
+        )
+      );
+    }
+    if (/^#|\t/m.test(trimmed)) {
+      return new SessionManager(parseCookieJar(text));
+    }
+    return new SessionManager(parseCookieHeader(trimmed));
+  }
+
+  /**
+   * Cookies sent with requests, undefined when anonymous
+   */
+  get cookies(): Cookies | undefined {
+    return this.currentCookies;
+  }
+
+  /**
+   * Whether session cookies are set
+   */
+  get isAuthenticated(): boolean {
+    return this.currentCookies !== undefined;
+  }
+
+  /**
+   * Real-time status of the last observed response, undefined until a
+   * response with update_mode was seen
+   */
+  get isRealtime(): boolean | undefined {
+    return this.status;
+  }
+
+  /**
+   * Replace the cookies, e.g. after logging in again. Resets the status.
+   */
+  setCookies(cookies?: Cookies): void {
+    this.currentCookies =
+      cookies && Object.keys(cookies).length > 0 ? { ...cookies } : undefined;
+    this.status = undefined;
+  }
+
+  /**
+   * Record the real-time status of a response. Called by the client for
+   * every scan; emits "degraded" when an authenticated session returns
+   * delayed data and "restored" when real-time data comes back.
+   */
+  observe(realtime: boolean | undefined, market?: string): void {
+    if (realtime === undefined) return;
+    const previous = this.status;
+    this.status = realtime;
+
+    if (!realtime && previous !== false && this.isAuthenticated) {
+      this.emit('degraded', { market, previous });
+    } else if (realtime && previous === false) {
+      this.emit('restored', { market, previous });
+    }
+  }
+
+  /**
+   * Probe whether the session yields real-time data
+   * @param client - Client to send the probe through
+   * @param market - Market to probe (default: america)
+   */
+  async check(
+    client: ScreenerClient,
+    market: string = 'america'
+  ): Promise<boolean | undefined> {
+    const columns = [UPDATE_MODE_FIELD];
+    const response = await client.scan(
+      market,
+      { markets: [market], columns, range: [0, 1] },
+      this.cookies
+    );
+    const realtime = realtimeStatus(response, columns);
+    this.observe(realtime, market);
+    return realtime;
+  }
+}
@@ -0,0 +1,178 @@
+import { describe, it, after, before } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import {
+  SinkDeliveryError,
+  SlackSink,
+  WebhookSink,
+  signPayload,
+} from './sinks';
+
+interface Received {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * Local HTTP server answering each request with the next scripted status
+ * for its path (the last one repeats), recording every request. Requests
+ * to /stalled are never answered, and /stalled-body never ends its body.
+ */
+function startServer() {
+  const received: Received[] = [];
+  const statuses: Record<string, number[]> = {};
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const path = req.url ?? '/';
+      received.push({ path, headers: req.headers, body });
+      if (path === '/stalled') return;
+      if (path === '/stalled-body') {
+        res.writeHead(200).write('{');
+        return;
+      }
+      const script = statuses[path] ?? [200];
+      const status = script.length > 1 ? script.shift()! : script[0];
+      // Hold responses briefly so sends can overlap
+      setTimeout(() => res.writeHead(status).end(), 10);
+    });
+  });
+  return {
+    received,
+    statuses,
+    server,
+    url: (path: string) =>
+      `http://127.0.0.1:${(server.address() as AddressInfo).port}${path}`,
+  };
+}
+
+const FAST_RETRY = { retries: 2, minDelayMs: 1, maxDelayMs: 5 };
+const row = { symbol: 'NASDAQ:AAPL', name: 'AAPL', close: 190 };
+
+describe('HTTP sinks', () => {
+  const local = startServer();
+
+  before(
+    () =>
+      new Promise<void>((resolve) =>
+        local.server.listen(0, '127.0.0.1', resolve)
+      )
+  );
+  after(
+    () =>
+      new Promise<void>((resolve) => {
+        local.server.close(() => resolve());
+        local.server.closeAllConnections();
+      })
+  );
+
+  it('signs webhook bodies with the secret', async () => {
+    const sink = new WebhookSink({
+      url: local.url('/signed'),
+      secret: 's3cret',
+    });
+
+    await sink.send([row]);
+
+    const [request] = local.received.filter((r) => r.path === '/signed');
+    assert.equal(
+      request.headers['x-signature-256'],
+      `sha256=${signPayload(request.body, 's3cret')}`
+    );
+    assert.equal(JSON.parse(request.body).rows[0].message, 'NASDAQ:AAPL');
+  });
+
+  it('retries server errors but not client errors', async () => {
+    local.statuses['/flaky'] = [503, 502, 200];
+    local.statuses['/rejected'] = [400];
+    const flaky = new WebhookSink({
+      url: local.url('/flaky'),
+      retry: FAST_RETRY,
+    });
+    const rejected = new WebhookSink({
+      url: local.url('/rejected'),
+      retry: FAST_RETRY,
+    });
+
+    assert.deepEqual(await flaky.send([row]), { sent: 1, skipped: 0 });
+    await assert.rejects(rejected.send([row]), (error: unknown) => {
+      assert.ok(error instanceof SinkDeliveryError);
+      assert.equal(error.status, 400);
+      return true;
+    });
+
+    const count = (path: string) =>
+      local.received.filter((r) => r.path === path).length;
+    assert.equal(count('/flaky'), 3);
+    assert.equal(count('/rejected'), 1);
+  });
+
+  it('delivers a row once per dedupe window, even concurrently', async () => {
+    const sink = new WebhookSink({
+      url: local.url('/dedupe'),
+      dedupeWindowMs: 60_000,
+    });
+
+    const results = await Promise.all([sink.send([row]), sink.send([row])]);
+    const later = await sink.send([row, { ...row, symbol: 'NYSE:KO' }]);
+
+    assert.deepEqual(results, [
+      { sent: 1, skipped: 0 },
+      { sent: 0, skipped: 1 },
+    ]);
+    assert.deepEqual(later, { sent: 1, skipped: 1 });
+    assert.equal(local.received.filter((r) => r.path === '/dedupe').length, 2);
+  });
+
+  it('sends a row again after a failed delivery', async () => {
+    local.statuses['/retry-later'] = [400, 200];
+    const sink = new WebhookSink({
+      url: local.url('/retry-later'),
+      dedupeWindowMs: 60_000,
+      retry: false,
+    });
+
+    await assert.rejects(sink.send([row]), SinkDeliveryError);
+    assert.deepEqual(await sink.send([row]), { sent: 1, skipped: 0 });
+  });
+
+  it('times out requests and response bodies', async () => {
+    const stalled = new WebhookSink({
+      url: local.url('/stalled'),
+      timeoutMs: 50,
+      retry: false,
+    });
+    const stalledBody = new WebhookSink({
+      url: local.url('/stalled-body'),
+      timeoutMs: 50,
+      retry: false,
+    });
+
+    await assert.rejects(stalled.send([row]), (error: unknown) => {
+      assert.ok(error instanceof SinkDeliveryError);
+      assert.ok(error.retryable);
+      assert.match(error.message, /timed out after 50ms/);
+      return true;
+    });
+    assert.deepEqual(await stalledBody.send([row]), { sent: 1, skipped: 0 });
+  });
+
+  it('escapes Slack markup characters', async () => {
+    const sink = new SlackSink({
+      webhookUrl: local.url('/slack'),
+      title: 'R&D <scan>',
+      template: '{{name}}',
+    });
+
+    await sink.send([{ ...row, name: 'A&B <!channel>' }]);
+
+    const [request] = local.received.filter((r) => r.path === '/slack');
+    assert.equal(
+      JSON.parse(request.body).text,
+      '*R&amp;D &lt;scan&gt;*\nA&amp;B &lt;!channel&gt;'
+    );
+  });
+});
@@ -0,0 +1,385 @@
+/**
+ * Notification sinks for scan results
+ * Push rows to a webhook, a Slack channel or a file, with message
+ * templates, per-symbol de-duplication and delivery retries.
+ */
+
+import { createHmac } from 'crypto';
+import { promises as fs } from 'fs';
+import {
+  DEFAULT_RETRY,
+  FetchLike,
+  RetryOptions,
+  abortable,
+  backoffDelay,
+  defaultFetch,
+  requestTimeout,
+} from './client';
+import { ScannerRow } from './models';
+import { scannerRowKey } from './diff';
+import { formatValue } from './export';
+import { sleep } from './ratelimit';
+
+/**
+ * Outcome of a send
+ */
+export interface SinkResult {
+  /** Rows delivered */
+  sent: number;
+  /** Rows dropped because they were delivered within the dedupe window */
+  skipped: number;
+}
+
+/**
+ * A destination for scan results
+ */
+export interface Sink {
+  send(rows: ScannerRow<string>[]): Promise<SinkResult>;
+}
+
+/**
+ * Options shared by the built-in sinks
+ */
+export interface SinkOptions {
+  /**
+   * Message rendered per row: `{{field}}` placeholders are replaced by the
+   * row's values (default: "{{symbol}}"), or a function of the row
+   */
+  template?: string | ((row: ScannerRow<string>) => string);
+  /** Skip rows whose key was delivered within this window (default: 0, off) */
+  dedupeWindowMs?: number;
+  /** Row identity for de-duplication (default: "market:symbol") */
+  key?: (row: ScannerRow<string>) => string;
+  /** Delivery retry policy, or false to disable retries */
+  retry?: RetryOptions | false;
+}
+
+/**
+ * Thrown when a sink cannot deliver after its retries
+ */
+export class SinkDeliveryError extends Error {
+  /** HTTP status, for HTTP sinks */
+  readonly status?: number;
+  /** Whether the failure is worth retrying */
+  readonly retryable: boolean;
+  readonly cause?: unknown;
+
+  constructor(
+    message: string,
+    options: { status?: number; retryable?: boolean; cause?: unknown } = {}
+  ) {
+    super(message);
+    this.name = 'SinkDeliveryError';
+    this.status = options.status;
+    this.retryable = options.retryable ?? true;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * Replace `{{field}}` placeholders with row values.
+ * Arrays are joined with ", " and missing values render as "".
+ */
+export function renderTemplate(
+  template: string,
+  row: Record<string, any>
+): string {
+  return template.replace(/\{\{\s*([^}]+?)\s*\}\}/g, (_match, field) =>
+    formatValue(row[field], field, row, { arraySeparator: ', ' })
+  );
+}
+
+/**
+ * Base class for sinks: renders messages, filters recently delivered rows
+ * and retries failed deliveries. Subclasses implement `deliver()`.
+ */
+export abstract class BaseSink implements Sink {
+  protected readonly options: SinkOptions;
+  private readonly retry: Required<RetryOptions> | null;
+  private readonly delivered = new Map<string, number>();
+
+  constructor(options: SinkOptions = {}) {
+    this.options = options;
+    this.retry =
+      options.retry === false ? null : { ...DEFAULT_RETRY, ...options.retry };
+  }
+
+  /**
+   * Deliver rows with their rendered messages
+   */
+  protected abstract deliver(
+    rows: ScannerRow<string>[],
+    messages: string[]
+  ): Promise<void>;
+
+  /**
+   * Render the message for a row
+   */
+  render(row: ScannerRow<string>): string {
+    const template = this.options.template ?? '{{symbol}}';
+    return typeof template === 'function'
+      ? template(row)
+      : renderTemplate(template, row);
+  }
+
+  /**
+   * Deliver the rows not sent within the dedupe window.
+   * Rows are marked as sent before delivery, so concurrent sends do not
+   * deliver the same row twice; the marks are dropped if delivery fails.
+   * @throws SinkDeliveryError when delivery fails after all retries
+   */
+  async send(rows: ScannerRow<string>[]): Promise<SinkResult> {
+    const now = Date.now();
+    const windowMs = this.options.dedupeWindowMs ?? 0;
+    const keyOf = this.options.key ?? scannerRowKey;
+
+    for (const [key, sentAt] of this.delivered) {
+      if (now - sentAt >= windowMs) this.delivered.delete(key);
+    }
+    const seen = new Set<string>();
+    const fresh = rows.filter((row) => {
+      const key = keyOf(row);
+      if (this.delivered.has(key) || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+    if (fresh.length > 0) {
+      const messages = fresh.map((row) => this.render(row));
+      if (windowMs > 0) {
+        seen.forEach((key) => this.delivered.set(key, now));
+      }
+      try {
+        await this.withRetry(() => this.deliver(fresh, messages));
+      } catch (error) {
+        seen.forEach((key) => {
+          if (this.delivered.get(key) === now) this.delivered.delete(key);
+        });
+        throw error;
+      }
+    }
+    return { sent: fresh.length, skipped: rows.length - fresh.length };
+  }
+
+  private async withRetry(deliver: () => Promise<void>): Promise<void> {
+    const retries = this.retry ? this.retry.retries : 0;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await deliver();
+      } catch (error) {
+        const retryable =
+          !(error instanceof SinkDeliveryError) || error.retryable;
+        if (!retryable || attempt >= retries) {
+          throw error instanceof SinkDeliveryError
+            ? error
+            : new SinkDeliveryError(
+                `Delivery failed: ${(error as Error)?.message ?? error}`,
+                { cause: error }
+              );
+        }
+        await sleep(backoffDelay(attempt, this.retry || DEFAULT_RETRY));
+      }
+    }
+  }
+}
+
+/**
+ * Options for HTTP sinks
+ */
+export interface HttpSinkOptions extends SinkOptions {
+  /** Extra request headers */
+  headers?: Record<string, string>;
+  /** Fetch implementation (default: global fetch, falling back to node-fetch) */
+  fetch?: FetchLike;
+  /** Per-request timeout in milliseconds (default: 10000, 0 disables) */
+  timeoutMs?: number;
+}
+
+const DEFAULT_SINK_TIMEOUT_MS = 10_000;
+
+/**
+ * POST a JSON body, turning failed responses into SinkDeliveryErrors.
+ * 429 and 5xx responses, network errors and timeouts are retryable.
+ * The response body is read and discarded so the connection is released.
+ */
+async function postJSON(
+  url: string,
+  body: string,
+  headers: Record<string, string>,
+  options: HttpSinkOptions
+): Promise<void> {
+  const fetchImpl = options.fetch || defaultFetch();
+  const timeoutMs = options.timeoutMs ?? DEFAULT_SINK_TIMEOUT_MS;
+  const timeout = requestTimeout(timeoutMs);
+  try {
+    let response;
+    try {
+      response = await abortable(
+        fetchImpl(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...headers },
+          body,
+          signal: timeout.signal,
+        }),
+        timeout.signal
+      );
+    } catch (error) {
+      throw new SinkDeliveryError(
+        timeout.signal?.aborted
+          ? `Request to ${url} timed out after ${timeoutMs}ms`
+          : `Request to ${url} failed: ${(error as Error)?.message ?? error}`,
+        { cause: error }
+      );
+    }
+    await abortable(response.text(), timeout.signal).catch(() => undefined);
+    if (!response.ok) {
+      const status = response.status;
+      throw new SinkDeliveryError(
+        `${url} responded ${status} ${response.statusText}`.trim(),
+        { status, retryable: status === 429 || status >= 500 }
+      );
+    }
+  } finally {
+    timeout.clear();
+  }
+}
+
+/**
+ * Webhook sink options
+ */
+export interface WebhookSinkOptions extends HttpSinkOptions {
+  /** Endpoint receiving the POST */
+  url: string;
+  /**
+   * Secret for the `X-Signature-256: sha256=<hex>` header, an HMAC-SHA256
+   * of the raw request body
+   */
+  secret?: string;
+}
+
+/**
+ * Generic webhook: POSTs
+ * `{ "sentAt": "...", "rows": [{ ...row, "message": "..." }] }`
+ */
+export class WebhookSink extends BaseSink {
+  private readonly webhook: WebhookSinkOptions;
+
+  constructor(options: WebhookSinkOptions) {
+    super(options);
+    this.webhook = options;
+  }
+
+  protected async deliver(
+    rows: ScannerRow<string>[],
+    messages: string[]
+  ): Promise<void> {
+    const body = JSON.stringify({
+      sentAt: new Date().toISOString(),
+      rows: rows.map((row, i) => ({ ...row, message: messages[i] })),
+    });
+    const headers = { ...this.webhook.headers };
+    if (this.webhook.secret) {
+      headers['X-Signature-256'] = `sha256=${signPayload(
+        body,
+        this.webhook.secret
+      )}`;
+    }
+    await postJSON(this.webhook.url, body, headers, this.webhook);
+  }
+}
+
+/**
+ * HMAC-SHA256 hex digest of a webhook body, for verifying signatures
+ */
+export function signPayload(body: string, secret: string): string {
+  return createHmac('sha256', secret).update(body).digest('hex');
+}
+
+/**
+ * Slack sink options
+ */
+export interface SlackSinkOptions extends HttpSinkOptions {
+  /** Incoming webhook URL */
+  webhookUrl: string;
+  /** First line of every message, e.g. the scan name */
+  title?: string;
+}
+
+/**
+ * Escape the characters Slack treats as markup in message text
+ */
+function escapeSlackText(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Slack-compatible incoming webhook: posts `{ "text": ... }` with one line
+ * per row. `&`, `<` and `>` in the title and messages are escaped.
+ */
+export class SlackSink extends BaseSink {
+  private readonly slack: SlackSinkOptions;
+
+  constructor(options: SlackSinkOptions) {
+    super(options);
+    this.slack = options;
+  }
+
+  protected async deliver(
+    _rows: ScannerRow<string>[],
+    messages: string[]
+  ): Promise<void> {
+    const escaped = messages.map(escapeSlackText);
+    const lines = this.slack.title
+      ? [`*${escapeSlackText(this.slack.title)}*`, ...escaped]
+      : escaped;
+    await postJSON(
+      this.slack.webhookUrl,
+      JSON.stringify({ text: lines.join('\n') }),
+      { ...this.slack.headers },
+      this.slack
+    );
+  }
+}
+
+/**
+ * File sink options
+ */
+export interface FileSinkOptions extends SinkOptions {
+  /** File to append to, created if missing */
+  path: string;
+  /**
+   * "ndjson" appends `{ "time", ...row, "message" }` objects, "text"
+   * appends the rendered messages (default: "ndjson")
+   */
+  format?: 'ndjson' | 'text';
+}
+
+/**
+ * Appends delivered rows to a file
+ */
+export class FileSink extends BaseSink {
+  private readonly file: FileSinkOptions;
+
+  constructor(options: FileSinkOptions) {
+    super(options);
+    this.file = options;
+  }
+
+  protected async deliver(
+    rows: ScannerRow<string>[],
+    messages: string[]
+  ): Promise<void> {
+    const time = new Date().toISOString();
+    const lines =
+      this.file.format === 'text'
+        ? messages
+        : rows.map((row, i) =>
+            JSON.stringify({ time, ...row, message: messages[i] })
+          );
+    await fs.appendFile(this.file.path, lines.join('\n') + '\n', 'utf8');
+  }
+}
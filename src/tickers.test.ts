@@ -0,0 +1,102 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  TickerListError,
+  chunkTickers,
+  normalizeTicker,
+  parseTickerList,
+} from './tickers';
+
+describe('normalizeTicker', () => {
+  it('trims, unquotes and uppercases', () => {
+    assert.equal(normalizeTicker('  "nasdaq:aapl" '), 'NASDAQ:AAPL');
+    assert.equal(normalizeTicker('NYSE:BRK.B'), 'NYSE:BRK.B');
+    assert.equal(normalizeTicker('CME_MINI:ES1!'), 'CME_MINI:ES1!');
+  });
+
+  it('adds the default exchange to bare symbols only', () => {
+    assert.equal(normalizeTicker('aapl', 'nasdaq'), 'NASDAQ:AAPL');
+    assert.equal(normalizeTicker('NYSE:KO', 'NASDAQ'), 'NYSE:KO');
+  });
+
+  it('rejects malformed tickers', () => {
+    assert.equal(normalizeTicker('AAPL'), undefined);
+    assert.equal(normalizeTicker('NASDAQ:'), undefined);
+    assert.equal(normalizeTicker('NASDAQ:AA PL'), undefined);
+  });
+});
+
+describe('parseTickerList', () => {
+  it('reads one ticker per line, skipping comments and duplicates', () => {
+    const text =
+      '\uFEFF# watchlist\nNASDAQ:AAPL\r\n\nnyse:ko\nNASDAQ:AAPL\n';
+
+    assert.deepEqual(parseTickerList(text), ['NASDAQ:AAPL', 'NYSE:KO']);
+  });
+
+  it('finds the ticker and exchange columns from the header', () => {
+    const csv = [
+      'Name,Symbol,Exchange',
+      '"Apple, Inc.",AAPL,NASDAQ',
+      'Coca-Cola,KO,',
+    ].join('\n');
+
+    assert.deepEqual(parseTickerList(csv, { defaultExchange: 'NYSE' }), [
+      'NASDAQ:AAPL',
+      'NYSE:KO',
+    ]);
+  });
+
+  it('treats the first line as data without a recognized header', () => {
+    assert.deepEqual(parseTickerList('NASDAQ:AAPL;Apple\nNYSE:KO;Coca'), [
+      'NASDAQ:AAPL',
+      'NYSE:KO',
+    ]);
+  });
+
+  it('selects a column by name or index', () => {
+    const csv = 'id\tcode\n1\tNASDAQ:AAPL\n2\tNYSE:KO';
+
+    assert.deepEqual(parseTickerList(csv, { column: 'Code' }), [
+      'NASDAQ:AAPL',
+      'NYSE:KO',
+    ]);
+    assert.deepEqual(
+      parseTickerList('1,NASDAQ:AAPL', { column: 1 }),
+      ['NASDAQ:AAPL']
+    );
+    assert.throws(
+      () => parseTickerList(csv, { column: 'ticker' }),
+      /has no column "ticker"/
+    );
+  });
+
+  it('reports invalid entries with their line numbers', () => {
+    const text = 'NASDAQ:AAPL\nAAPL\n\nNASDAQ:A B';
+
+    assert.throws(
+      () => parseTickerList(text),
+      (error: unknown) => {
+        assert.ok(error instanceof TickerListError);
+        assert.deepEqual(error.issues, [
+          { line: 2, value: 'AAPL', reason: 'has no exchange prefix' },
+          { line: 4, value: 'NASDAQ:A B', reason: 'is not a valid ticker' },
+        ]);
+        return true;
+      }
+    );
+    assert.deepEqual(parseTickerList(text, { onInvalid: 'skip' }), [
+      'NASDAQ:AAPL',
+    ]);
+  });
+});
+
+describe('chunkTickers', () => {
+  it('splits into chunks of at most the given size', () => {
+    assert.deepEqual(chunkTickers(['A:1', 'A:2', 'A:3'], 2), [
+      ['A:1', 'A:2'],
+      ['A:3'],
+    ]);
+    assert.throws(() => chunkTickers([], 0), /at least 1/);
+  });
+});
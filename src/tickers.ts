@@ -0,0 +1,244 @@
+/**
+ * Ticker lists: loading, normalization and request chunking
+ * Lists come from newline files or CSV exports and are normalized to the
+ * "EXCHANGE:SYMBOL" form the scanner expects.
+ */
+
+import { promises as fs } from 'fs';
+
+/**
+ * A ticker the scanner accepts: an exchange prefix and a symbol, e.g.
+ * "NASDAQ:AAPL", "NYSE:BRK.B", "CME_MINI:ES1!", "BINANCE:BTCUSDT"
+ */
+const TICKER_PATTERN = /^[A-Z0-9_]+:[A-Z0-9_.!&\-/]+$/;
+
+/**
+ * Column names recognized as the ticker column of a CSV header
+ */
+const TICKER_COLUMNS = ['ticker', 'tickers', 'symbol', 'symbols', 'tv_symbol'];
+const EXCHANGE_COLUMNS = ['exchange', 'prefix'];
+
+/**
+ * An entry that could not be turned into a ticker
+ */
+export interface TickerIssue {
+  /** 1-based line number in the source text */
+  line: number;
+  value: string;
+  reason: string;
+}
+
+/**
+ * Thrown when a ticker list contains invalid entries
+ */
+export class TickerListError extends Error {
+  readonly issues: TickerIssue[];
+
+  constructor(issues: TickerIssue[], source?: string) {
+    const shown = issues
+      .slice(0, 10)
+      .map((issue) => `  line ${issue.line}: "${issue.value}" ${issue.reason}`);
+    if (issues.length > shown.length) {
+      shown.push(`  ... and ${issues.length - shown.length} more`);
+    }
+    super(
+      `Invalid ticker list${source ? ` ${source}` : ''}:\n${shown.join('\n')}`
+    );
+    this.name = 'TickerListError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Ticker list parsing options
+ */
+export interface TickerListOptions {
+  /**
+   * CSV column holding the tickers, by header name or 0-based index
+   * (default: the first of ticker, symbol, tv_symbol, else the first column)
+   */
+  column?: string | number;
+  /**
+   * Exchange for symbols without a prefix, e.g. "NASDAQ". A CSV "exchange"
+   * column takes precedence.
+   */
+  defaultExchange?: string;
+  /** "throw" on invalid entries, or "skip" them (default: "throw") */
+  onInvalid?: 'throw' | 'skip';
+}
+
+/**
+ * Normalize a ticker to "EXCHANGE:SYMBOL": trims, uppercases and adds the
+ * default exchange to bare symbols
+ * @returns The normalized ticker, or undefined if it is not valid
+ */
+export function normalizeTicker(
+  value: string,
+  defaultExchange?: string
+): string | undefined {
+  let ticker = value.trim().replace(/^["']|["']$/g, '').trim().toUpperCase();
+  if (!ticker.includes(':') && defaultExchange) {
+    ticker = `${defaultExchange.trim().toUpperCase()}:${ticker}`;
+  }
+  return TICKER_PATTERN.test(ticker) ? ticker : undefined;
+}
+
+/**
+ * Check whether a ticker is in "EXCHANGE:SYMBOL" form
+ */
+export function isValidTicker(ticker: string): boolean {
+  return TICKER_PATTERN.test(ticker);
+}
+
+/**
+ * Split a CSV line, honoring double-quoted cells
+ */
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells;
+}
+
+function detectDelimiter(line: string): string | undefined {
+  return [',', ';', '\t'].find((delimiter) => line.includes(delimiter));
+}
+
+/**
+ * Parse a ticker list: one ticker per line, or a CSV file with a ticker
+ * column. Blank lines and lines starting with "#" are ignored, and
+ * duplicates are dropped keeping the first occurrence.
+ * @param text - File contents
+ * @param options - Column selection, default exchange and error handling
+ * @returns Normalized tickers in file order
+ * @throws TickerListError when entries are invalid and onInvalid is "throw"
+ */
+export function parseTickerList(
+  text: string,
+  options: TickerListOptions = {}
+): string[] {
+  const lines = text
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .map((content, index) => ({ content, line: index + 1 }))
+    .filter(({ content }) => content.trim() !== '' && !/^\s*#/.test(content));
+
+  const delimiter = lines.length > 0 ? detectDelimiter(lines[0].content) : '';
+  const split = (content: string) =>
+    delimiter ? splitCsvLine(content, delimiter) : [content];
+  let tickerIndex = typeof options.column === 'number' ? options.column : 0;
+  let exchangeIndex = -1;
+
+  if (lines.length > 0) {
+    const header = split(lines[0].content).map((cell) =>
+      cell.trim().toLowerCase()
+    );
+    const named = (names: string[]) =>
+      header.findIndex((cell) => names.includes(cell));
+    const tickerColumn = named(TICKER_COLUMNS);
+    if (typeof options.column === 'string') {
+      tickerIndex = header.indexOf(options.column.toLowerCase());
+      if (tickerIndex === -1) {
+        throw new TickerListError([
+          {
+            line: lines[0].line,
+            value: lines[0].content,
+            reason: `has no column "${options.column}"`,
+          },
+        ]);
+      }
+    } else if (options.column === undefined && tickerColumn !== -1) {
+      tickerIndex = tickerColumn;
+    }
+    // Without a recognized header the first line is data
+    if (typeof options.column === 'string' || tickerColumn !== -1) {
+      exchangeIndex = named(EXCHANGE_COLUMNS);
+      lines.shift();
+    }
+  }
+
+  const tickers = new Set<string>();
+  const issues: TickerIssue[] = [];
+  for (const { content, line } of lines) {
+    const cells = split(content);
+    const value = (cells[tickerIndex] ?? '').trim();
+    const exchange =
+      exchangeIndex >= 0 && cells[exchangeIndex]?.trim()
+        ? cells[exchangeIndex]
+        : options.defaultExchange;
+    const ticker = normalizeTicker(value, exchange);
+    if (ticker) {
+      tickers.add(ticker);
+    } else {
+      issues.push({
+        line,
+        value,
+        reason:
+          value.includes(':') || exchange
+            ? 'is not a valid ticker'
+            : 'has no exchange prefix',
+      });
+    }
+  }
+
+  if (issues.length > 0 && (options.onInvalid ?? 'throw') === 'throw') {
+    throw new TickerListError(issues);
+  }
+  return [...tickers];
+}
+
+/**
+ * Read a ticker list from a newline or CSV file
+ * @param path - File to read
+ * @param options - See parseTickerList
+ * @throws TickerListError when entries are invalid and onInvalid is "throw"
+ */
+export async function loadTickerList(
+  path: string,
+  options: TickerListOptions = {}
+): Promise<string[]> {
+  const text = await fs.readFile(path, 'utf8');
+  try {
+    return parseTickerList(text, options);
+  } catch (error) {
+    if (error instanceof TickerListError) {
+      throw new TickerListError(error.issues, `in ${path}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Split tickers into chunks of at most `size`
+ */
+export function chunkTickers(tickers: string[], size: number): string[][] {
+  if (!(size >= 1)) {
+    throw new Error(`Chunk size must be at least 1, got ${size}`);
+  }
+  const chunks: string[][] = [];
+  for (let i = 0; i < tickers.length; i += size) {
+    chunks.push(tickers.slice(i, i + size));
+  }
+  return chunks;
+}
@@ -0,0 +1,79 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { QueryValidationError, validateQueryDict } from './validation';
+import { col } from './column';
+import { Query } from './query';
+import { ScreenerClient } from './client';
+import { FilterOperationDict } from './models';
+
+const codes = (filter: FilterOperationDict[]) =>
+  validateQueryDict({ markets: ['america'], filter }).map((d) => d.code);
+
+describe('validateQueryDict', () => {
+  it('accepts percentage ranges on a column', () => {
+    assert.deepEqual(
+      codes([col('close').betweenPct(col('SMA50'), 0.95, 1.05)]),
+      []
+    );
+    assert.deepEqual(codes([col('change').notBetweenPct(-5, 5)]), []);
+  });
+
+  it('checks the column and bounds of percentage ranges', () => {
+    assert.deepEqual(
+      codes([col('close').betweenPct(col('no_such_field'), 0.95, 1.05)]),
+      ['unknown-field']
+    );
+    assert.deepEqual(
+      codes([col('close').betweenPct(col('SMA50'), 1.05, 0.95)]),
+      ['invalid-range']
+    );
+    assert.deepEqual(
+      codes([{ left: 'close', operation: 'in_range_pct', right: [1, 2, 3] }]),
+      ['invalid-value']
+    );
+  });
+
+  it('reports unknown fields as errors', () => {
+    const [diagnostic] = validateQueryDict({
+      markets: ['america'],
+      columns: ['relative_volum_10d_calc'],
+    });
+    assert.equal(diagnostic.code, 'unknown-field');
+    assert.equal(diagnostic.severity, 'error');
+  });
+
+  it('does not reject fields in markets the catalog does not cover', () => {
+    const diagnostics = validateQueryDict({
+      markets: ['bonds'],
+      columns: ['close', 'return_on_equity', 'yield_to_maturity'],
+    });
+    assert.deepEqual(
+      diagnostics.map((d) => [d.code, d.severity]),
+      [['unknown-field', 'warning']]
+    );
+  });
+
+  it('keeps strict execution from sending a misspelled column', async () => {
+    let requests = 0;
+    const client = new ScreenerClient({
+      fetch: async () => {
+        requests++;
+        throw new Error('not sent');
+      },
+    });
+    const query = new Query(client).select('name', 'relative_volum_10d_calc');
+
+    await assert.rejects(
+      query.getScannerData(undefined, { strict: true }),
+      QueryValidationError
+    );
+    assert.equal(requests, 0);
+  });
+
+  it('rejects triples for plain ranges', () => {
+    assert.deepEqual(
+      codes([{ left: 'close', operation: 'in_range', right: ['SMA50', 1, 2] }]),
+      ['invalid-range']
+    );
+  });
+});
@@ -0,0 +1,390 @@
+/**
+ * Local validation of a QueryDict before it is sent
+ * Checks fields against the field catalog, operations against field
+ * types and markets, ticker formats and the requested range.
+ */
+
+import {
+  QueryDict,
+  FilterOperationDict,
+  OperationDict,
+  Operation,
+} from './models';
+import { FieldCatalog, FieldType, defaultCatalog } from './fields';
+import { isValidTicker } from './tickers';
+
+/**
+ * Severity of a validation finding
+ */
+export type DiagnosticSeverity = 'error' | 'warning';
+
+/**
+ * A single validation finding
+ */
+export interface QueryDiagnostic {
+  /** Location inside the QueryDict, e.g. "filter[1].right" */
+  path: string;
+  /** Machine-readable code, e.g. "unknown-field" */
+  code: string;
+  severity: DiagnosticSeverity;
+  message: string;
+}
+
+/**
+ * Validation options
+ */
+export interface ValidationOptions {
+  /** Catalog to check fields against (default: bundled catalog) */
+  catalog?: FieldCatalog;
+  /**
+   * Severity for fields missing from the catalog (default: 'error', or
+   * 'warning' when a queried market is not covered by the catalog).
+   * Lower it to 'warning' for fields newer than the catalog snapshot.
+   */
+  unknownFieldSeverity?: DiagnosticSeverity | 'ignore';
+}
+
+/**
+ * Thrown by strict execution when validation finds errors
+ */
+export class QueryValidationError extends Error {
+  readonly diagnostics: QueryDiagnostic[];
+
+  constructor(diagnostics: QueryDiagnostic[]) {
+    const errors = diagnostics.filter((d) => d.severity === 'error');
+    super(
+      `Query validation failed with ${errors.length} error(s):\n` +
+        errors.map((d) => `  ${d.path}: ${d.message}`).join('\n')
+    );
+    this.name = 'QueryValidationError';
+    this.diagnostics = diagnostics;
+  }
+}
+
+const NUMERIC_OPERATIONS = new Set<Operation>([
+  'greater',
+  'less',
+  'egreater',
+  'eless',
+  'in_range',
+  'not_in_range',
+  'in_day_range',
+  'in_week_range',
+  'in_month_range',
+  'above_pct',
+  'below_pct',
+  'in_range_pct',
+  'not_in_range_pct',
+  'crosses',
+  'crosses_above',
+  'crosses_below',
+]);
+
+const RANGE_OPERATIONS = new Set<Operation>([
+  'in_range',
+  'not_in_range',
+  'in_day_range',
+  'in_week_range',
+  'in_month_range',
+  'in_range_pct',
+  'not_in_range_pct',
+]);
+
+const PCT_RANGE_OPERATIONS = new Set<Operation>([
+  'in_range_pct',
+  'not_in_range_pct',
+]);
+
+const STRING_OPERATIONS = new Set<Operation>(['match', 'nmatch']);
+const LIST_OPERATIONS = new Set<Operation>(['has', 'has_none_of']);
+const NULL_OPERATIONS = new Set<Operation>(['empty', 'nempty']);
+
+/**
+ * Operations that make sense for each field type
+ */
+function isOperationCompatible(
+  operation: Operation,
+  type: FieldType
+): boolean {
+  if (NULL_OPERATIONS.has(operation)) {
+    return true;
+  }
+  if (NUMERIC_OPERATIONS.has(operation)) {
+    return type === 'number' || type === 'timestamp';
+  }
+  if (STRING_OPERATIONS.has(operation)) {
+    return type === 'string';
+  }
+  if (LIST_OPERATIONS.has(operation)) {
+    return type === 'string' || type === 'array';
+  }
+  return true;
+}
+
+class Validator {
+  readonly diagnostics: QueryDiagnostic[] = [];
+  private readonly catalog: FieldCatalog;
+  private readonly unknownFieldSeverity: DiagnosticSeverity | 'ignore';
+  private readonly markets: string[];
+
+  constructor(queryDict: QueryDict, options: ValidationOptions) {
+    this.catalog = options.catalog || defaultCatalog;
+    this.markets = queryDict.markets?.length ? queryDict.markets : ['america'];
+    this.unknownFieldSeverity =
+      options.unknownFieldSeverity ||
+      (this.markets.every((market) => this.catalog.covers(market))
+        ? 'error'
+        : 'warning');
+  }
+
+  report(
+    path: string,
+    code: string,
+    message: string,
+    severity: DiagnosticSeverity = 'error'
+  ): void {
+    this.diagnostics.push({ path, code, severity, message });
+  }
+
+  /**
+   * Check a field name; returns its type if known
+   */
+  checkField(path: string, field: unknown): FieldType | undefined {
+    if (typeof field !== 'string' || field === '') {
+      this.report(
+        path,
+        'invalid-field',
+        'Field name must be a non-empty string'
+      );
+      return undefined;
+    }
+
+    const info = this.catalog.get(field);
+    if (!info) {
+      if (this.unknownFieldSeverity !== 'ignore') {
+        this.report(
+          path,
+          'unknown-field',
+          `Unknown field "${field}"`,
+          this.unknownFieldSeverity
+        );
+      }
+      return undefined;
+    }
+
+    if (field !== info.name && !info.timeframes) {
+      this.report(
+        path,
+        'no-timeframe',
+        `Field "${info.name}" does not support timeframes ("${field}")`
+      );
+    }
+
+    for (const market of this.markets) {
+      if (this.catalog.isValidFor(info.name, market) === false) {
+        this.report(
+          path,
+          'field-not-in-market',
+          `Field "${info.name}" is not available for market "${market}"`
+        );
+      }
+    }
+    return info.type;
+  }
+
+  checkExpression(path: string, expr: FilterOperationDict): void {
+    if (!expr || typeof expr !== 'object') {
+      this.report(path, 'invalid-expression', 'Filter must be an object');
+      return;
+    }
+
+    const type = this.checkField(`${path}.left`, expr.left);
+    const { operation, right } = expr;
+
+    if (type && !isOperationCompatible(operation, type)) {
+      this.report(
+        `${path}.operation`,
+        'operation-type-mismatch',
+        `Operation "${operation}" cannot be applied to ${type} field "${expr.left}"`
+      );
+    }
+
+    if (NULL_OPERATIONS.has(operation)) {
+      if (right !== undefined) {
+        this.report(
+          `${path}.right`,
+          'unexpected-value',
+          `Operation "${operation}" takes no value`,
+          'warning'
+        );
+      }
+      return;
+    }
+
+    if (right === undefined) {
+      this.report(
+        `${path}.right`,
+        'missing-value',
+        `Operation "${operation}" requires a value`
+      );
+      return;
+    }
+
+    if (RANGE_OPERATIONS.has(operation)) {
+      // Percentage ranges may scale a column: [column, minPct, maxPct]
+      const scaled =
+        PCT_RANGE_OPERATIONS.has(operation) &&
+        Array.isArray(right) &&
+        right.length === 3;
+      if (!Array.isArray(right) || (right.length !== 2 && !scaled)) {
+        this.report(
+          `${path}.right`,
+          'invalid-range',
+          PCT_RANGE_OPERATIONS.has(operation)
+            ? `Operation "${operation}" requires a [min, max] pair or a ` +
+                '[column, minPct, maxPct] triple'
+            : `Operation "${operation}" requires a [min, max] pair`
+        );
+        return;
+      }
+      if (scaled) {
+        if (typeof right[0] === 'string') {
+          this.checkField(`${path}.right[0]`, right[0]);
+        } else {
+          this.report(
+            `${path}.right[0]`,
+            'invalid-value',
+            'Percentage range must start with a column name'
+          );
+        }
+      }
+      const [min, max] = scaled ? right.slice(1) : right;
+      if (typeof min === 'number' && typeof max === 'number' && min > max) {
+        this.report(
+          `${path}.right`,
+          'invalid-range',
+          `Range minimum ${min} is greater than maximum ${max}`
+        );
+      }
+      return;
+    }
+
+    if (LIST_OPERATIONS.has(operation)) {
+      if (!Array.isArray(right)) {
+        this.report(
+          `${path}.right`,
+          'invalid-value',
+          `Operation "${operation}" requires a list of values`
+        );
+      }
+      return;
+    }
+
+    if (STRING_OPERATIONS.has(operation) && typeof right !== 'string') {
+      this.report(
+        `${path}.right`,
+        'invalid-value',
+        `Operation "${operation}" requires a string pattern`
+      );
+      return;
+    }
+
+    if (NUMERIC_OPERATIONS.has(operation) && typeof right === 'string') {
+      // A string operand is a column reference
+      this.checkField(`${path}.right`, right);
+    }
+  }
+
+  checkOperation(path: string, op: OperationDict): void {
+    const comparison = op?.operation;
+    if (!comparison || typeof comparison !== 'object') {
+      this.report(path, 'invalid-operation', 'Expected {"operation": {...}}');
+      return;
+    }
+    if (comparison.operator !== 'and' && comparison.operator !== 'or') {
+      this.report(
+        `${path}.operation.operator`,
+        'invalid-operator',
+        `Unknown logical operator "${comparison.operator}"`
+      );
+    }
+    if (
+      !Array.isArray(comparison.operands) ||
+      comparison.operands.length === 0
+    ) {
+      this.report(
+        `${path}.operation.operands`,
+        'empty-operands',
+        'Logical operation has no operands'
+      );
+      return;
+    }
+
+    comparison.operands.forEach((operand, index) => {
+      const operandPath = `${path}.operation.operands[${index}]`;
+      if ('expression' in operand) {
+        this.checkExpression(`${operandPath}.expression`, operand.expression);
+      } else {
+        this.checkOperation(operandPath, operand);
+      }
+    });
+  }
+
+  checkTicker(path: string, ticker: string): void {
+    if (!isValidTicker(ticker)) {
+      this.report(
+        path,
+        'invalid-ticker',
+        `Ticker "${ticker}" is not in "EXCHANGE:SYMBOL" form`
+      );
+    }
+  }
+
+  checkRange(range: [number, number]): void {
+    const [start, end] = range;
+    if (start < 0) {
+      this.report('range[0]', 'invalid-range', `Offset ${start} is negative`);
+    }
+    if (end <= start) {
+      this.report(
+        'range',
+        'empty-range',
+        `Range [${start}, ${end}] selects no rows`
+      );
+    }
+  }
+}
+
+/**
+ * Validate a query payload locally
+ * @param queryDict - Query to check
+ * @param options - Catalog and severity options
+ * @returns Diagnostics, empty when the query is valid
+ */
+export function validateQueryDict(
+  queryDict: QueryDict,
+  options: ValidationOptions = {}
+): QueryDiagnostic[] {
+  const validator = new Validator(queryDict, options);
+
+  (queryDict.columns || []).forEach((column, index) => {
+    validator.checkField(`columns[${index}]`, column);
+  });
+  (queryDict.symbols?.tickers || []).forEach((ticker, index) => {
+    validator.checkTicker(`symbols.tickers[${index}]`, ticker);
+  });
+  (queryDict.filter || []).forEach((expr, index) => {
+    validator.checkExpression(`filter[${index}]`, expr);
+  });
+  if (queryDict.filter2) {
+    validator.checkOperation('filter2', queryDict.filter2);
+  }
+  if (queryDict.sort) {
+    validator.checkField('sort.sortBy', queryDict.sort.sortBy);
+  }
+  if (queryDict.range) {
+    validator.checkRange(queryDict.range);
+  }
+
+  return validator.diagnostics;
+}
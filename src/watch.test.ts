@@ -0,0 +1,114 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ScanWatcher } from './watch';
+import { Query } from './query';
+import { ScreenerClient } from './client';
+
+/**
+ * Let pending promise callbacks run; setImmediate is not mocked
+ */
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+/**
+ * Query whose scans return a row for each of `state.symbols`; each scan
+ * waits for `gate` if set
+ */
+function gatedQuery() {
+  const state: { scans: number; symbols: string[]; gate?: Promise<void> } = {
+    scans: 0,
+    symbols: ['NASDAQ:AAPL'],
+  };
+  const client = new ScreenerClient({
+    retry: false,
+    fetch: async () => {
+      state.scans++;
+      await state.gate;
+      const text = JSON.stringify({
+        totalCount: state.symbols.length,
+        data: state.symbols.map((s) => ({ s, d: [190] })),
+      });
+      return {
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        text: async () => text,
+      };
+    },
+  });
+  return { query: new Query(client).select('close'), state };
+}
+
+describe('ScanWatcher', () => {
+  it('keeps a single schedule when restarted during a poll', async (t) => {
+    t.mock.timers.enable({ apis: ['setTimeout'] });
+    const { query, state } = gatedQuery();
+    let release!: () => void;
+    state.gate = new Promise((resolve) => (release = resolve));
+    const watcher = new ScanWatcher(query, { intervalMs: 60 });
+    let ticks = 0;
+    const poll = watcher.poll.bind(watcher);
+    watcher.poll = () => {
+      ticks++;
+      return poll();
+    };
+
+    watcher.start();
+    t.mock.timers.tick(0);
+    await settle();
+    const stopped = watcher.stop();
+    watcher.start();
+    t.mock.timers.tick(0);
+    state.gate = undefined;
+    release();
+    await stopped;
+    await settle();
+    ticks = 0;
+
+    // One run polls once per interval; an orphaned run would poll as well
+    for (const expected of [1, 2]) {
+      t.mock.timers.tick(60);
+      await settle();
+      assert.equal(ticks, expected);
+    }
+    await watcher.stop();
+    assert.equal(state.scans, 3);
+  });
+
+  it('emits exceptions thrown by listeners as errors', async () => {
+    const { query } = gatedQuery();
+    const watcher = new ScanWatcher(query, { emitInitial: true });
+    const errors: unknown[] = [];
+    watcher.on('entered', () => {
+      throw new Error('listener failed');
+    });
+    watcher.on('error', (error) => errors.push(error));
+
+    await assert.rejects(watcher.poll(), /listener failed/);
+    assert.equal(errors.length, 1);
+    assert.match(String(errors[0]), /listener failed/);
+  });
+
+  it('emits the remaining events after a listener throws', async () => {
+    const { query, state } = gatedQuery();
+    const watcher = new ScanWatcher(query);
+    const events: string[] = [];
+    const errors: unknown[] = [];
+    watcher.on('entered', (row) => {
+      events.push(`+${row.symbol}`);
+      throw new Error('listener failed');
+    });
+    watcher.on('exited', (row) => events.push(`-${row.symbol}`));
+    watcher.on('error', (error) => errors.push(error));
+
+    await watcher.poll();
+    state.symbols = ['NYSE:KO', 'NYSE:T'];
+    await assert.rejects(watcher.poll(), /listener failed/);
+
+    assert.deepEqual(events, ['+NYSE:KO', '+NYSE:T', '-NASDAQ:AAPL']);
+    assert.equal(errors.length, 2);
+
+    // The next poll diffs against the result the listeners saw
+    await watcher.poll();
+    assert.equal(events.length, 3);
+  });
+});
@@ -0,0 +1,384 @@
+/**
+ * Watch mode: re-run a query on a schedule and report what changed
+ */
+
+import { Query } from './query';
+import { Cookies, ScannerData, ScannerRow } from './models';
+import { scannerRowKey } from './diff';
+import { TypedEmitter } from './events';
+
+/**
+ * A trading session during which the watcher polls
+ */
+export interface MarketSession {
+  /** Opening time in the session's time zone, "HH:MM" */
+  start: string;
+  /** Closing time in the session's time zone, "HH:MM" */
+  end: string;
+  /** Days of the week, 0 = Sunday (default: Monday to Friday) */
+  days?: number[];
+  /** IANA time zone, e.g. "America/New_York" (default: UTC) */
+  timeZone?: string;
+}
+
+/**
+ * Change threshold for a watched field: a number is an absolute change,
+ * `pct` a relative change in percent
+ */
+export type FieldThreshold = number | { abs?: number; pct?: number };
+
+/**
+ * Watcher options
+ */
+export interface ScanWatcherOptions {
+  /** Delay between the end of one poll and the next (default: 60s) */
+  intervalMs?: number;
+  /** Only poll inside these sessions (default: always) */
+  sessions?: MarketSession[];
+  /** Fields to report changes for, with their thresholds */
+  thresholds?: Record<string, FieldThreshold>;
+  /** Fetch every page instead of only the query's range (default: false) */
+  fetchAll?: boolean;
+  /** Emit "entered" for the rows of the first poll (default: false) */
+  emitInitial?: boolean;
+  /** Session cookies for real-time data */
+  cookies?: Cookies;
+}
+
+/**
+ * A watched field that moved by at least its threshold
+ */
+export interface FieldChange<C extends string = string> {
+  /** Row key, "market:symbol" */
+  key: string;
+  field: string;
+  /** Value when the row entered or this field was last reported */
+  previous: number;
+  current: number;
+  delta: number;
+  /** Relative change in percent, undefined when `previous` is 0 */
+  pctChange?: number;
+  row: ScannerRow<C>;
+}
+
+/**
+ * Events emitted by a ScanWatcher and their arguments
+ */
+export interface ScanWatcherEvents<C extends string = string> {
+  /** Every successful poll */
+  poll: [data: ScannerData<C>];
+  /** A row that was not in the previous result */
+  entered: [row: ScannerRow<C>];
+  /** A row that is no longer in the result (its last known values) */
+  exited: [row: ScannerRow<C>];
+  /** A watched field that crossed its threshold */
+  changed: [change: FieldChange<C>];
+  /**
+   * A failed poll or an exception thrown by a listener; the watcher keeps
+   * running
+   */
+  error: [error: unknown];
+}
+
+const DEFAULT_INTERVAL_MS = 60_000;
+const WEEKDAYS = [1, 2, 3, 4, 5];
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function parseTime(time: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+  if (!match) {
+    throw new Error(`Invalid session time "${time}", expected "HH:MM"`);
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Check whether a moment falls inside a session
+ */
+export function isInSession(session: MarketSession, at: Date): boolean {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: session.timeZone ?? 'UTC',
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+  const part = (type: string) =>
+    parts.find((p) => p.type === type)?.value ?? '';
+
+  const day = DAY_NAMES.indexOf(part('weekday'));
+  const minutes = Number(part('hour')) * 60 + Number(part('minute'));
+  const start = parseTime(session.start);
+  const end = parseTime(session.end);
+
+  return (
+    (session.days ?? WEEKDAYS).includes(day) &&
+    (start <= end
+      ? minutes >= start && minutes < end
+      : minutes >= start || minutes < end)
+  );
+}
+
+/**
+ * Polls a query and emits the differences between consecutive results.
+ * Polls never overlap: the next one is scheduled only after the previous
+ * one finished. Failed polls and exceptions thrown by listeners emit
+ * "error" (or a process warning when nothing listens for "error"), and the
+ * schedule continues.
+ *
+ * @example
+ * const watcher = new ScanWatcher(query, {
+ *   intervalMs: 60_000,
+ *   thresholds: { close: { pct: 2 } },
+ * });
+ * watcher.on('entered', (row) => console.log('+', row.symbol));
+ * watcher.on('exited', (row) => console.log('-', row.symbol));
+ * watcher.start();
+ */
+export class ScanWatcher<C extends string = string> extends TypedEmitter<
+  ScanWatcherEvents<C>
+> {
+  private readonly query: Query<C>;
+  private readonly options: ScanWatcherOptions;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+  /** Bumped by start(), so ticks of an earlier run do not reschedule */
+  private generation = 0;
+  private inFlight?: Promise<void>;
+  private rows?: Map<string, ScannerRow<C>>;
+  /** Last reported value of each watched field, per row */
+  private reference = new Map<string, Record<string, number>>();
+
+  constructor(query: Query<C>, options: ScanWatcherOptions = {}) {
+    super();
+    this.query = query;
+    this.options = options;
+    (options.sessions ?? []).forEach((session) => {
+      parseTime(session.start);
+      parseTime(session.end);
+    });
+  }
+
+  /**
+   * Whether the watcher is started
+   */
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Start polling. The first poll runs immediately (or when the next
+   * session opens).
+   */
+  start(): this {
+    if (!this.running) {
+      this.running = true;
+      this.generation++;
+      this.schedule(0);
+    }
+    return this;
+  }
+
+  /**
+   * Stop polling
+   * @returns Resolves once any poll in progress has finished
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    await this.inFlight?.catch(() => undefined);
+  }
+
+  /**
+   * Forget the previous result, so the next poll sets a new baseline
+   */
+  reset(): void {
+    this.rows = undefined;
+    this.reference.clear();
+  }
+
+  /**
+   * Run one poll now, or wait for the one in progress
+   * @throws The poll's error or the first exception thrown by a listener,
+   * which are also emitted as "error"
+   */
+  poll(): Promise<void> {
+    if (!this.inFlight) {
+      this.inFlight = this.runPoll().finally(() => {
+        this.inFlight = undefined;
+      });
+    }
+    return this.inFlight;
+  }
+
+  private inSession(at: Date): boolean {
+    const sessions = this.options.sessions ?? [];
+    return (
+      sessions.length === 0 ||
+      sessions.some((session) => isInSession(session, at))
+    );
+  }
+
+  private schedule(delayMs: number): void {
+    const generation = this.generation;
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      void this.tick(generation);
+    }, delayMs);
+  }
+
+  /**
+   * Whether a tick scheduled by run `generation` should carry on
+   */
+  private isCurrent(generation: number): boolean {
+    return this.running && generation === this.generation;
+  }
+
+  private async tick(generation: number): Promise<void> {
+    if (!this.isCurrent(generation)) return;
+    if (this.inSession(new Date())) {
+      try {
+        await this.poll();
+      } catch (error) {
+        // Already emitted as "error" when anything listens; keep polling
+        if (this.listenerCount('error') === 0) {
+          process.emitWarning(
+            `ScanWatcher poll failed: ${(error as Error)?.message ?? error}`
+          );
+        }
+      }
+    }
+    // stop() and start() during the poll started a new run with its own timer
+    if (this.isCurrent(generation)) {
+      this.schedule(this.options.intervalMs ?? DEFAULT_INTERVAL_MS);
+    }
+  }
+
+  private async runPoll(): Promise<void> {
+    let data: ScannerData<C>;
+    try {
+      data = this.options.fetchAll
+        ? await this.query.getAllScannerData({ cookies: this.options.cookies })
+        : await this.query.getScannerData(this.options.cookies);
+    } catch (error) {
+      this.reportError(error);
+      throw error;
+    }
+    this.update(data);
+  }
+
+  private reportError(error: unknown): void {
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error);
+    }
+  }
+
+  /**
+   * Compare a result with the previous one and emit the differences.
+   * An exception thrown by a listener is reported as "error" without
+   * skipping the remaining events; the first one is rethrown at the end.
+   */
+  private update(data: ScannerData<C>): void {
+    let failure: { error: unknown } | undefined;
+    const notify = <E extends keyof ScanWatcherEvents<C>>(
+      event: E,
+      ...args: ScanWatcherEvents<C>[E]
+    ) => {
+      try {
+        this.emit(event, ...args);
+      } catch (error) {
+        this.reportError(error);
+        if (!failure) failure = { error };
+      }
+    };
+
+    const current = new Map<string, ScannerRow<C>>();
+    for (const row of data.data) {
+      current.set(scannerRowKey(row), row);
+    }
+    const previous = this.rows;
+    this.rows = current;
+
+    notify('poll', data);
+
+    for (const [key, row] of current) {
+      if (!previous?.has(key)) {
+        this.reference.set(key, this.watchedValues(row));
+        if (previous || this.options.emitInitial) {
+          notify('entered', row);
+        }
+        continue;
+      }
+      for (const change of this.thresholdChanges(key, row)) {
+        notify('changed', change);
+      }
+    }
+
+    for (const [key, row] of previous ?? []) {
+      if (!current.has(key)) {
+        this.reference.delete(key);
+        notify('exited', row);
+      }
+    }
+
+    if (failure) {
+      throw failure.error;
+    }
+  }
+
+  private watchedValues(row: ScannerRow<C>): Record<string, number> {
+    const values: Record<string, number> = {};
+    for (const field of Object.keys(this.options.thresholds ?? {})) {
+      const value = (row as Record<string, unknown>)[field];
+      if (typeof value === 'number') {
+        values[field] = value;
+      }
+    }
+    return values;
+  }
+
+  /**
+   * Watched fields of a row that crossed their threshold since they were
+   * last reported
+   */
+  private thresholdChanges(key: string, row: ScannerRow<C>): FieldChange<C>[] {
+    const reference = this.reference.get(key) ?? {};
+    this.reference.set(key, reference);
+    const changes: FieldChange<C>[] = [];
+
+    for (const [field, threshold] of Object.entries(
+      this.options.thresholds ?? {}
+    )) {
+      const current = (row as Record<string, unknown>)[field];
+      if (typeof current !== 'number') continue;
+      const previous = reference[field];
+      if (previous === undefined) {
+        reference[field] = current;
+        continue;
+      }
+
+      const delta = current - previous;
+      const pctChange =
+        previous !== 0 ? (delta / Math.abs(previous)) * 100 : undefined;
+      const { abs, pct } =
+        typeof threshold === 'number'
+          ? { abs: threshold, pct: undefined }
+          : threshold;
+      const crossed =
+        delta !== 0 &&
+        ((abs !== undefined && Math.abs(delta) >= abs) ||
+          (pct !== undefined &&
+            pctChange !== undefined &&
+            Math.abs(pctChange) >= pct));
+
+      if (crossed) {
+        reference[field] = current;
+        changes.push({ key, field, previous, current, delta, pctChange, row });
+      }
+    }
+    return changes;
+  }
+}